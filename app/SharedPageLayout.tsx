@@ -1,14 +1,34 @@
 import React from 'react';
-import { notFound } from 'next/navigation';
-import { IPage } from '@/.generated';
+import { headers } from 'next/headers';
+import { notFound, permanentRedirect } from 'next/navigation';
+import { after } from 'next/server';
 import { Header } from '@/components/authorable/site-structure/Header/Header';
 import { Footer } from '@/components/authorable/site-structure/Footer/Footer';
 import { BackToTop } from '@/components/authorable/site-structure/BackToTop/BackToTop';
-import { fetchPageData } from '@/lib/contentstack/page-data';
+import { AnnouncementBanner } from '@/components/authorable/site-structure/AnnouncementBanner/AnnouncementBanner';
+import { getAnnouncementBanner } from '@/lib/contentstack/announcement-banner';
+import { fetchPageChrome, fetchPageData, type RoutablePage } from '@/lib/contentstack/page-data';
+import { getPageByUid } from '@/lib/contentstack/entries';
+import { getExperimentAssignment } from '@/lib/contentstack/experiments';
+import { getCurrentLanguage } from '@/lib/contentstack/language';
+import { findLocalizedPath, getLocalizedUrls, type LocalizedUrls } from '@/lib/contentstack/localized-urls';
+import { getCurrentSite } from '@/lib/contentstack/site';
+import { LocalizedUrlsProvider } from '@/context/LocalizedUrlsContext';
+import { DEFAULT_PAGE_TYPE } from '@/lib/contentstack/page-types';
 import { MainLayout } from '@/components/authorable/site-structure/MainLayout/MainLayout';
+import { PageDataLayer } from '@/components/primitives/PageDataLayer';
+import { TimelinePreviewToolbar } from '@/components/primitives/TimelinePreviewToolbar';
+import { isPreviewRequest } from '@/lib/contentstack/preview-mode';
+import { resolveEntryTerms } from '@/lib/contentstack/taxonomies';
+import { getTimelinePreview } from '@/lib/contentstack/timeline';
+import { isRedirectAnalyticsEnabled, normalizeReferrer } from '@/lib/redirects/redirect-hits';
+import { recordNotFoundHit } from '@/lib/redirects/redirect-hit-sink';
+import { createLogger } from '@/lib/logger/logger';
 import { tv } from 'tailwind-variants';
 import { cn } from '@/utils/cn';
 
+const logger = createLogger('shared-page-layout');
+
 interface SharedPageLayoutProps {
   urlPath: string;
   children?: React.ReactNode;
@@ -18,6 +38,8 @@ interface SharedPageLayoutProps {
 /**
  * Shared page layout component that handles common page rendering logic.
  * Fetches page data and header, then renders the page with header and tracking script.
+ * The page content type is resolved from the URL unless `pageContentTypeUID` is given.
+ * Throws the fetch error when Contentstack is unreachable, so the route's error boundary renders.
  *
  * @component
  * @param {SharedPageLayoutProps} props - The component props containing the URL path
@@ -25,43 +47,100 @@ interface SharedPageLayoutProps {
  */
 export async function SharedPageLayout({
   urlPath,
-  pageContentTypeUID = 'page',
+  pageContentTypeUID,
 }: SharedPageLayoutProps) {
   // Fetch page data using shared function
-  let page: IPage | undefined;
-  let header, footer;
+  const pageData = await fetchPageData(urlPath, pageContentTypeUID);
+  let { page, header, footer } = pageData;
+  pageContentTypeUID = pageData.pageContentTypeUID;
+
+  // Contentstack could not be reached: render the error boundary instead of a 404,
+  // so an outage is never served (and indexed) as a missing page
+  if (page.status === 'error') {
+    throw page.error;
+  }
 
+  // URLs of the page in the other locales, for the language selector
+  let localizedUrls: LocalizedUrls = {};
 
-  try {
-    const pageData = await fetchPageData(urlPath, pageContentTypeUID);
-    page = pageData.page;
-    header = pageData.header;
-    footer = pageData.footer;
-  } catch (error) {
-    console.error('Error fetching page:', error);
-    notFound();
+  if (page.status === 'found' && pageContentTypeUID) {
+    localizedUrls = await getLocalizedUrls(page.data.uid, pageContentTypeUID);
   }
-  // If no page found, fetch 404 page from CMS
-  if (!page) {
-    const pageData = await fetchPageData('/404', 'page');
-    page = pageData.page;
-    pageContentTypeUID = 'page';
+
+  // Experiment variant assigned by the middleware: its entry is rendered at the control URL,
+  // keeping the language selector on the URLs of the control page
+  const experiment = page.status === 'found' ? await getExperimentAssignment() : null;
+  let experimentImpression: { experimentId: string; variant: string } | undefined;
+
+  if (experiment && experiment.controlUrl === urlPath.toLowerCase()) {
+    const { entryUid, contentTypeUid } = experiment.variant;
+    const variantPage = entryUid && contentTypeUid
+      ? await getPageByUid<RoutablePage>(entryUid, contentTypeUid, getCurrentLanguage())
+      : undefined;
+
+    if (variantPage?.status === 'found') {
+      page = variantPage;
+      pageContentTypeUID = contentTypeUid;
+      // The variant may be of a content type with another layout
+      ({ header, footer } = await fetchPageChrome(contentTypeUid, getCurrentLanguage()));
+    } else if (variantPage) {
+      logger.warn('Experiment variant unavailable, rendering the control page', {
+        experiment: experiment.experimentUid,
+        variant: experiment.variant.key,
+        entryUid,
+      });
+    }
+
+    // Impressions report the variant actually rendered
+    if (!variantPage || variantPage.status === 'found') {
+      experimentImpression = { experimentId: experiment.experimentUid, variant: experiment.variant.key };
+    }
+  }
+
+  // If no page found, redirect to the translated URL of a page reached through its URL in
+  // another locale (e.g. /es/about-us to /es/sobre-nosotros), or fetch 404 page from CMS
+  if (page.status === 'not-found') {
+    const locale = getCurrentLanguage();
+    const site = await getCurrentSite();
+    const localizedPath = await findLocalizedPath(urlPath, locale, site);
+    if (localizedPath) permanentRedirect(localizedPath);
+
+    // Record the 404 under its public URL, for the missing redirects of the redirect report
+    if (isRedirectAnalyticsEnabled()) {
+      const path = locale === site.defaultLocale ? urlPath : `/${locale}${urlPath === '/' ? '' : urlPath}`;
+      const referrer = normalizeReferrer((await headers()).get('referer'));
+      after(() => recordNotFoundHit(site.name, { path, referrer, at: new Date().toISOString() }));
+    }
+
+    page = (await fetchPageData('/404', DEFAULT_PAGE_TYPE)).page;
+    pageContentTypeUID = DEFAULT_PAGE_TYPE;
   }
 
   // If no 404 page found from CMS, show default 404 page
-  if (!page) {
+  if (page.status !== 'found' || !pageContentTypeUID) {
     notFound();
   }
 
+  // Taxonomy terms of the page, pushed to the data layer with the page view
+  const taxonomyTerms = await resolveEntryTerms(page.data);
+  // Site-wide announcement of the site settings, in the locale of the page
+  const announcementBanner = await getAnnouncementBanner(getCurrentLanguage());
+  const isPreview = await isPreviewRequest();
+
   const { base } = TAILWIND_VARIANTS();
 
   return (
-    <>
+    <LocalizedUrlsProvider value={localizedUrls}>
       <div tabIndex={-1} className={cn(base())}>
+        {announcementBanner && <AnnouncementBanner {...announcementBanner} />}
         {header && <Header {...header} />}
         <main>
           <div id="content">
-            <MainLayout page={page} pageContentTypeUID={pageContentTypeUID} />
+            <MainLayout
+              page={page.data}
+              pageContentTypeUID={pageContentTypeUID}
+              livePreview={isPreview}
+            />
           </div>
         </main>
         <footer>
@@ -69,7 +148,9 @@ export async function SharedPageLayout({
         </footer>
         <BackToTop />
       </div>
-    </>
+      <PageDataLayer contentType={pageContentTypeUID} terms={taxonomyTerms} experiment={experimentImpression} />
+      {isPreview && <TimelinePreviewToolbar timeline={await getTimelinePreview()} />}
+    </LocalizedUrlsProvider>
   );
 }
 
@@ -0,0 +1,71 @@
+'use client';
+
+// Global
+import { tv } from 'tailwind-variants';
+
+interface PageErrorProps {
+  error: Error & { digest?: string };
+  reset: () => void;
+}
+
+/**
+ * Error boundary of the catch-all route.
+ * Rendered when a page cannot be fetched because Contentstack is unreachable. Next.js answers
+ * these requests with a 500 status, so crawlers retry later instead of indexing a 404. Once the
+ * middleware knows of the failure (see lib/outages/middleware-outages.ts), it answers these
+ * pages with a 503 and Retry-After instead.
+ *
+ * @component
+ * @param {PageErrorProps} props - The error and a callback to render the page again
+ * @returns {JSX.Element} The rendered component.
+ */
+export default function PageError({ reset }: PageErrorProps) {
+  const { base, heading, message, button } = TAILWIND_VARIANTS();
+
+  return (
+    <main className={base()}>
+      <h1 className={heading()}>This page is temporarily unavailable</h1>
+      <p className={message()}>
+        We could not load this page right now. Please try again in a few moments.
+      </p>
+      <button type="button" className={button()} onClick={() => reset()}>
+        Try again
+      </button>
+    </main>
+  );
+}
+
+const TAILWIND_VARIANTS = tv({
+  slots: {
+    base: [
+      'min-h-screen',
+      'flex',
+      'flex-col',
+      'items-center',
+      'justify-center',
+      'gap-4',
+      'px-6',
+      'text-center',
+    ],
+    heading: [
+      'text-3xl',
+      'font-bold',
+    ],
+    message: [
+      'text-lg',
+      'text-gray-600',
+    ],
+    button: [
+      'px-6',
+      'py-3',
+      'rounded-lg',
+      'bg-gray-900',
+      'text-white',
+      'hover:bg-gray-700',
+      'focus:outline-none',
+      'focus:ring-2',
+      'focus:ring-blue-500',
+      'focus:ring-offset-1',
+    ],
+  },
+});
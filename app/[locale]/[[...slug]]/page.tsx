@@ -5,16 +5,22 @@ import React from 'react';
 
 // Local
 import { extractAndSetLanguage, isLanguageSupported } from '@/lib/contentstack/language';
-import { getPage, getSiteSettings } from '@/lib/contentstack/entries';
-import { stack } from '@/lib/contentstack/delivery-stack';
+import { getSiteSettings } from '@/lib/contentstack/entries';
+import { getResultData } from '@/lib/contentstack/fetch-result';
+import { setLivePreviewQuery } from '@/lib/contentstack/live-preview-query';
+import { resolvePage } from '@/lib/contentstack/page-data';
+import { getPageType } from '@/lib/contentstack/page-types';
+import { resolveEntryTerms } from '@/lib/contentstack/taxonomies';
+import { getLocalizedUrls } from '@/lib/contentstack/localized-urls';
+import { getCurrentSite } from '@/lib/contentstack/site';
+import { getExperimentControlUrl } from '@/lib/contentstack/experiments';
+import { ExperimentService } from '@/lib/services/experiment-service';
+import { SiteService } from '@/lib/services/site-service';
+import { createLogger } from '@/lib/logger/logger';
+import { initRequestContext } from '@/lib/logger/request-context';
 import { SharedPageLayout } from '@/app/SharedPageLayout';
-import { IPage } from '@/.generated';
-import { DEFAULT_LOCALE } from '@/constants/locales';
-import { Locales } from '@contentstack/management/types/stack/contentType/entry';
-import { getEntryLocales } from '@/lib/contentstack/management-stack';
 
-// Force dynamic rendering (SSR)
-export const dynamic = 'force-dynamic';
+const logger = createLogger('page');
 
 interface SlugPageProps {
   params: Promise<{
@@ -40,18 +46,13 @@ interface SlugPageProps {
 export default async function SlugPage(props: SlugPageProps) {
   //#region Live Preview Settings
   // Need to await for headers to be available for live preview
-  await headers();
+  // and to correlate the logs of this render with the request ID set by the middleware
+  initRequestContext(await headers());
   const { params, searchParams } = props;
 
-  const { live_preview, entry_uid, content_type_uid } = await searchParams;
-
-  if (live_preview) {
-    stack.livePreviewQuery({
-      live_preview,
-      contentTypeUid: content_type_uid || '',
-      entryUid: entry_uid || '',
-    });
-  }
+  // Preview deployments and requests in draft mode only: every fetcher of the request reads
+  // the edited draft from a stack of its own
+  await setLivePreviewQuery(await searchParams);
   //#endregion
 
   // Resolve params and construct URL path
@@ -69,53 +70,57 @@ export default async function SlugPage(props: SlugPageProps) {
 }
 
 export async function generateMetadata(props: SlugPageProps): Promise<Metadata> {
-  const { params } = props;
+  const { params, searchParams } = props;
   const resolvedParams = await params;
-  const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
+  initRequestContext(await headers());
+  await setLivePreviewQuery(await searchParams);
+  const site = await getCurrentSite();
 
   // Construct the same URL path as in the component
   const slugArray = resolvedParams.slug || [];
   const pathSegments = slugArray;
   const urlPath = `/${pathSegments?.join('/')}`;
 
-  if (!isLanguageSupported(resolvedParams?.locale)) {
+  if (
+    !isLanguageSupported(resolvedParams?.locale) ||
+    !SiteService.isLocaleSupported(site, resolvedParams?.locale)
+  ) {
     return {
       title: 'Page Title',
     }
   }
 
   try {
-    const page = await getPage<IPage>(urlPath, 'page', resolvedParams?.locale);
-    const siteSetting = await getSiteSettings();
+    const { page: pageResult, pageContentTypeUID } = await resolvePage(urlPath, resolvedParams?.locale);
+    const siteSetting = getResultData(await getSiteSettings());
     let languageUrls: Record<string, string> | undefined;
-    let localesList: Locales | undefined;
 
-    if (!page) {
+    // Missing pages and fetch errors get default metadata; the page itself renders the 404 or error boundary
+    if (pageResult.status !== 'found' || !pageContentTypeUID) {
       return {
         title: 'Page Title',
         description: 'Page Description',
       }
     }
 
-    if (page) {
-      localesList = await getEntryLocales(page.uid, 'page')
-    }
+    const page = pageResult.data;
 
-    if (localesList && localesList.locales.length > 0) {
-      languageUrls = localesList.locales.reduce((acc, locale) => {
-        // Skip non-localized locales and default locale
-        if (locale.code !== DEFAULT_LOCALE && !locale.localized) return acc;
+    // Variants of an experiment reached through their own URL are canonicalized to the control
+    // page, whose URL the experiment serves them at. A failed lookup keeps the page canonical.
+    const experimentControlUrl = ExperimentService.isEnabled()
+      ? await getExperimentControlUrl(page.uid).catch(() => undefined)
+      : undefined;
 
-        // Set default locale
-        if (locale.code === DEFAULT_LOCALE) {
-          acc[DEFAULT_LOCALE] = `${baseUrl}${urlPath}`;
-          return acc;
-        }
+    // Alternates point to the URL of the entry in each locale, which may be translated
+    const localizedUrls = experimentControlUrl
+      ? {}
+      : await getLocalizedUrls(page.uid, pageContentTypeUID, site.name);
 
-        acc[locale.code as string] = `${baseUrl}/${locale.code}${urlPath}`;
+    if (Object.keys(localizedUrls).length > 0) {
+      languageUrls = Object.entries(localizedUrls).reduce((acc, [locale, url]) => {
+        acc[locale] = SiteService.getAbsoluteUrl(site, locale, url);
         return acc;
       }, {} as Record<string, string>);
-
     }
 
     const metadata = {
@@ -138,9 +143,15 @@ export async function generateMetadata(props: SlugPageProps): Promise<Metadata>
     }
 
     const faviconUrl = siteSetting?.favicon_file?.url || '/favicon.ico';
-    const cannonicalUrl = resolvedParams?.locale === DEFAULT_LOCALE ? `${baseUrl}${urlPath}` : `${baseUrl}/${resolvedParams?.locale}${urlPath}`;
+    const cannonicalUrl = SiteService.getAbsoluteUrl(site, resolvedParams?.locale, experimentControlUrl || urlPath);
     const shouldIndex = process.env.NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT === 'production' ? metadata.robotsIndex : false;
     const shouldFollow = process.env.NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT === 'production' ? metadata.robotsFollow : false;
+    // Taxonomy term names extend the keywords entered by editors
+    const taxonomyTerms = await resolveEntryTerms(page);
+    const keywords = Array.from(new Set([
+      ...(metadata.MetaKeywords?.split(',') || []).map((keyword: string) => keyword.trim()).filter(Boolean),
+      ...taxonomyTerms.map(({ termName }) => termName),
+    ]));
     const customMetadata: Record<string, string> | undefined = page.seo?.custom_meta_tags?.reduce((acc, tag) => {
       if (tag.name && tag.content) {
         acc[tag.name] = tag.content;
@@ -148,10 +159,14 @@ export async function generateMetadata(props: SlugPageProps): Promise<Metadata>
       return acc;
     }, {} as Record<string, string>)
 
+    // Content type specific metadata (e.g. article details for blog posts)
+    const pageTypeMetadata = getPageType(pageContentTypeUID)?.buildMetadata?.(page) || {};
+
     return {
+      ...pageTypeMetadata,
       title: metadata.pageTitle,
       description: metadata.MetaDescription,
-      keywords: metadata.MetaKeywords,
+      keywords: keywords.length > 0 ? keywords : undefined,
       alternates: {
         canonical: cannonicalUrl,
         languages: languageUrls,
@@ -164,7 +179,8 @@ export async function generateMetadata(props: SlugPageProps): Promise<Metadata>
         url: cannonicalUrl,
         images: metadata.OpenGraphImage,
         siteName: metadata.OpenGraphSiteName,
-      },
+        ...pageTypeMetadata.openGraph,
+      } as Metadata['openGraph'],
       twitter: {
         title: metadata.TwitterTitle,
         description: metadata.TwitterDescription,
@@ -180,7 +196,7 @@ export async function generateMetadata(props: SlugPageProps): Promise<Metadata>
       other: customMetadata,
     };
   } catch (error) {
-    console.error('Error generating metadata:', error);
+    logger.error('Error generating metadata', { locale: resolvedParams?.locale, url: urlPath, error });
     return {
       title: 'Page Title',
     };
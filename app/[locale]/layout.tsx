@@ -2,6 +2,12 @@
 import { fetchGlobalLabels } from '@/utils/fetch-global-labels';
 import { Providers } from '@/providers';
 import { isLanguageSupported } from '@/lib/contentstack/language';
+import { getCurrentSite } from '@/lib/contentstack/site';
+import { SiteService } from '@/lib/services/site-service';
+import { SUGGESTED_LOCALE_HEADER } from '@/lib/services/language-service';
+import type { SupportedLocale } from '@/constants/locales';
+import { initRequestContext } from '@/lib/logger/request-context';
+import { headers } from 'next/headers';
 
 type Props = {
   children: React.ReactNode;
@@ -11,7 +17,27 @@ type Props = {
 export default async function LocaleLayout({ children, params }: Props) {
   // ✅ Fetch global labels with the correct locale
   const { locale } = await params;
-  const globalLabels = await fetchGlobalLabels(isLanguageSupported(locale) ? locale : '');
+  const requestHeaders = await headers();
+  initRequestContext(requestHeaders);
+  const [globalLabels, site] = await Promise.all([
+    fetchGlobalLabels(isLanguageSupported(locale) ? locale : ''),
+    getCurrentSite(),
+  ]);
 
-  return <Providers data={{ globalLabels: globalLabels ?? {} }}>{children}</Providers>;
+  // Locale negotiated by the middleware on a first visit with LOCALE_NEGOTIATION=suggest
+  const suggestedLocale = requestHeaders.get(SUGGESTED_LOCALE_HEADER);
+  const isSuggestionValid =
+    !!suggestedLocale && suggestedLocale !== locale && SiteService.isLocaleSupported(site, suggestedLocale);
+
+  return (
+    <Providers
+      data={{
+        globalLabels: globalLabels ?? {},
+        site: SiteService.toPublicSite(site),
+        suggestedLocale: isSuggestionValid ? (suggestedLocale as SupportedLocale) : null,
+      }}
+    >
+      {children}
+    </Providers>
+  );
 }
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getContentSourceHealth } from '@/lib/contentstack/content-source';
+import { resolvePage } from '@/lib/contentstack/page-data';
+import { withRequestContext } from '@/lib/logger/request-context';
+import { SiteService } from '@/lib/services/site-service';
+
+// Retry-After when the circuit does not tell when Contentstack is called again (calls failing
+// before the circuit opens, or a half-open circuit with a probe call in flight), in seconds
+const DEFAULT_RETRY_AFTER = 30;
+
+/**
+ * Returns the availability of the published content of a site (`site` parameter, defaults to
+ * the site serving the request host).
+ * Polled by the middleware, which answers 503 for the pages that cannot be rendered while
+ * Contentstack is unavailable.
+ *
+ * With `locale` and `path` (without locale prefix), also resolves the page at that URL, served
+ * from the data cache when Contentstack is unavailable: `found`, `not-found`, or `error` when it
+ * cannot be rendered, with `retryable` for the failures that may succeed later.
+ */
+export const GET = withRequestContext(async function GET(request: NextRequest) {
+  const site = SiteService.getSiteByApiRequest(request);
+  const { available, retryAt } = getContentSourceHealth(site);
+  const retryAfter = available
+    ? undefined
+    : retryAt && retryAt > Date.now()
+      ? Math.ceil((retryAt - Date.now()) / 1000)
+      : DEFAULT_RETRY_AFTER;
+
+  const { searchParams } = request.nextUrl;
+  const locale = searchParams.get('locale');
+  const path = searchParams.get('path');
+
+  if (!locale && !path) {
+    return NextResponse.json({ available, retryAfter }, { headers: { 'Cache-Control': 'no-store' } });
+  }
+
+  if (!locale || !SiteService.isLocaleSupported(site, locale) || !path?.startsWith('/')) {
+    return NextResponse.json(
+      { message: 'locale must be a locale of the site and path must start with /' },
+      { status: 400 }
+    );
+  }
+
+  const { page } = await resolvePage(path, locale, undefined, site.name);
+
+  return NextResponse.json(
+    {
+      available,
+      retryAfter,
+      page: page.status,
+      retryable: page.status === 'error' ? page.error.retryable : undefined,
+    },
+    { headers: { 'Cache-Control': 'no-store' } }
+  );
+});
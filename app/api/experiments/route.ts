@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getExperiments } from '@/lib/contentstack/experiments';
+import { createLogger } from '@/lib/logger/logger';
+import { withRequestContext } from '@/lib/logger/request-context';
+import { SiteService } from '@/lib/services/site-service';
+
+const logger = createLogger('api/experiments');
+
+/**
+ * Returns the running experiments of a site (`site` parameter, defaults to the site serving the
+ * request host).
+ * Polled by the middleware (ENABLE_EXPERIMENTS=true).
+ *
+ * Answers 502 when the experiments cannot be fetched, so the middleware keeps the last ones
+ * rather than moving visitors between variants during a CMS outage.
+ */
+export const GET = withRequestContext(async function GET(request: NextRequest) {
+  const site = SiteService.getSiteByApiRequest(request);
+
+  try {
+    return NextResponse.json(await getExperiments(site.name), {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('Failed to fetch experiments', { site: site.name, error });
+
+    return NextResponse.json(
+      { message: error instanceof Error ? error.message : 'Failed to fetch experiments' },
+      { status: 502 }
+    );
+  }
+});
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getSiteSettings } from '@/lib/contentstack/entries';
+import { getResultData } from '@/lib/contentstack/fetch-result';
+import { createLogger } from '@/lib/logger/logger';
+import { withRequestContext } from '@/lib/logger/request-context';
+import { MaintenanceService } from '@/lib/services/maintenance-service';
+import { SiteService } from '@/lib/services/site-service';
+
+const logger = createLogger('api/maintenance');
+
+/**
+ * Returns the maintenance mode of a site (`site` parameter, defaults to the site serving the
+ * request host), from its site settings.
+ * Polled by the middleware (ENABLE_MAINTENANCE_MODE=true).
+ *
+ * Answers 502 when the site settings cannot be fetched, so the middleware keeps the last
+ * maintenance mode rather than taking the site up or down during a CMS outage.
+ */
+export const GET = withRequestContext(async function GET(request: NextRequest) {
+  const site = SiteService.getSiteByApiRequest(request);
+  const result = await getSiteSettings('site_settings', site.name);
+
+  if (result.status === 'error') {
+    logger.error('Failed to fetch maintenance mode', { site: site.name, error: result.error });
+
+    return NextResponse.json({ message: result.error.message }, { status: 502 });
+  }
+
+  return NextResponse.json(MaintenanceService.fromSettings(getResultData(result)?.maintenance_mode), {
+    headers: { 'Cache-Control': 'no-store' },
+  });
+});
@@ -0,0 +1,34 @@
+import { draftMode } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPreviewRedirectPath,
+  isValidPreviewSecret,
+  PREVIEW_SECRET_PARAM,
+} from '@/lib/contentstack/preview-mode';
+import { createLogger } from '@/lib/logger/logger';
+import { withRequestContext } from '@/lib/logger/request-context';
+
+const logger = createLogger('api/preview');
+
+/**
+ * Enables Next.js draft mode for the browser, then redirects to the page to preview.
+ * Requests in draft mode read drafts with the preview token, bypass the cache and get the
+ * live preview editable tags (see lib/contentstack/preview-mode.ts).
+ *
+ * Open `/api/preview/enter?secret=<CONTENTSTACK_PREVIEW_SECRET>&redirect=/page/path`.
+ * Other query parameters, such as the live preview hash, are passed on to the page.
+ */
+export const GET = withRequestContext(async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+
+  if (!isValidPreviewSecret(searchParams.get(PREVIEW_SECRET_PARAM))) {
+    logger.warn('Draft mode request rejected: invalid secret');
+    return NextResponse.json({ enabled: false, message: 'Invalid secret' }, { status: 401 });
+  }
+
+  (await draftMode()).enable();
+  logger.info('Draft mode enabled');
+
+  redirect(getPreviewRedirectPath(searchParams));
+});
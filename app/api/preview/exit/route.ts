@@ -0,0 +1,21 @@
+import { draftMode } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { NextRequest } from 'next/server';
+import { getPreviewRedirectPath } from '@/lib/contentstack/preview-mode';
+import { createLogger } from '@/lib/logger/logger';
+import { withRequestContext } from '@/lib/logger/request-context';
+
+const logger = createLogger('api/preview');
+
+/**
+ * Disables Next.js draft mode for the browser, then redirects to the published page.
+ * Leaving draft mode only removes access, so no secret is required.
+ *
+ * Open `/api/preview/exit?redirect=/page/path`.
+ */
+export const GET = withRequestContext(async function GET(request: NextRequest) {
+  (await draftMode()).disable();
+  logger.info('Draft mode disabled');
+
+  redirect(getPreviewRedirectPath(request.nextUrl.searchParams));
+});
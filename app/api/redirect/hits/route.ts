@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/logger/logger';
+import { withRequestContext } from '@/lib/logger/request-context';
+import {
+  getRedirectHitSink,
+  isValidRedirectAnalyticsSecret,
+} from '@/lib/redirects/redirect-hit-sink';
+import { REDIRECT_ANALYTICS_SECRET_HEADER, type RedirectHit } from '@/lib/redirects/redirect-hits';
+import { buildRedirectReport } from '@/lib/redirects/redirect-report';
+import { fetchRedirectRules } from '@/lib/redirects/redirect-rules';
+import { SiteService } from '@/lib/services/site-service';
+
+const logger = createLogger('api/redirect/hits');
+
+// Hits accepted per request, above the batches of the edge function and middleware
+const MAX_HITS_PER_REQUEST = 500;
+
+/**
+ * Checks the shape of a posted hit
+ */
+function isRedirectHit(hit: unknown): hit is RedirectHit {
+  const { ruleKey, ruleSource, path, status, at } = (hit || {}) as Partial<RedirectHit>;
+
+  return (
+    typeof ruleKey === 'string' &&
+    typeof ruleSource === 'string' &&
+    typeof path === 'string' &&
+    typeof status === 'number' &&
+    typeof at === 'string' &&
+    !Number.isNaN(Date.parse(at))
+  );
+}
+
+/**
+ * Records the redirect hits batched by the edge function and the middleware, for the site named
+ * by the `site` parameter of their internal URL.
+ *
+ * Requests must send the header `x-redirect-analytics-secret` matching
+ * REDIRECT_ANALYTICS_SECRET, with a `{ hits: RedirectHit[] }` body.
+ */
+export const POST = withRequestContext(async function POST(request: NextRequest) {
+  if (!isValidRedirectAnalyticsSecret(request.headers.get(REDIRECT_ANALYTICS_SECRET_HEADER))) {
+    return NextResponse.json({ recorded: 0, message: 'Invalid secret' }, { status: 401 });
+  }
+
+  const body = await request.json().catch(() => undefined);
+  const hits: unknown[] = Array.isArray(body?.hits) ? body.hits : [];
+
+  if (hits.length > MAX_HITS_PER_REQUEST) {
+    return NextResponse.json(
+      { recorded: 0, message: `At most ${MAX_HITS_PER_REQUEST} hits per request` },
+      { status: 413 }
+    );
+  }
+
+  const site = SiteService.getSiteByApiRequest(request);
+  const validHits = hits.filter(isRedirectHit);
+
+  try {
+    if (validHits.length > 0) {
+      await getRedirectHitSink().recordRedirectHits(site.name, validHits);
+    }
+
+    return NextResponse.json({ recorded: validHits.length, skipped: hits.length - validHits.length });
+  } catch (error) {
+    logger.error('Failed to record redirect hits', { site: site.name, hits: validHits.length, error });
+
+    return NextResponse.json({ recorded: 0, message: 'Failed to record hits' }, { status: 500 });
+  }
+});
+
+/**
+ * Reports the hot rules, the rules without hit for `stale_days` days (default 90) and the
+ * 404 URLs without redirect of the site (the `site` parameter, or the site of the host), at most
+ * `limit` (default 50) of each.
+ *
+ * Requests must send the header `x-redirect-analytics-secret` matching
+ * REDIRECT_ANALYTICS_SECRET.
+ */
+export const GET = withRequestContext(async function GET(request: NextRequest) {
+  if (!isValidRedirectAnalyticsSecret(request.headers.get(REDIRECT_ANALYTICS_SECRET_HEADER))) {
+    return NextResponse.json({ message: 'Invalid secret' }, { status: 401 });
+  }
+
+  const { searchParams } = request.nextUrl;
+  const staleDays = Number(searchParams.get('stale_days') || 90);
+  const limit = Number(searchParams.get('limit') || 50);
+
+  if (!Number.isInteger(staleDays) || staleDays < 1 || !Number.isInteger(limit) || limit < 1) {
+    return NextResponse.json(
+      { message: 'stale_days and limit must be positive integers' },
+      { status: 400 }
+    );
+  }
+
+  const site = SiteService.getSiteByApiRequest(request);
+
+  try {
+    const [rules, stats] = await Promise.all([
+      fetchRedirectRules(site.name),
+      getRedirectHitSink().readStats(site.name),
+    ]);
+
+    return NextResponse.json(buildRedirectReport(rules, stats, { site, staleDays, limit }), {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    logger.error('Failed to build redirect report', { site: site.name, error });
+
+    return NextResponse.json({ message: 'Failed to build report' }, { status: 502 });
+  }
+});
@@ -1,35 +1,38 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
-import { NextResponse } from 'next/server';
-import { getEntries } from '@/lib/contentstack/entries';
-import { IRedirectMappings } from '@/.generated';
+import { NextRequest, NextResponse } from 'next/server';
+import { createLogger } from '@/lib/logger/logger';
+import { withRequestContext } from '@/lib/logger/request-context';
+import { createRedirectMatcher, type RedirectRule } from '@/lib/redirects/redirect-matcher';
+import { REDIRECT_MAPPINGS_CONTENT_TYPE } from '@/lib/redirects/redirect-mappings';
+import { fetchRedirectRules } from '@/lib/redirects/redirect-rules';
+import { SiteService } from '@/lib/services/site-service';
 
-interface RedirectRule {
-  source: string;
-  destination: string;
-  permanent: boolean;
-  status: number;
-}
-
-// In-memory cache
+// In-memory cache, by site name: each site has its own rules
 // Note: This is a secondary cache. The primary cache is in the edge function.
 // This cache helps when multiple requests hit the API route simultaneously
 // or when the API route is called directly (bypassing edge function).
-let cachedRedirects: RedirectRule[] | null = null;
-let cacheTimestamp = 0;
+const cachedRedirects = new Map<string, { rules: RedirectRule[]; timestamp: number }>();
 const CACHE_DURATION = 10 * 60 * 1000; // 10 minutes (shorter than edge cache for better freshness)
 
-export async function GET() {
+const logger = createLogger('api/redirect');
+
+
+export const GET = withRequestContext(async function GET(request: NextRequest) {
+  // Rules of the site named by the middleware and edge function, or serving the request host
+  const site = SiteService.getSiteByApiRequest(request);
+  const cached = cachedRedirects.get(site.name);
+
   try {
     const now = Date.now();
 
     // Check if we have valid cached data
-    if (cachedRedirects && now - cacheTimestamp < CACHE_DURATION) {
-      return NextResponse.json(cachedRedirects, {
+    if (cached && now - cached.timestamp < CACHE_DURATION) {
+      return NextResponse.json(cached.rules, {
         status: 200,
         headers: {
           'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
           'X-Cached': 'true',
-          'X-Cached-At': new Date(cacheTimestamp).toISOString(),
+          'X-Cached-At': new Date(cached.timestamp).toISOString(),
           'X-Checked-At': new Date().toISOString(),
           'Access-Control-Allow-Origin': '*',
           'Access-Control-Allow-Methods': 'GET, OPTIONS',
@@ -38,24 +41,22 @@ export async function GET() {
       });
     }
 
-    // Fetch redirects from Contentstack
-    const mappingEntries = await getEntries<IRedirectMappings>({
-      contentTypeUid: 'redirect_mappings',
-    });
+    // Fetch redirects from Contentstack. Errors serve the stale cache below rather than
+    // caching an empty list during an outage
+    const rewrites = await fetchRedirectRules(site.name);
 
-    const rewrites =
-      mappingEntries?.entries?.[0]?.mappings
-        ?.filter((mapping: any) => mapping.status === 'Active')
-        .map((mapping: any) => ({
-          source: mapping.source,
-          destination: mapping.destination,
-          permanent: true,
-          status: 301,
-        })) || [];
+    // Invalid patterns are skipped by the matchers; report them so editors can fix them
+    const { invalidRules } = createRedirectMatcher(rewrites);
+    if (invalidRules.length > 0) {
+      logger.warn('Invalid redirect rules skipped', {
+        site: site.name,
+        contentType: REDIRECT_MAPPINGS_CONTENT_TYPE,
+        sources: invalidRules.map((rule) => rule.source),
+      });
+    }
 
     // Update cache
-    cachedRedirects = rewrites;
-    cacheTimestamp = now;
+    cachedRedirects.set(site.name, { rules: rewrites, timestamp: now });
 
     // Always return 200 with an array, even if empty
     return NextResponse.json(rewrites, {
@@ -63,7 +64,7 @@ export async function GET() {
       headers: {
         'Cache-Control': 'public, s-maxage=3600, stale-while-revalidate=86400',
         'X-Cached': 'false',
-        'X-Cached-At': new Date(cacheTimestamp).toISOString(),
+        'X-Cached-At': new Date(now).toISOString(),
         'X-Checked-At': new Date().toISOString(),
         'Access-Control-Allow-Origin': '*',
         'Access-Control-Allow-Methods': 'GET, OPTIONS',
@@ -71,13 +72,17 @@ export async function GET() {
       },
     });
   } catch (err) {
-    console.error('[API] ❌ Rewrite API error:', err);
+    logger.error('Rewrite API error', {
+      site: site.name,
+      contentType: REDIRECT_MAPPINGS_CONTENT_TYPE,
+      staleEntries: cached?.rules.length ?? 0,
+      error: err,
+    });
     const errorMessage = err instanceof Error ? err.message : 'Unknown error';
-    console.error('[API] ❌ Error stack:', err instanceof Error ? err.stack : 'No stack trace');
 
     // If we have stale cache, return it during errors
-    if (cachedRedirects && cachedRedirects.length > 0) {
-      return NextResponse.json(cachedRedirects, {
+    if (cached && cached.rules.length > 0) {
+      return NextResponse.json(cached.rules, {
         status: 200,
         headers: {
           'Cache-Control': 'public, s-maxage=60',
@@ -99,7 +104,7 @@ export async function GET() {
       },
     });
   }
-}
+});
 
 export async function OPTIONS() {
   return new NextResponse(null, {
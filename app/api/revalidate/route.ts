@@ -0,0 +1,47 @@
+import { revalidateTag } from 'next/cache';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ContentstackWebhookPayload,
+  getTagsForPayload,
+  isValidWebhookSecret,
+  WEBHOOK_SECRET_HEADER,
+} from '@/lib/contentstack/webhook';
+
+/**
+ * Receives Contentstack publish/unpublish webhooks and revalidates the cache tags
+ * of the affected entries, so cached pages are refreshed only when their content changes.
+ *
+ * Configure the webhook in Contentstack with a custom header
+ * `x-revalidate-secret` matching the CONTENTSTACK_WEBHOOK_SECRET environment variable.
+ */
+export async function POST(request: NextRequest) {
+  if (!isValidWebhookSecret(request.headers.get(WEBHOOK_SECRET_HEADER))) {
+    return NextResponse.json({ revalidated: false, message: 'Invalid secret' }, { status: 401 });
+  }
+
+  let payload: ContentstackWebhookPayload;
+
+  try {
+    payload = await request.json();
+  } catch (_error) {
+    return NextResponse.json({ revalidated: false, message: 'Invalid payload' }, { status: 400 });
+  }
+
+  const tags = getTagsForPayload(payload);
+
+  if (tags.length === 0) {
+    return NextResponse.json(
+      { revalidated: false, message: 'No cache tags match the webhook payload' },
+      { status: 422 }
+    );
+  }
+
+  tags.forEach((tag) => revalidateTag(tag));
+
+  return NextResponse.json({
+    revalidated: true,
+    event: payload.event,
+    tags,
+    now: Date.now(),
+  });
+}
@@ -0,0 +1,104 @@
+import { revalidateTag } from 'next/cache';
+import { NextRequest, NextResponse } from 'next/server';
+import { SITES } from '@/constants/sites';
+import { cacheTags } from '@/lib/contentstack/cache-tags';
+import { syncContent, type SyncResult } from '@/lib/contentstack/sync';
+import type { SyncChange } from '@/lib/contentstack/sync-store';
+import {
+  getTagsForPayload,
+  isValidWebhookSecret,
+  WEBHOOK_SECRET_HEADER,
+} from '@/lib/contentstack/webhook';
+import { createLogger } from '@/lib/logger/logger';
+import { withRequestContext } from '@/lib/logger/request-context';
+import { SiteService } from '@/lib/services/site-service';
+
+const logger = createLogger('api/sync');
+
+/**
+ * Maps a synced change to the cache tags of the data it affects
+ */
+function getTagsForChange(change: SyncChange): Array<string> {
+  if (change.type === 'content_type_deleted') {
+    return change.contentTypeUid
+      ? [cacheTags.list(change.contentTypeUid), cacheTags.contentType(change.contentTypeUid)]
+      : [];
+  }
+
+  if (change.type.startsWith('asset')) {
+    return getTagsForPayload({ module: 'asset', data: { asset: { uid: change.uid } } });
+  }
+
+  return getTagsForPayload({
+    module: 'entry',
+    data: {
+      content_type: { uid: change.contentTypeUid },
+      entry: { uid: change.uid, url: change.url, locale: change.locale },
+    },
+  });
+}
+
+/**
+ * Maps a sync result to the cache tags to revalidate.
+ * An initial sync replaces the whole store, so every cached response is revalidated.
+ */
+function getTagsForResult(result: SyncResult): Array<string> {
+  if (result.mode === 'initial') return [cacheTags.all()];
+
+  return Array.from(new Set(result.changes.flatMap(getTagsForChange)));
+}
+
+/**
+ * Starts a delta sync of the local mirror used by CONTENTSTACK_CONTENT_SOURCE=sync, then
+ * revalidates the cache tags of the synced changes.
+ *
+ * Configure a Contentstack webhook on publish/unpublish events with the custom header
+ * `x-revalidate-secret` matching CONTENTSTACK_WEBHOOK_SECRET.
+ * Query parameters:
+ * - `site`: sync one site only (defaults to every site)
+ * - `full=true`: rebuild the store with an initial sync
+ */
+export const POST = withRequestContext(async function POST(request: NextRequest) {
+  if (!isValidWebhookSecret(request.headers.get(WEBHOOK_SECRET_HEADER))) {
+    return NextResponse.json({ synced: false, message: 'Invalid secret' }, { status: 401 });
+  }
+
+  const siteName = request.nextUrl.searchParams.get('site');
+  const full = request.nextUrl.searchParams.get('full') === 'true';
+  const site = siteName ? SiteService.getSiteByName(siteName) : undefined;
+
+  if (siteName && !site) {
+    return NextResponse.json(
+      { synced: false, message: `Unknown site "${siteName}"` },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const results = await Promise.all(
+      (site ? [site] : SITES).map((siteToSync) => syncContent(siteToSync, { full }))
+    );
+    const tags = Array.from(new Set(results.flatMap(getTagsForResult)));
+
+    tags.forEach((tag) => revalidateTag(tag));
+
+    return NextResponse.json({
+      synced: true,
+      sites: results.map(({ site: name, mode, changes, syncedAt }) => ({
+        site: name,
+        mode,
+        changes: changes.length,
+        syncedAt,
+      })),
+      tags,
+      now: Date.now(),
+    });
+  } catch (error) {
+    logger.error('Sync failed', { site: siteName || undefined, error });
+
+    return NextResponse.json(
+      { synced: false, message: error instanceof Error ? error.message : 'Sync failed' },
+      { status: 502 }
+    );
+  }
+});
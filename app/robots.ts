@@ -1,13 +1,19 @@
 import { getSiteSettings } from '@/lib/contentstack/entries';
+import { getResultData } from '@/lib/contentstack/fetch-result';
+import { getCurrentSite } from '@/lib/contentstack/site';
+import { createLogger } from '@/lib/logger/logger';
+import { withRequestContext } from '@/lib/logger/request-context';
 import { MetadataRoute } from 'next';
 
+const logger = createLogger('robots');
+
 /**
- * Generates robots.txt file for the site
+ * Generates robots.txt file for the site serving the request host
  * @returns Robots configuration with rules and sitemap URL
  */
-export default async function robots(): Promise<MetadataRoute.Robots> {
-    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000';
-    const sitemapUrl = `${baseUrl}/sitemap.xml`;
+export default withRequestContext(async function robots(): Promise<MetadataRoute.Robots> {
+    const site = await getCurrentSite();
+    const sitemapUrl = `${site.baseUrl}/sitemap.xml`;
 
     // Default fallback robots if CMS fails or no settings found
     const defaultRobots: MetadataRoute.Robots = {
@@ -22,10 +28,10 @@ export default async function robots(): Promise<MetadataRoute.Robots> {
     };
 
     try {
-        const siteSettings = await getSiteSettings();
+        const siteSettings = getResultData(await getSiteSettings('site_settings', site.name));
 
         if (!siteSettings || !siteSettings.robots_file_setting) {
-            console.warn('[Robots] No site settings or robots_file_setting found, using default robots');
+            logger.warn('No site settings or robots_file_setting found, using default robots', { site: site.name });
             return defaultRobots;
         }
 
@@ -35,7 +41,7 @@ export default async function robots(): Promise<MetadataRoute.Robots> {
         for (const rule of siteSettings.robots_file_setting) {
             // Validate and skip invalid rules
             if (!rule || !rule.user_agent) {
-                console.warn('[Robots] Skipping invalid rule:', rule);
+                logger.warn('Skipping invalid rule', { site: site.name, rule });
                 continue;
             }
 
@@ -66,7 +72,7 @@ export default async function robots(): Promise<MetadataRoute.Robots> {
 
         // If no valid rules were found, use default
         if (rules.length === 0) {
-            console.warn('[Robots] No valid rules found in site settings, using default robots');
+            logger.warn('No valid rules found in site settings, using default robots', { site: site.name });
             return defaultRobots;
         }
 
@@ -75,7 +81,7 @@ export default async function robots(): Promise<MetadataRoute.Robots> {
             sitemap: sitemapUrl,
         };
     } catch (error) {
-        console.error('[Robots] Error generating robots.txt:', error instanceof Error ? error.message : error);
+        logger.error('Error generating robots.txt', { site: site.name, error });
         return defaultRobots;
     }
-}
\ No newline at end of file
+});
\ No newline at end of file
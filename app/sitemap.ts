@@ -1,10 +1,16 @@
-import { IPage } from "@/.generated";
-import { DEFAULT_LOCALE } from "@/constants/locales";
 import { getEntries } from "@/lib/contentstack/entries";
-import { getCurrentLanguage } from "@/lib/contentstack/language";
-import { getEntryLocales } from "@/lib/contentstack/management-stack";
+import { getResultData } from "@/lib/contentstack/fetch-result";
+import { listLocalizedUrls, LocalizedUrls } from "@/lib/contentstack/localized-urls";
+import { RoutablePage } from "@/lib/contentstack/page-data";
+import { PAGE_TYPES } from "@/lib/contentstack/page-types";
+import { getCurrentSite } from "@/lib/contentstack/site";
+import { createLogger } from "@/lib/logger/logger";
+import { withRequestContext } from "@/lib/logger/request-context";
+import { SiteService } from "@/lib/services/site-service";
 import { MetadataRoute } from "next";
 
+const logger = createLogger("sitemap");
+
 // Revalidate sitemap every hour
 export const revalidate = 3600;
 
@@ -29,85 +35,91 @@ function validateChangeFrequency(frequency: string | undefined): MetadataRoute.S
         : 'daily';
 }
 
-export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
+export default withRequestContext(async function sitemap(): Promise<MetadataRoute.Sitemap> {
     const sitemapArray: MetadataRoute.Sitemap = [];
-    const baseUrl = process.env.NEXT_PUBLIC_BASE_URL;
+
+    // Sitemap of the site serving the request host, listed in its default locale
+    const site = await getCurrentSite();
 
     // Validate base URL is configured
-    if (!baseUrl) {
-        console.error('[Sitemap] NEXT_PUBLIC_BASE_URL is not configured');
+    if (!site.baseUrl) {
+        logger.error('Base URL is not configured', { site: site.name });
         return [];
     }
 
-    const currentLocale = getCurrentLanguage();
+    const currentLocale = site.defaultLocale;
 
     try {
-        // Fetch all pages for current locale
-        const allPages = await getEntries<IPage>({
-            contentTypeUid: 'page',
-            locale: currentLocale
-        });
-
-        if (!allPages?.entries || allPages.entries.length === 0) {
-            console.warn('[Sitemap] No pages found for locale:', currentLocale);
+        // Fetch all pages of every routable content type listed in the sitemap
+        const sitemapPageTypes = PAGE_TYPES.filter(pageType => pageType.includeInSitemap);
+        const pageTypeEntries = await Promise.all(
+            sitemapPageTypes.map(async ({ contentTypeUid }) => {
+                const result = await getEntries<RoutablePage>({
+                    contentTypeUid,
+                    locale: currentLocale,
+                    siteName: site.name
+                });
+
+                // Fail the whole sitemap rather than publishing one with pages missing
+                if (result.status === 'error') throw result.error;
+
+                return (getResultData(result)?.entries || []).map(page => ({ page, contentTypeUid }));
+            })
+        );
+        const allPages = pageTypeEntries.flat();
+
+        if (allPages.length === 0) {
+            logger.warn('No pages found', { site: site.name, locale: currentLocale });
             return [];
         }
 
-        // Batch fetch all entry locales for better performance
-        const localePromises = allPages.entries.map(page =>
-            getEntryLocales(page.uid, 'page').catch(error => {
-                console.error(`[Sitemap] Failed to fetch locales for page ${page.uid}:`, error);
-                return null;
+        // URLs of the pages in each locale, which may be translated: each page type is listed
+        // once per locale rather than fetching every page in every locale
+        const localizedUrlsByType = new Map(await Promise.all(
+            sitemapPageTypes.map(async ({ contentTypeUid }) => {
+                const urlsByUid = await listLocalizedUrls(contentTypeUid, site.name).catch(error => {
+                    logger.error('Failed to list localized URLs', { contentType: contentTypeUid, error });
+                    return new Map<string, LocalizedUrls>();
+                });
+
+                return [contentTypeUid, urlsByUid] as const;
             })
-        );
-        const allPageLocales = await Promise.all(localePromises);
+        ));
 
         // Build sitemap entries
-        for (let i = 0; i < allPages.entries.length; i++) {
-            const page = allPages.entries[i];
-            const pageLocales = allPageLocales[i];
+        for (let i = 0; i < allPages.length; i++) {
+            const { page, contentTypeUid } = allPages[i];
+            const localizedUrls = localizedUrlsByType.get(contentTypeUid)?.get(page.uid) || {};
 
             // Skip pages without URL
             if (!page.url) {
-                console.warn(`[Sitemap] Skipping page ${page.uid} - missing URL`);
+                logger.warn('Skipping page without URL', { entryUid: page.uid });
                 continue;
             }
 
             // Build page URL based on locale
-            const pageUrl = currentLocale === DEFAULT_LOCALE
-                ? `${baseUrl}${page.url}`
-                : `${baseUrl}/${currentLocale}${page.url}`;
+            const pageUrl = SiteService.getAbsoluteUrl(site, currentLocale, page.url);
 
             // Initialize page sitemap object with validated values
             const pageSitemapObject: MetadataRoute.Sitemap[number] = {
                 url: pageUrl,
                 lastModified: page.updated_at ? new Date(page.updated_at) : new Date(),
-                changeFrequency: validateChangeFrequency(page.page_sitemap_setting?.change_frequency),
-                priority: validatePriority(page.page_sitemap_setting?.priority),
+                changeFrequency: validateChangeFrequency(page.sitemap_setting?.change_frequency),
+                priority: validatePriority(page.sitemap_setting?.priority),
             };
 
-            // Build language alternates if locales exist
-            if (pageLocales?.locales && pageLocales.locales.length > 0) {
-                const languageUrls: Record<string, string> = {};
-
-                for (const locale of pageLocales.locales) {
-                    // Skip non-localized locales (except default)
-                    if (locale.code !== DEFAULT_LOCALE && !locale.localized) continue;
+            // Build language alternates from the URL of the page in each locale
+            const languageUrls: Record<string, string> = {};
 
-                    // Build URL for this locale
-                    const localeUrl = locale.code === DEFAULT_LOCALE
-                        ? `${baseUrl}${page.url}`
-                        : `${baseUrl}/${locale.code}${page.url}`;
-
-                    languageUrls[locale.code as string] = localeUrl;
-                }
+            for (const [locale, url] of Object.entries(localizedUrls)) {
+                languageUrls[locale] = SiteService.getAbsoluteUrl(site, locale, url);
+            }
 
-                // Only add alternates if we have language URLs
-                if (Object.keys(languageUrls).length > 0) {
-                    pageSitemapObject.alternates = {
-                        languages: languageUrls
-                    };
-                }
+            // Only add alternates if we have language URLs
+            if (Object.keys(languageUrls).length > 0) {
+                pageSitemapObject.alternates = {
+                    languages: languageUrls
+                };
             }
 
             sitemapArray.push(pageSitemapObject);
@@ -116,8 +128,8 @@ export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
         return sitemapArray;
 
     } catch (error) {
-        console.error('[Sitemap] Error generating sitemap:', error);
+        logger.error('Error generating sitemap', { site: site.name, locale: currentLocale, error });
         // Return empty array on error to prevent sitemap from breaking
         return [];
     }
-}
\ No newline at end of file
+});
\ No newline at end of file
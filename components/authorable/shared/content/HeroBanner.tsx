@@ -1,5 +1,6 @@
 import { IHeroBannerModularBlock } from "@/.generated";
 import { Container } from "@/components/primitives/Container";
+import { ENHANCED_CTA_FIELDS, ENHANCED_IMAGE_FIELDS } from "@/lib/contentstack/graphql-fragments";
 import { ButtonWrapper } from "@/helpers/Wrappers/ButtonWrapper/ButtonWrapper";
 import { getCSLPAttributes } from "@/utils/type-guards";
 import { tv } from "tailwind-variants";
@@ -26,6 +27,14 @@ export const HeroBanner = (props: IHeroBannerModularBlock) => {
     )
 }
 
+// GraphQL selection of the hero_banner block (CONTENTSTACK_DELIVERY_API=graphql)
+HeroBanner.fragment = `
+    banner_heading
+    banner_description
+    banner_image { ${ENHANCED_IMAGE_FIELDS} }
+    banner_cta { ${ENHANCED_CTA_FIELDS} }
+`;
+
 const TAILWIND_VARIANTS = tv({
     slots: {
         base: [
@@ -1,4 +1,5 @@
 import { IComponents } from "@/.generated";
+import { ENHANCED_CTA_FIELDS, ENHANCED_IMAGE_FIELDS } from "@/lib/contentstack/graphql-fragments";
 import { ButtonWrapper } from "@/helpers/Wrappers/ButtonWrapper/ButtonWrapper";
 import ImageWrapper from "@/helpers/Wrappers/ImageWrapper/ImageWrapper";
 import { getCSLPAttributes } from "@/utils/type-guards";
@@ -39,6 +40,14 @@ export const Section = (props: IComponents['section']) => {
   )
 }
 
+// GraphQL selection of the section block (CONTENTSTACK_DELIVERY_API=graphql)
+Section.fragment = `
+  title
+  description
+  test_image { ${ENHANCED_IMAGE_FIELDS} }
+  test_cta { ${ENHANCED_CTA_FIELDS} }
+`;
+
 const TAILWIND_VARIANTS = tv({
   slots: {
     base: [
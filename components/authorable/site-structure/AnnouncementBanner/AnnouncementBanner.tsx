@@ -0,0 +1,148 @@
+'use client';
+
+// Global
+import { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { tv } from 'tailwind-variants';
+
+// Local
+import { useGlobalLabels } from '@/context/GlobalLabelContext';
+import type { AnnouncementBanner as AnnouncementBannerProps } from '@/lib/contentstack/announcement-banner';
+
+const DISMISSED_STORAGE_KEY = 'announcement-banner-dismissed';
+
+/**
+ * AnnouncementBanner Component
+ * Site-wide announcement of the site settings, rendered above the header.
+ * A dismissed banner stays hidden until its message changes.
+ */
+export const AnnouncementBanner = ({ message, link, variant, dismissible }: AnnouncementBannerProps) => {
+  // ============================================================================
+  // Hooks & State
+  // ============================================================================
+
+  const { globalLabels } = useGlobalLabels();
+  const [dismissed, setDismissed] = useState(false);
+
+  // ============================================================================
+  // Computed Values
+  // ============================================================================
+
+  const dismissLabel = globalLabels.announcement_banner_dismiss_label || 'Dismiss';
+
+  // ============================================================================
+  // Effects
+  // ============================================================================
+
+  /**
+   * Hide the banner if the visitor dismissed this message.
+   * Runs in the browser only: localStorage is not available on the server.
+   */
+  useEffect(() => {
+    if (!dismissible) return;
+
+    try {
+      setDismissed(localStorage.getItem(DISMISSED_STORAGE_KEY) === message);
+    } catch {
+      // Storage blocked: keep showing
+    }
+  }, [dismissible, message]);
+
+  // ============================================================================
+  // Event Handlers
+  // ============================================================================
+
+  const handleDismiss = useCallback(() => {
+    try {
+      localStorage.setItem(DISMISSED_STORAGE_KEY, message);
+    } catch {
+      // Storage blocked: only hide for this page view
+    }
+    setDismissed(true);
+  }, [message]);
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  if (dismissed) return null;
+
+  const styles = TAILWIND_VARIANTS({ variant });
+
+  return (
+    <div
+      className={styles.base()}
+      role={variant === 'critical' ? 'alert' : 'status'}
+      data-component="authorable/shared/site-structure/announcementbanner"
+    >
+      <p className={styles.message()}>
+        {message}
+        {link && (
+          <>
+            {' '}
+            <Link href={link.href} className={styles.link()}>
+              {link.title}
+            </Link>
+          </>
+        )}
+      </p>
+      {dismissible && (
+        <button type="button" className={styles.dismissButton()} onClick={handleDismiss}>
+          {dismissLabel}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// Styles
+// ============================================================================
+
+const TAILWIND_VARIANTS = tv({
+  slots: {
+    base: [
+      'flex',
+      'gap-3',
+      'items-center',
+      'justify-between',
+      'w-full',
+      'px-4',
+      'py-2.5',
+      'text-sm',
+      'border-b',
+    ],
+    message: [
+      'flex-1',
+    ],
+    link: [
+      'font-semibold',
+      'underline',
+      'hover:no-underline',
+    ],
+    dismissButton: [
+      'px-4',
+      'py-1.5',
+      'rounded-lg',
+      'hover:bg-black/5',
+      'focus:outline-none',
+      'focus:ring-2',
+      'focus:ring-blue-500',
+      'focus:ring-offset-1',
+    ],
+  },
+  variants: {
+    variant: {
+      info: {
+        base: ['text-blue-900', 'bg-blue-50', 'border-blue-200'],
+      },
+      warning: {
+        base: ['text-amber-900', 'bg-amber-50', 'border-amber-200'],
+      },
+      critical: {
+        base: ['text-white', 'bg-red-700', 'border-red-800'],
+        dismissButton: ['hover:bg-white/10'],
+      },
+    },
+  },
+});
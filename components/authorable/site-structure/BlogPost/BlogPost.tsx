@@ -0,0 +1,89 @@
+'use client';
+
+import { IBlogPost } from "@/.generated";
+import ImageWrapper from "@/helpers/Wrappers/ImageWrapper/ImageWrapper";
+import RichTextWrapper from "@/helpers/Wrappers/RichTextWrapper/RichTextWrapper";
+import { getCSLPAttributes } from "@/utils/type-guards";
+import { useParams } from "next/navigation";
+import { tv } from "tailwind-variants";
+
+/**
+ * Renders a blog post: heading, byline, featured image and rich text body
+ */
+export const BlogPost = (props: IBlogPost) => {
+    const params = useParams();
+    const locale = (params?.locale as string) || undefined;
+
+    const { base, heading, byline, summary, image, body } = TAILWIND_VARIANTS();
+
+    const publishDate = props.publish_date
+        ? new Date(props.publish_date).toLocaleDateString(locale, {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+        })
+        : undefined;
+
+    return (
+        <article className={base()}>
+            <h1 className={heading()} {...getCSLPAttributes(props.$?.title)}>{props.title}</h1>
+            {(props.author || publishDate) && (
+                <p className={byline()}>
+                    {props.author && <span {...getCSLPAttributes(props.$?.author)}>{props.author}</span>}
+                    {props.author && publishDate && <span aria-hidden="true"> · </span>}
+                    {publishDate && (
+                        <time dateTime={props.publish_date} {...getCSLPAttributes(props.$?.publish_date)}>
+                            {publishDate}
+                        </time>
+                    )}
+                </p>
+            )}
+            {props.summary && (
+                <p className={summary()} {...getCSLPAttributes(props.$?.summary)}>{props.summary}</p>
+            )}
+            {props.featured_image?.image && (
+                <div className={image()}>
+                    <ImageWrapper image={props.featured_image} priority={true} />
+                </div>
+            )}
+            <RichTextWrapper className={body()} content={props.body} cslpAttribute={props.$?.body} />
+        </article>
+    )
+}
+
+const TAILWIND_VARIANTS = tv({
+    slots: {
+        base: [
+            'w-full',
+            'max-w-3xl',
+            'mx-auto',
+            'py-12',
+            'flex',
+            'flex-col',
+            'gap-6',
+        ],
+        heading: [
+            'text-4xl',
+            'md:text-5xl',
+            'font-bold',
+            'tracking-wide',
+        ],
+        byline: [
+            'text-sm',
+            'text-gray-600',
+        ],
+        summary: [
+            'text-xl',
+            'text-gray-700',
+        ],
+        image: [
+            'w-full',
+            'overflow-hidden',
+            'rounded-lg',
+        ],
+        body: [
+            'text-lg',
+            'leading-relaxed',
+        ],
+    },
+});
@@ -4,6 +4,7 @@ import { CSLPFieldMapping, IEnhancedImage, IHeader, ILink } from "@/.generated";
 import { useIsScrolled } from "@/lib/hooks/useIsScrolled";
 import { tv } from "tailwind-variants";
 import { LanguageSelector } from './LanguageSelector';
+import { LocaleSuggestionBanner } from './LocaleSuggestionBanner';
 import Link from "next/link";
 import ImageWrapper from "@/helpers/Wrappers/ImageWrapper/ImageWrapper";
 import { getCSLPAttributes } from "@/utils/type-guards";
@@ -40,6 +41,7 @@ export const Header = (props: IHeader) => {
   const { base, wrapper, inner, menuWrapper, menuContainer, languageWrapper } = TAILWIND_VARIANTS({ isScrolled: isScrolled });
 
   return (<header className={base()} id="header">
+    <LocaleSuggestionBanner />
     <div className={wrapper()}>
       <div className={inner()}>
         <div className={menuWrapper()}>
@@ -8,6 +8,8 @@ import { useParams, usePathname } from 'next/navigation';
 // Local
 import SvgIcon from '@/helpers/SvgIcon/SvgIcon';
 import { useGlobalLabels } from '@/context/GlobalLabelContext';
+import { useSite } from '@/context/SiteContext';
+import { useLocalizedUrls } from '@/context/LocalizedUrlsContext';
 import { LANGUAGE_DETAILS, type LanguageDetail } from '@/constants/locales';
 import { isLanguageSupported } from '@/lib/contentstack/language';
 import { LanguageService } from '@/lib/services/language-service';
@@ -26,6 +28,8 @@ export const LanguageSelector = () => {
   const params = useParams();
   const pathname = usePathname();
   const { globalLabels } = useGlobalLabels();
+  const site = useSite();
+  const localizedUrls = useLocalizedUrls();
   const [isOpen, setIsOpen] = useState(false);
 
 
@@ -46,8 +50,10 @@ export const LanguageSelector = () => {
     .slice(isLanguageSupported(firstSegment) ? 1 : 0)
     .join('/');
 
-  // Get available languages and current selection
-  const availableLanguages = LANGUAGE_DETAILS || [];
+  // Get the languages of the current site and current selection
+  const availableLanguages = (LANGUAGE_DETAILS || []).filter((lang) =>
+    site.supportedLocales.includes(lang.langCode as (typeof site.supportedLocales)[number])
+  );
 
   const currentLanguage = availableLanguages.find((lang) => lang.langCode === currentLocale);
 
@@ -117,7 +123,7 @@ export const LanguageSelector = () => {
    * Get URL path for a language switch
    */
     const getLanguageHref = (langCode: string): string => {
-      return LanguageService.getLanguageUrlPath(langCode, pathWithoutLocale);
+      return LanguageService.getLocalizedUrlPath(langCode, pathWithoutLocale, site.defaultLocale, localizedUrls);
     };
     // Save the language preference
     LanguageService.saveLanguagePreference(langCode);
@@ -125,7 +131,7 @@ export const LanguageSelector = () => {
 
     // Set the language preference cookie server-side + redirect atomically
     await setLanguagePreference(langCode, getLanguageHref(langCode));
-  }, [setIsOpen, pathWithoutLocale]);
+  }, [setIsOpen, pathWithoutLocale, site.defaultLocale, localizedUrls]);
 
   // ============================================================================
   // Render Helpers
@@ -0,0 +1,197 @@
+'use client';
+
+// Global
+import { useCallback, useEffect, useState } from 'react';
+import { tv } from 'tailwind-variants';
+import { useParams, usePathname } from 'next/navigation';
+
+// Local
+import { useGlobalLabels } from '@/context/GlobalLabelContext';
+import { useSite } from '@/context/SiteContext';
+import { useLocalizedUrls } from '@/context/LocalizedUrlsContext';
+import { useSuggestedLocale } from '@/context/LocaleSuggestionContext';
+import { LANGUAGE_DETAILS, type SupportedLocale } from '@/constants/locales';
+import { isLanguageSupported } from '@/lib/contentstack/language';
+import { LanguageService } from '@/lib/services/language-service';
+import { setLanguagePreference } from '@/app/actions/language';
+
+const DISMISSED_STORAGE_KEY = 'locale-suggestion-dismissed';
+
+/**
+ * LocaleSuggestionBanner Component
+ * Suggests switching to the locale the middleware negotiated from Accept-Language when it
+ * served another one (LOCALE_NEGOTIATION=suggest). The suggestion is read by the locale
+ * layout from the x-suggested-locale header, so the server and the banner agree on it.
+ * Hidden once the visitor picked a language or dismissed the suggestion.
+ */
+export const LocaleSuggestionBanner = () => {
+  // ============================================================================
+  // Hooks & State
+  // ============================================================================
+
+  const params = useParams();
+  const pathname = usePathname();
+  const { globalLabels } = useGlobalLabels();
+  const site = useSite();
+  const localizedUrls = useLocalizedUrls();
+  const serverSuggestedLocale = useSuggestedLocale();
+  const [suggestedLocale, setSuggestedLocale] = useState<SupportedLocale | null>(null);
+
+  // ============================================================================
+  // Computed Values
+  // ============================================================================
+
+  const currentLocale = params.locale as string;
+
+  // Parse pathname to get path without locale
+  const pathSegments = pathname.split('/').filter(Boolean);
+  const pathWithoutLocale = pathSegments
+    .slice(isLanguageSupported(pathSegments[0]) ? 1 : 0)
+    .join('/');
+
+  const suggestedLanguage = LANGUAGE_DETAILS.find((lang) => lang.langCode === suggestedLocale);
+  const languageName = suggestedLanguage?.nativeName || suggestedLocale || '';
+
+  // Labels with fallbacks; {language} is replaced with the name of the suggested language
+  const messageLabel = (globalLabels.locale_suggestion_label || 'This page is also available in {language}.')
+    .replace('{language}', languageName);
+  const switchLabel = (globalLabels.locale_suggestion_switch_label || 'Switch to {language}')
+    .replace('{language}', languageName);
+  const dismissLabel = globalLabels.locale_suggestion_dismiss_label || 'Dismiss';
+
+  // ============================================================================
+  // Effects
+  // ============================================================================
+
+  /**
+   * Show the suggestion of the server unless it was dismissed or a language was picked.
+   * Runs in the browser only: localStorage is not available on the server.
+   */
+  useEffect(() => {
+    let dismissed = false;
+    try {
+      dismissed = !!localStorage.getItem(DISMISSED_STORAGE_KEY);
+    } catch {
+      // Storage blocked: keep suggesting
+    }
+
+    if (dismissed || LanguageService.getStoredLanguagePreference()) {
+      setSuggestedLocale(null);
+      return;
+    }
+
+    setSuggestedLocale(
+      serverSuggestedLocale && serverSuggestedLocale !== currentLocale ? serverSuggestedLocale : null
+    );
+  }, [currentLocale, serverSuggestedLocale]);
+
+  // ============================================================================
+  // Event Handlers
+  // ============================================================================
+
+  const handleSwitch = useCallback(async () => {
+    if (!suggestedLocale) return;
+
+    // Save the language preference
+    LanguageService.saveLanguagePreference(suggestedLocale);
+
+    // Set the language preference cookie server-side + redirect atomically
+    await setLanguagePreference(
+      suggestedLocale,
+      LanguageService.getLocalizedUrlPath(suggestedLocale, pathWithoutLocale, site.defaultLocale, localizedUrls)
+    );
+  }, [suggestedLocale, pathWithoutLocale, site.defaultLocale, localizedUrls]);
+
+  const handleDismiss = useCallback(() => {
+    try {
+      localStorage.setItem(DISMISSED_STORAGE_KEY, suggestedLocale || 'true');
+    } catch {
+      // Storage blocked: only hide for this page view
+    }
+    setSuggestedLocale(null);
+  }, [suggestedLocale]);
+
+  // ============================================================================
+  // Render
+  // ============================================================================
+
+  if (!suggestedLocale) return null;
+
+  const styles = TAILWIND_VARIANTS();
+
+  return (
+    <div
+      className={styles.base()}
+      role="region"
+      aria-label={messageLabel}
+      lang={suggestedLocale}
+      data-component="authorable/shared/site-structure/header/localesuggestionbanner"
+    >
+      <p className={styles.message()}>{messageLabel}</p>
+      <div className={styles.actions()}>
+        <button type="button" className={styles.switchButton()} onClick={() => { handleSwitch() }}>
+          {switchLabel}
+        </button>
+        <button type="button" className={styles.dismissButton()} onClick={handleDismiss}>
+          {dismissLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// Styles
+// ============================================================================
+
+const TAILWIND_VARIANTS = tv({
+  slots: {
+    base: [
+      'flex',
+      'flex-col',
+      'gap-2',
+      'items-start',
+      'justify-between',
+      'w-full',
+      'px-4',
+      'py-2.5',
+      'text-sm',
+      'bg-gray-50',
+      'border-b',
+      'border-gray-200',
+      'md:flex-row',
+      'md:items-center',
+    ],
+    message: [
+      'text-gray-900',
+    ],
+    actions: [
+      'flex',
+      'gap-3',
+    ],
+    switchButton: [
+      'px-4',
+      'py-1.5',
+      'font-semibold',
+      'text-white',
+      'bg-blue-600',
+      'rounded-lg',
+      'hover:bg-blue-700',
+      'focus:outline-none',
+      'focus:ring-2',
+      'focus:ring-blue-500',
+      'focus:ring-offset-1',
+    ],
+    dismissButton: [
+      'px-4',
+      'py-1.5',
+      'text-gray-700',
+      'rounded-lg',
+      'hover:bg-gray-100',
+      'focus:outline-none',
+      'focus:ring-2',
+      'focus:ring-blue-500',
+      'focus:ring-offset-1',
+    ],
+  },
+});
@@ -1,22 +1,33 @@
-import { IPage } from "@/.generated";
+import { IBlogPost, ILandingPage, IPage } from "@/.generated";
+import { BlogPost } from "@/components/authorable/site-structure/BlogPost/BlogPost";
 import { ComponentRenderer } from "@/components/primitives/ComponentRenderer";
 import { ContentstackLivePreview } from "@/components/primitives/ContentstackLivePreview";
+import { RoutablePage } from "@/lib/contentstack/page-data";
 import { JSX } from "react";
 import { tv } from "tailwind-variants";
 
 interface MainLayoutProps {
-    page: IPage;
+    page: RoutablePage;
     pageContentTypeUID?: string;
+    /** Initializes live preview (preview deployments and requests in draft mode) */
+    livePreview?: boolean;
 }
 
 
-export const MainLayout = ({ page, pageContentTypeUID = "page" }: MainLayoutProps): JSX.Element => {
+export const MainLayout = ({ page, pageContentTypeUID = "page", livePreview }: MainLayoutProps): JSX.Element => {
 
     const pageTypeMapping = {
         page: () => {
             const { components, ...rest } = page as IPage;
             return <ComponentRenderer components={components} extendedProps={rest} />;
         },
+        blog_post: () => {
+            return <BlogPost {...(page as IBlogPost)} />;
+        },
+        landing_page: () => {
+            const { components, ...rest } = page as ILandingPage;
+            return <ComponentRenderer components={components} extendedProps={rest} />;
+        },
     };
 
     const { base, mainContent, mainContentWrapper } = TAILWIND_VARIANTS();
@@ -32,7 +43,7 @@ export const MainLayout = ({ page, pageContentTypeUID = "page" }: MainLayoutProp
                 {(() => {
                     return pageTypeMapping[pageContentTypeUID as keyof typeof pageTypeMapping]();
                 })()}
-                <ContentstackLivePreview />
+                <ContentstackLivePreview enabled={livePreview} />
             </div>
         </>
     )
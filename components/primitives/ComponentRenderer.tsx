@@ -1,8 +1,11 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
+import { createLogger } from '@/lib/logger/logger';
 import { IExtendedProps } from '@/lib/types';
 import { componentMapperInstance } from '@/utils/ComponentMapper';
 import { toPascalCase } from '@/utils/string-utils';
 
+const logger = createLogger('component-renderer');
+
 interface DynamicComponentRendererProps extends IExtendedProps {
   components?: Array<Record<string, any>>;
 }
@@ -23,7 +26,7 @@ export const ComponentRenderer = ({ components, extendedProps }: DynamicComponen
         />
       );
     } catch (error) {
-      console.error(`Error rendering component "${componentName}":`, error);
+      logger.error('Error rendering component', { component: componentName, error });
       return null;
     }
   });
@@ -3,12 +3,21 @@
 import { initLivePreview } from '@/lib/contentstack/live-preview';
 import React, { useEffect } from 'react';
 
-export function ContentstackLivePreview({ children }: { children?: React.ReactNode }) {
-  const livePreviewEnabled = process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true';
+/**
+ * Initializes live preview on preview deployments, or when `enabled` (requests in draft mode)
+ */
+export function ContentstackLivePreview({
+  children,
+  enabled,
+}: {
+  children?: React.ReactNode;
+  enabled?: boolean;
+}) {
+  const livePreviewEnabled = enabled ?? process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true';
 
   useEffect(() => {
     if (livePreviewEnabled) {
-      initLivePreview();
+      initLivePreview(true);
     }
   }, [livePreviewEnabled]);
 
@@ -1,4 +1,7 @@
 import React from 'react';
+import { createLogger } from '@/lib/logger/logger';
+
+const logger = createLogger('component-renderer');
 
 type NotFoundProps = {
   componentUid?: string;
@@ -6,11 +9,7 @@ type NotFoundProps = {
 };
 
 export const NotFound = ({ componentUid, componentName }: NotFoundProps) => {
-  console.warn(
-    `Implementation of component "${componentName}"${
-      componentUid ? ` - "${componentUid}"` : ''
-    } not found`
-  );
+  logger.warn('Component implementation not found', { component: componentName, componentUid });
   return (
     <div className="w-[400px] p-2 bg-orange-400 border-5 border-orange-300">
       <h2 className="text-white">{componentName}</h2>
@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect } from 'react';
+import type { ResolvedTerm } from '@/lib/contentstack/taxonomies';
+import { dataLayerInstance, type ExperimentImpression } from '@/utils/gtm-utils';
+
+interface PageDataLayerProps {
+  contentType: string;
+  terms: Array<ResolvedTerm>;
+  /** Experiment variant rendered by the page, if any */
+  experiment?: ExperimentImpression;
+}
+
+/**
+ * Pushes a page view with the content type and taxonomy terms of the page to the GTM data layer,
+ * followed by an experiment impression on experiment pages
+ */
+export const PageDataLayer = ({ contentType, terms, experiment }: PageDataLayerProps) => {
+  const taxonomies = terms.reduce((acc, { taxonomyUid, path }) => {
+    acc[taxonomyUid] = [...(acc[taxonomyUid] || []), path.join(' > ')];
+    return acc;
+  }, {} as Record<string, Array<string>>);
+
+  // Serialized so a re-render with the same page does not push a second page view
+  const pageKey = JSON.stringify({ content_type: contentType, taxonomies });
+  const experimentKey = experiment ? JSON.stringify(experiment) : '';
+
+  useEffect(() => {
+    dataLayerInstance.trackPageView(JSON.parse(pageKey));
+
+    if (experimentKey) {
+      dataLayerInstance.trackExperimentImpression(JSON.parse(experimentKey));
+    }
+  }, [pageKey, experimentKey]);
+
+  return null;
+};
@@ -2,12 +2,21 @@ import { componentMapperInstance } from '@/utils/ComponentMapper';
 import { toPascalCase } from '@/utils/string-utils';
 import { ISystemFields } from '@/.generated';
 import { IExtendedProps } from '@/lib/types';
+import { loadReferences } from '@/lib/contentstack/reference-loader';
 import { NotFound } from './NotFound';
 
 type ComponentTypes = string;
 
-export const ReferencePlaceholder = ({
+/**
+ * Renders the entries of a reference field with their mapped components.
+ * References the page query did not include are resolved on the server through the request's
+ * reference loader, so all placeholders of a page share one request per content type and locale.
+ * This is a server component; client components receive resolved references through the
+ * `initialData` option of useGetEntriesByUids.
+ */
+export const ReferencePlaceholder = async ({
   references = [],
+  referencesToInclude,
   componentName,
   extendedProps,
 }: {
@@ -15,7 +24,11 @@ export const ReferencePlaceholder = ({
   referencesToInclude?: string | Array<string>;
   componentName?: ComponentTypes;
 } & IExtendedProps) => {
-  return references?.map((componentItem, index) => {
+  const entries = await loadReferences<ISystemFields>(references?.filter(Boolean), {
+    referencesToInclude,
+  });
+
+  return entries.map(({ data: componentItem }, index) => {
     // Return if componentItem is undefined
     if (!componentItem) return <></>;
 
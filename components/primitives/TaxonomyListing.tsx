@@ -0,0 +1,67 @@
+import { componentMapperInstance } from '@/utils/ComponentMapper';
+import { toPascalCase } from '@/utils/string-utils';
+import { ISystemFields } from '@/.generated';
+import { IExtendedProps } from '@/lib/types';
+import { getEntriesByTaxonomy } from '@/lib/contentstack/entries';
+import { getResultData } from '@/lib/contentstack/fetch-result';
+
+/**
+ * Renders the entries of a content type tagged with taxonomy terms (and, by default, their
+ * descendant terms) with their mapped components, like ReferencePlaceholder renders references.
+ * This is a server component.
+ *
+ * @example
+ * <TaxonomyListing contentTypeUid="blog_post" taxonomyUid="product_category" termUids="shoes" componentName="BlogPostCard" />
+ */
+export const TaxonomyListing = async ({
+  contentTypeUid,
+  taxonomyUid,
+  termUids,
+  includeDescendants = true,
+  levels,
+  referencesToInclude,
+  locale,
+  limit,
+  componentName,
+  emptyState = null,
+  extendedProps,
+}: {
+  contentTypeUid: string;
+  taxonomyUid: string;
+  termUids: string | Array<string>;
+  includeDescendants?: boolean;
+  levels?: number;
+  referencesToInclude?: string | Array<string>;
+  locale?: string;
+  /** Maximum number of entries to render, most recently updated first */
+  limit?: number;
+  /** Component rendering each entry (defaults to the component mapped to the content type) */
+  componentName?: string;
+  /** Rendered when no entry matches, or when the entries could not be fetched */
+  emptyState?: React.ReactNode;
+} & IExtendedProps) => {
+  const result = await getEntriesByTaxonomy<ISystemFields>({
+    contentTypeUid,
+    taxonomyUid,
+    termUids,
+    includeDescendants,
+    levels,
+    referencesToInclude,
+    locale,
+  });
+  const entries = (getResultData(result)?.entries || []).slice(0, limit);
+
+  if (entries.length === 0) return <>{emptyState}</>;
+
+  const Component = componentMapperInstance.getComponent(componentName || toPascalCase(contentTypeUid));
+
+  return entries.map((entry) => (
+    <Component
+      key={entry.uid}
+      componentName={componentName || toPascalCase(contentTypeUid)}
+      componentUid={entry.uid}
+      extendedProps={extendedProps}
+      {...entry}
+    />
+  ));
+};
@@ -0,0 +1,128 @@
+'use client';
+
+// Global
+import { useRouter } from 'next/navigation';
+import { FormEvent, useEffect, useState } from 'react';
+import { tv } from 'tailwind-variants';
+
+// Local
+import {
+  TIMELINE_RELEASE_PARAM,
+  TIMELINE_TIMESTAMP_PARAM,
+  type TimelinePreview,
+} from '@/lib/services/timeline-service';
+
+const tailwindVariants = tv({
+  slots: {
+    base: [
+      'fixed',
+      'bottom-4',
+      'left-2',
+      'z-50',
+      'flex',
+      'flex-wrap',
+      'items-end',
+      'gap-2',
+      'p-3',
+      'text-sm',
+      'bg-white',
+      'border',
+      'border-gray-300',
+      'rounded-md',
+      'shadow-lg',
+      'md:bottom-6',
+      'md:left-6',
+    ],
+    field: ['flex', 'flex-col', 'gap-1', 'font-semibold'],
+    input: ['px-2', 'py-1', 'font-normal', 'border', 'border-gray-300', 'rounded-sm'],
+    button: ['px-3', 'py-1', 'font-semibold', 'border', 'border-gray-300', 'rounded-sm', 'hover:bg-gray-100'],
+    status: ['w-full', 'text-gray-600'],
+  },
+});
+
+/**
+ * Formats an ISO date-time for a datetime-local input, in the editor's time zone
+ */
+function toDateTimeLocal(timestamp?: string): string {
+  if (!timestamp) return '';
+
+  const date = new Date(timestamp);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16);
+}
+
+/**
+ * Preview toolbar choosing the date-time or release the site is rendered at (see
+ * lib/contentstack/timeline.ts). Only rendered on preview deployments.
+ * The choice is sent as query parameters, which the middleware keeps in a cookie.
+ */
+export const TimelinePreviewToolbar = ({ timeline }: { timeline?: TimelinePreview }) => {
+  const router = useRouter();
+  const [dateTime, setDateTime] = useState('');
+  const [releaseId, setReleaseId] = useState(timeline?.releaseId || '');
+
+  // The editor's time zone is only known in the browser
+  useEffect(() => {
+    setDateTime(toDateTimeLocal(timeline?.timestamp));
+  }, [timeline?.timestamp]);
+
+  const navigate = (timestamp: string, release: string) => {
+    const url = new URL(window.location.href);
+    url.searchParams.set(TIMELINE_TIMESTAMP_PARAM, timestamp);
+    url.searchParams.set(TIMELINE_RELEASE_PARAM, release);
+    router.push(`${url.pathname}${url.search}`);
+  };
+
+  const apply = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    navigate(dateTime ? new Date(dateTime).toISOString() : '', releaseId.trim());
+  };
+
+  const reset = () => {
+    setDateTime('');
+    setReleaseId('');
+    navigate('', '');
+  };
+
+  const { base, field, input, button, status } = tailwindVariants();
+
+  return (
+    <form className={base()} onSubmit={apply} data-component="primitives/timelinepreviewtoolbar">
+      <label className={field()}>
+        Preview date
+        <input
+          className={input()}
+          type="datetime-local"
+          value={dateTime}
+          onChange={(event) => setDateTime(event.target.value)}
+        />
+      </label>
+      <label className={field()}>
+        Release UID
+        <input
+          className={input()}
+          type="text"
+          value={releaseId}
+          onChange={(event) => setReleaseId(event.target.value)}
+        />
+      </label>
+      <button className={button()} type="submit">
+        Preview
+      </button>
+      {timeline && (
+        <button className={button()} type="button" onClick={reset}>
+          Back to now
+        </button>
+      )}
+      <p className={status()} role="status">
+        {timeline
+          ? `Showing content ${[
+              timeline.timestamp && `at ${timeline.timestamp}`,
+              timeline.releaseId && `with release ${timeline.releaseId}`,
+            ]
+              .filter(Boolean)
+              .join(' ')}`
+          : 'Showing current content'}
+      </p>
+    </form>
+  );
+};
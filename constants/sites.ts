@@ -0,0 +1,52 @@
+/**
+ * Site Definitions
+ *
+ * One deployment can serve several brand domains. The middleware maps the request
+ * host to one of these sites, and every fetcher, sitemap.xml, robots.txt and
+ * generateMetadata scope their queries and URLs to it.
+ *
+ * The first site is the default, used when no host matches.
+ */
+
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES, SupportedLocale } from './locales';
+
+/**
+ * Contentstack stack a site reads from. Unset values fall back to the
+ * CONTENTSTACK_* / NEXT_PUBLIC_CONTENTSTACK_* environment variables.
+ */
+export interface SiteStackConfig {
+  apiKey?: string;
+  deliveryToken?: string;
+  previewToken?: string;
+  environment?: string;
+  branch?: string;
+  managementToken?: string; // Management token of the stack, for the build scripts only
+}
+
+export interface SiteDefinition {
+  name: string; // Site identifier, passed as `siteName` to the fetchers
+  hosts: Array<string>; // Host names served by this site (e.g. "www.brand.com", "*.brand.com")
+  stack?: SiteStackConfig; // Stack or branch override (server-side only)
+  defaultLocale: SupportedLocale; // Locale served without URL prefix
+  supportedLocales: Array<SupportedLocale>; // Locales available on this site
+  baseUrl: string; // Absolute URL used for canonical, hreflang, sitemap and robots URLs
+}
+
+export const SITES: Array<SiteDefinition> = [
+  {
+    name: 'default',
+    hosts: [],
+    defaultLocale: DEFAULT_LOCALE,
+    supportedLocales: [...SUPPORTED_LOCALES],
+    baseUrl: process.env.NEXT_PUBLIC_BASE_URL || 'http://localhost:3000',
+  },
+  // Example: a second brand on its own branch
+  // {
+  //   name: 'brand-b',
+  //   hosts: ['www.brand-b.com', 'brand-b.localhost'],
+  //   stack: { branch: 'brand-b' },
+  //   defaultLocale: 'en-us',
+  //   supportedLocales: ['en-us'],
+  //   baseUrl: 'https://www.brand-b.com',
+  // },
+];
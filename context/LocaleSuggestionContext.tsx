@@ -0,0 +1,10 @@
+'use client';
+import { createContext, useContext } from 'react';
+import type { SupportedLocale } from '@/constants/locales';
+
+// Locale negotiated by the middleware from Accept-Language and suggested instead of the
+// served one (LOCALE_NEGOTIATION=suggest), set by the locale layout
+const LocaleSuggestionContext = createContext<SupportedLocale | null>(null);
+
+export const LocaleSuggestionProvider = LocaleSuggestionContext.Provider;
+export const useSuggestedLocale = () => useContext(LocaleSuggestionContext);
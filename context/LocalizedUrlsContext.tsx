@@ -0,0 +1,9 @@
+'use client';
+import { createContext, useContext } from 'react';
+import type { LocalizedUrls } from '@/lib/contentstack/localized-urls';
+
+// URLs of the current page by locale, set by SharedPageLayout (see lib/contentstack/localized-urls.ts)
+const LocalizedUrlsContext = createContext<LocalizedUrls>({});
+
+export const LocalizedUrlsProvider = LocalizedUrlsContext.Provider;
+export const useLocalizedUrls = () => useContext(LocalizedUrlsContext);
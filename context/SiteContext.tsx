@@ -0,0 +1,16 @@
+'use client';
+import { createContext, useContext } from 'react';
+import { DEFAULT_LOCALE, SUPPORTED_LOCALES } from '@/constants/locales';
+import type { PublicSiteDefinition } from '@/lib/services/site-service';
+
+// Public details of the site serving the request, set by the locale layout.
+// Site definitions (constants/sites.ts) hold stack secrets and are never imported by client code
+const SiteContext = createContext<PublicSiteDefinition>({
+  name: '',
+  defaultLocale: DEFAULT_LOCALE,
+  supportedLocales: [...SUPPORTED_LOCALES],
+  baseUrl: process.env.NEXT_PUBLIC_BASE_URL || '',
+});
+
+export const SiteProvider = SiteContext.Provider;
+export const useSite = () => useContext(SiteContext);
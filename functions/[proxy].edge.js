@@ -1,30 +1,126 @@
+import {
+  createHitReporter,
+  getRuleKey,
+  isRedirectAnalyticsEnabled,
+  normalizeReferrer,
+} from '../lib/redirects/redirect-hits';
+import { createRedirectMatcher, GONE_PAGE_PATH } from '../lib/redirects/redirect-matcher';
+import { SiteService } from '../lib/services/site-service';
+
+// Time a compiled matcher is reused before the rules are fetched again
+const MATCHER_TTL_MS = 60 * 1000;
+
+// Compiled matchers by site name: each site serves its own redirect rules
+const cachedMatchers = new Map();
+
+let hitReporter = null;
+
+/**
+ * Record the hit of a redirect rule, batched to /api/redirect/hits, when REDIRECT_ANALYTICS is
+ * 'true' and REDIRECT_ANALYTICS_SECRET is set
+ *
+ * @param {Request} request - The redirected request
+ * @param {import('../constants/sites').SiteDefinition} site - The site of the request
+ * @param {import('../lib/redirects/redirect-matcher').RedirectMatch} redirect - The matching rule
+ * @param {{ waitUntil?: (promise: Promise<unknown>) => void }} [context] - The edge function context
+ */
+function recordHit(request, site, redirect, context) {
+  // eslint-disable-next-line no-undef
+  const secret = process.env.REDIRECT_ANALYTICS_SECRET;
+  if (!isRedirectAnalyticsEnabled() || !secret) return;
+
+  if (!hitReporter) {
+    hitReporter = createHitReporter({
+      secret,
+      onError: (error) => console.error('❌ Failed to report redirect hits:', error),
+    });
+  }
+
+  const currentUrl = new URL(request.url);
+  hitReporter.record(
+    site,
+    {
+      ruleKey: getRuleKey(redirect.rule),
+      ruleSource: redirect.rule.source,
+      path: currentUrl.pathname,
+      status: redirect.rule.status,
+      referrer: normalizeReferrer(request.headers.get('referer')),
+      at: new Date().toISOString(),
+    },
+    context?.waitUntil ? (promise) => context.waitUntil(promise) : undefined
+  );
+}
+
+/**
+ * Get the compiled redirect matcher of a site, fetching the rules when the cached one is
+ * missing or expired. The rules are fetched from the internal URL of the site (see
+ * SiteService.getInternalApiUrl), never from the host of the request.
+ *
+ * @param {import('../constants/sites').SiteDefinition} site - The site of the request
+ * @returns {Promise<import('../lib/redirects/redirect-matcher').RedirectMatcher>} The matcher
+ */
+async function getRedirectMatcher(site) {
+  const now = Date.now();
+  const cached = cachedMatchers.get(site.name);
+
+  if (cached && now - cached.loadedAt < MATCHER_TTL_MS) {
+    return cached.matcher;
+  }
+
+  const response = await fetch(SiteService.getInternalApiUrl(site, '/api/redirect'));
+
+  if (!response.ok) {
+    console.error(`❌ Failed to fetch redirects of ${site.name}: ${response.status} ${response.statusText}`);
+    // Keep the last rules rather than dropping every redirect, and retry after the TTL
+    const matcher = cached?.matcher || createRedirectMatcher([]);
+    cachedMatchers.set(site.name, { matcher, loadedAt: now });
+    return matcher;
+  }
+
+  const matcher = createRedirectMatcher(await response.json());
+  cachedMatchers.set(site.name, { matcher, loadedAt: now });
+
+  return matcher;
+}
+
 /**
  * Edge function handler that processes incoming requests and applies redirect rules.
  *
  * This handler acts as a proxy middleware that:
  * 1. Checks if redirect functionality is enabled via environment variable
- * 2. Fetches redirect rules from the `/api/redirect` endpoint
+ * 2. Fetches the redirect rules of the site from the `/api/redirect` endpoint at its internal URL
+ *    and compiles them into a matcher
  * 3. Matches the current request pathname against redirect rules
- * 4. Returns appropriate redirect responses (301/302) or passes through the request
+ * 4. Returns appropriate redirect responses (301/302/307/308), the gone page (410/451) or passes
+ *    through the request
  *
  * @param {Request} request - The incoming HTTP request object from the edge runtime
+ * @param {{ waitUntil?: (promise: Promise<unknown>) => void }} [context] - The edge function context
  * @returns {Promise<Response>} Returns either:
- *   - A redirect Response (301/302) if a matching rule is found
+ *   - A redirect Response (301/302/307/308) if a matching rule is found
+ *   - The gone page with the status of the rule (410/451) if a matching rule removes the page
  *   - The result of fetch(request) if no redirect matches or redirects are disabled
  *
  * @example
  * // Request to /old-page will redirect to /new-page if a rule exists
+ * // Request to /blog/2024/post will redirect to /articles/2024/post with a /blog/* → /articles/* rule
  * // Request to /api/data will pass through without redirect check
  *
  * @remarks
  * - Requires ENABLE_REDIRECTS environment variable set to 'true' to activate
  * - Skips redirect checks for: API routes (/api/*), Next.js internals (/_next/*),
  *   static files (/static/*), and any path containing a dot (file extensions)
+ * - Supports exact sources, `*` and `:param` patterns and regex rules (see lib/redirects/redirect-matcher.ts)
  * - Supports both internal (relative paths) and external (full URLs) redirects
  * - Default redirect status code is 301 (Permanent Redirect)
+ * - Rules can be limited to a date window and to locales (see lib/redirects/redirect-matcher.ts);
+ *   the locale of the request is its locale prefix, or the default locale of the site
+ * - The compiled matcher of each site is reused for MATCHER_TTL_MS, and kept when the rules
+ *   cannot be fetched
+ * - With REDIRECT_ANALYTICS set to 'true', the hits of the rules are batched to /api/redirect/hits
  * - On error, falls back to passing through the request to prevent site breakage
  */
-export default async function handler(request) {
+export default async function handler(request, context) {
   const currentUrl = new URL(request.url);
   const pathname = currentUrl.pathname;
 
@@ -47,36 +143,37 @@ export default async function handler(request) {
       return fetch(request);
     }
 
-    // Fetch redirect rules from API
-    const apiUrl = `${currentUrl.protocol}//${currentUrl.host}/api/redirect`;
+    // Locale of the request, for rules limited to locales
+    const site = SiteService.getSiteByRequest(request.headers);
+    const firstSegment = pathname.split('/')[1];
+    const locale = SiteService.isLocaleSupported(site, firstSegment) ? firstSegment : site.defaultLocale;
 
-    const response = await fetch(new Request(apiUrl, request));
-    const redirects = response.ok ? await response.json() : [];
+    // Find matching redirect rule
+    const matcher = await getRedirectMatcher(site);
+    const redirect = matcher.match(pathname, { search: currentUrl.search, locale });
 
-    if (!response.ok) {
-      console.error(`❌ Failed to fetch redirects: ${response.status} ${response.statusText}`);
+    if (redirect) {
+      recordHit(request, site, redirect, context);
     }
 
-    // Find matching redirect rule
-    const redirect = redirects.find((rule) => rule.source === pathname);
+    if (redirect && !redirect.location) {
+      // Gone: serve the gone page of the locale with the status of the rule
+      const localePrefix = locale === site.defaultLocale ? '' : `/${locale}`;
+      const goneUrl = `${currentUrl.protocol}//${currentUrl.host}${localePrefix}${GONE_PAGE_PATH}`;
+      const gonePage = await fetch(new Request(goneUrl, request));
+
+      return new Response(gonePage.body, {
+        status: redirect.rule.status,
+        headers: gonePage.headers,
+      });
+    }
 
     if (redirect) {
-      // Check if destination is a full URL (external redirect)
-      let redirectUrl;
-      const isExternalRedirect =
-        redirect.destination.startsWith('http://') || redirect.destination.startsWith('https://');
-
-      if (isExternalRedirect) {
-        redirectUrl = redirect.destination;
-      } else {
-        // Internal redirect - construct URL relative to current origin
-        const newUrl = new URL(request.url);
-        newUrl.pathname = redirect.destination;
-        redirectUrl = newUrl.toString();
-      }
+      // Full URLs (external redirects) are kept, paths are resolved against the current origin
+      const redirectUrl = new URL(redirect.location, request.url).toString();
 
       return new Response(null, {
-        status: redirect.status || 301,
+        status: redirect.rule.status || 301,
         headers: {
           Location: redirectUrl,
         },
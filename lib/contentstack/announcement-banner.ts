@@ -0,0 +1,64 @@
+/**
+ * Announcement Banner
+ *
+ * Site-wide banner authored in the `announcement_banner` group of the site settings and
+ * rendered above the header by SharedPageLayout, e.g. to announce planned maintenance.
+ */
+
+// Local
+import { getSiteSettings } from './entries';
+import { getResultData } from './fetch-result';
+
+export type AnnouncementBannerVariant = 'info' | 'warning' | 'critical';
+
+/**
+ * Announcement banner to render above the header
+ */
+export interface AnnouncementBanner {
+  message: string;
+  link?: { title: string; href: string };
+  variant: AnnouncementBannerVariant;
+  dismissible: boolean;
+}
+
+/**
+ * Fields of the `announcement_banner` group of the site settings
+ */
+interface AnnouncementBannerSettings {
+  enabled?: boolean;
+  message?: string;
+  link?: { title?: string; href?: string };
+  variant?: string;
+  dismissible?: boolean;
+  start_date?: string;
+  end_date?: string;
+}
+
+/**
+ * Resolves the announcement banner of the site settings, in the locale of the page.
+ * The banner is hidden when disabled, without message, or outside its date window, and when
+ * the site settings cannot be fetched: a missing banner never breaks the page.
+ * @param locale - The locale of the page
+ * @param now - The time of the request (default now)
+ * @returns The banner, or undefined when none is shown
+ */
+export async function getAnnouncementBanner(
+  locale: string,
+  now: number = Date.now()
+): Promise<AnnouncementBanner | undefined> {
+  const siteSettings = getResultData(await getSiteSettings('site_settings', undefined, locale));
+  const banner = siteSettings?.announcement_banner as AnnouncementBannerSettings | undefined;
+
+  if (!banner?.enabled || !banner.message) return undefined;
+  if (banner.start_date && Date.parse(banner.start_date) > now) return undefined;
+  if (banner.end_date && Date.parse(banner.end_date) <= now) return undefined;
+
+  const variant = banner.variant?.toLowerCase();
+
+  return {
+    message: banner.message,
+    link: banner.link?.href ? { title: banner.link.title || banner.link.href, href: banner.link.href } : undefined,
+    variant: variant === 'warning' || variant === 'critical' ? variant : 'info',
+    dismissible: !!banner.dismissible,
+  };
+}
@@ -0,0 +1,145 @@
+/**
+ * Checks the last-known-good fallback against the fake delivery server
+ * (scripts/fake-delivery-server.ts), which serves the exported stack and injects failures.
+ */
+
+// Global
+import assert from 'node:assert/strict';
+import { spawn, type ChildProcess } from 'node:child_process';
+import { after, before, test } from 'node:test';
+
+const port = 4100 + Math.floor(Math.random() * 800);
+const fakeServerUrl = `http://localhost:${port}`;
+
+// Read when the delivery stack is created, so set before the modules are imported
+Object.assign(process.env, {
+  CONTENTSTACK_API_KEY: 'fake-api-key',
+  CONTENTSTACK_DELIVERY_TOKEN: 'fake-delivery-token',
+  CONTENTSTACK_DELIVERY_ENDPOINT: `${fakeServerUrl}/v3`,
+  NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT: 'development',
+  LOG_LEVEL: 'error',
+});
+
+let fakeServer: ChildProcess;
+
+/**
+ * Configure the faults injected by the fake delivery server
+ */
+async function setFaults(faults: Record<string, number>) {
+  const query = new URLSearchParams(Object.entries(faults).map(([name, value]) => [name, String(value)]));
+  await fetch(`${fakeServerUrl}/__fake/config?${query}`, { method: 'POST' });
+}
+
+/**
+ * Get the number of requests served by the fake delivery server
+ */
+async function getServedRequests(): Promise<number> {
+  const response = await fetch(`${fakeServerUrl}/__fake/stats`);
+  return ((await response.json()) as { requests: number }).requests;
+}
+
+before(async () => {
+  fakeServer = spawn(process.execPath, ['--import', 'tsx', 'scripts/fake-delivery-server.ts'], {
+    env: { ...process.env, FAKE_DELIVERY_PORT: String(port) },
+    stdio: 'ignore',
+  });
+
+  // Wait for the server to listen
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await getServedRequests();
+      return;
+    } catch (error) {
+      if (attempt >= 100) throw error;
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+});
+
+after(() => {
+  fakeServer.kill();
+});
+
+test('the last-known-good response is served while the circuit is open', async () => {
+  const { withLastKnownGood } = await import('./cache-tags');
+  const { createDeliverySource } = await import('./delivery-source');
+  const { createStack } = await import('./delivery-stack');
+  const { withResilience } = await import('./resilience');
+
+  const source = withResilience(createDeliverySource(createStack()), {
+    timeoutMs: 2000,
+    retryLimit: 0,
+    retryBaseDelayMs: 0,
+    retryMaxDelayMs: 0,
+    circuitFailureThreshold: 2,
+    circuitResetMs: 60 * 1000,
+  });
+  const query = { contentTypeUid: 'header', locale: 'en-us' };
+  const load = () => withLastKnownGood('test:header', {}, () => source.findEntries(query));
+
+  const fresh = await load();
+  assert.ok(fresh.entries && fresh.entries.length > 0);
+
+  // Failing calls open the circuit, and are answered with the last-known-good response
+  await setFaults({ failureRate: 1, failureStatus: 503 });
+  assert.deepEqual(await load(), fresh);
+  assert.deepEqual(await load(), fresh);
+  assert.equal(source.getCircuitState(), 'open');
+
+  // The open circuit fails without calling Contentstack, and the response is still served
+  const servedRequests = await getServedRequests();
+  assert.deepEqual(await load(), fresh);
+  assert.equal(await getServedRequests(), servedRequests);
+
+  await setFaults({ failureRate: 0 });
+});
+
+test('queries without last-known-good response fail while the circuit is open', async () => {
+  const { withLastKnownGood } = await import('./cache-tags');
+  const { createDeliverySource } = await import('./delivery-source');
+  const { createStack } = await import('./delivery-stack');
+  const { CircuitOpenError, withResilience } = await import('./resilience');
+
+  const source = withResilience(createDeliverySource(createStack()), {
+    timeoutMs: 2000,
+    retryLimit: 0,
+    retryBaseDelayMs: 0,
+    retryMaxDelayMs: 0,
+    circuitFailureThreshold: 1,
+    circuitResetMs: 60 * 1000,
+  });
+  const load = () =>
+    withLastKnownGood('test:footer', {}, () =>
+      source.findEntries({ contentTypeUid: 'footer', locale: 'en-us' })
+    );
+
+  await setFaults({ failureRate: 1, failureStatus: 503 });
+  await assert.rejects(load());
+  await assert.rejects(load(), CircuitOpenError);
+
+  await setFaults({ failureRate: 0 });
+});
+
+test('responses are tagged with the entries and assets they embed', async () => {
+  const { cacheTags, getResponseTags } = await import('./cache-tags');
+
+  const page = {
+    uid: 'page_uid',
+    hero: { image: { uid: 'asset_uid', filename: 'hero.png', url: 'https://images.example.com/hero.png' } },
+    related: [{ uid: 'article_uid', _content_type_uid: 'article', author: [{ uid: 'author_uid', _content_type_uid: 'author' }] }],
+  };
+
+  assert.deepEqual(
+    getResponseTags([page], 'page'),
+    [
+      cacheTags.asset('asset_uid'),
+      cacheTags.entry('article_uid'),
+      cacheTags.entry('author_uid'),
+      cacheTags.entry('page_uid'),
+    ].sort()
+  );
+
+  // Past the tag limit, the content types of the entries and every asset
+  const listing = Array.from({ length: 150 }, (_, index) => ({ uid: `page_${index}`, image: page.hero.image }));
+  assert.deepEqual(getResponseTags(listing, 'page'), [cacheTags.assets(), cacheTags.list('page')].sort());
+});
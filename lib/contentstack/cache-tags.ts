@@ -0,0 +1,401 @@
+// Global
+import { createHash } from 'crypto';
+import { unstable_cache } from 'next/cache';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { createLogger, type LogContext } from '../logger/logger';
+import { SiteService } from '../services/site-service';
+import type { ContentSource, EntriesQuery, EntryQuery } from './content-source';
+import { getContentSource } from './content-source';
+import { findPageWithGraphQL, type GraphQLPageQuery } from './graphql-pages';
+import { getLivePreviewQuery, getLivePreviewSource } from './live-preview-query';
+import { isPreviewRequest } from './preview-mode';
+import { isUnavailableFailure } from './resilience';
+import { getTimelinePreview, getTimelineSource } from './timeline';
+
+const TAG_PREFIX = 'contentstack';
+
+const logger = createLogger('content-cache');
+
+// Number of responses kept in memory to serve while Contentstack is failing
+const LAST_KNOWN_GOOD_MAX_ENTRIES =
+  Number(process.env.CONTENTSTACK_LAST_KNOWN_GOOD_MAX_ENTRIES) || 1000;
+
+/**
+ * Last successful response of each query, least recently used first
+ */
+const lastKnownGood = new Map<string, unknown>();
+
+/**
+ * Stores the latest successful response of a query, evicting the least recently used one
+ */
+function rememberLastKnownGood(key: string, value: unknown): void {
+  lastKnownGood.delete(key);
+  lastKnownGood.set(key, value);
+
+  if (lastKnownGood.size > LAST_KNOWN_GOOD_MAX_ENTRIES) {
+    lastKnownGood.delete(lastKnownGood.keys().next().value as string);
+  }
+}
+
+/**
+ * Content types rendered on every page. A change to any of their entries
+ * invalidates every page through the type tag.
+ */
+export const GLOBAL_CONTENT_TYPES = ['header', 'footer', 'dictionary_items', 'site_settings'];
+
+/**
+ * Builders for the cache tags attached to Contentstack data.
+ * Next.js invalidates every cached page that used a tag when it is revalidated.
+ */
+export const cacheTags = {
+  /** Every cached Contentstack response */
+  all: () => TAG_PREFIX,
+
+  /** Singleton content types such as header, footer and site settings */
+  contentType: (contentTypeUid: string, locale?: string) =>
+    locale
+      ? `${TAG_PREFIX}:type:${contentTypeUid}:${locale}`
+      : `${TAG_PREFIX}:type:${contentTypeUid}`,
+
+  /** Listings of a content type (getEntries, getAllSlugs) */
+  list: (contentTypeUid: string, locale?: string) =>
+    locale
+      ? `${TAG_PREFIX}:list:${contentTypeUid}:${locale}`
+      : `${TAG_PREFIX}:list:${contentTypeUid}`,
+
+  /** A single entry, fetched by UID or embedded in another response */
+  entry: (entryUid: string) => `${TAG_PREFIX}:entry:${entryUid}`,
+
+  /** An asset embedded in a response */
+  asset: (assetUid: string) => `${TAG_PREFIX}:asset:${assetUid}`,
+
+  /** Responses embedding more assets than they can have tags for (see getResponseTags) */
+  assets: () => `${TAG_PREFIX}:assets`,
+
+  /** A taxonomy and its term hierarchy */
+  taxonomy: (taxonomyUid: string) => `${TAG_PREFIX}:taxonomy:${taxonomyUid}`,
+
+  /** A routable page looked up by its URL */
+  url: (locale: string, url: string) => `${TAG_PREFIX}:url:${locale}:${url.toLowerCase()}`,
+};
+
+// Next.js keeps at most 128 tags per cache entry, including the tags of the query
+const RESPONSE_TAGS_MAX = 100;
+
+// Cache lookups of a query before its response tags settle (see withResponseCacheTags)
+const RESPONSE_TAGS_MAX_LOOKUPS = 3;
+
+/**
+ * Thrown by the load of a response cached under tags that no longer match its content,
+ * so unstable_cache does not store it
+ */
+class ResponseTagsChangedError extends Error {
+  constructor(
+    readonly responseTags: Array<string>,
+    readonly response: unknown
+  ) {
+    super('The response tags changed');
+    this.name = 'ResponseTagsChangedError';
+  }
+}
+
+/**
+ * Collects the cache tags of the entries and assets of a response: the entries it returns and
+ * every entry and asset embedded in them at any depth. A response embedding more items than
+ * it can have tags for is tagged with the listing tag of each of their content types and the
+ * tag of every asset instead, which the webhook also revalidates.
+ * @param entries - The entries returned by the query
+ * @param contentTypeUid - The content type of the returned entries
+ * @returns The sorted tags
+ */
+export function getResponseTags(entries: Array<unknown>, contentTypeUid: string): Array<string> {
+  const entryTypes = new Map<string, string>();
+  const assetUids = new Set<string>();
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) return value.forEach(visit);
+    if (!value || typeof value !== 'object') return;
+
+    const node = value as Record<string, unknown>;
+    if (typeof node.uid === 'string') {
+      // Referenced entries carry their content type; assets their file name
+      if (typeof node._content_type_uid === 'string') entryTypes.set(node.uid, node._content_type_uid);
+      else if (typeof node.filename === 'string') assetUids.add(node.uid);
+    }
+
+    Object.values(node).forEach(visit);
+  };
+
+  entries.forEach((entry) => {
+    const uid = (entry as { uid?: unknown } | undefined)?.uid;
+    if (typeof uid === 'string') entryTypes.set(uid, contentTypeUid);
+    visit(entry);
+  });
+
+  const tags =
+    entryTypes.size + assetUids.size <= RESPONSE_TAGS_MAX
+      ? [
+          ...Array.from(entryTypes.keys(), cacheTags.entry),
+          ...Array.from(assetUids, cacheTags.asset),
+        ]
+      : [
+          ...Array.from(new Set(entryTypes.values()), (uid) => cacheTags.list(uid)),
+          ...(assetUids.size > 0 ? [cacheTags.assets()] : []),
+        ];
+
+  return tags.sort();
+}
+
+/**
+ * Runs a content source query and logs its duration. Cache hits never reach the source,
+ * so only the queries sent to Contentstack (or the local export) are logged.
+ */
+async function timedLoad<T>(load: () => Promise<T>, context: LogContext): Promise<T> {
+  const startedAt = Date.now();
+
+  try {
+    const result = await load();
+    logger.debug('Content query completed', { ...context, durationMs: Date.now() - startedAt });
+    return result;
+  } catch (error) {
+    logger.debug('Content query failed', { ...context, durationMs: Date.now() - startedAt, error });
+    throw error;
+  }
+}
+
+/**
+ * Runs a query and keeps its response. When the query fails because Contentstack is unavailable
+ * (timeout, network error, 429/5xx or open circuit), the last-known-good response of the query
+ * is served instead.
+ * @param key - The key of the query
+ * @param context - Context of the log entry written when the last-known-good response is served
+ * @param load - The query
+ */
+export async function withLastKnownGood<T>(
+  key: string,
+  context: LogContext,
+  load: () => Promise<T>
+): Promise<T> {
+  try {
+    const result = await load();
+
+    rememberLastKnownGood(key, result);
+    return result;
+  } catch (error) {
+    if (!lastKnownGood.has(key) || !isUnavailableFailure(error)) throw error;
+
+    logger.warn('Serving last-known-good content', { ...context, cacheKey: key, error });
+    return lastKnownGood.get(key) as T;
+  }
+}
+
+/**
+ * Get the content source answering the queries of the current request:
+ * - production requests read published content
+ * - preview requests read drafts with the preview token
+ * - timeline previews read the content at their date or release (see timeline.ts); the offline
+ *   content sources have no scheduled content and ignore them
+ * - live previews read the edited draft at their hash (see live-preview-query.ts)
+ * Resolved outside the data cache, as draft mode and headers cannot be read inside it.
+ */
+async function getRequestSource(site: SiteDefinition): Promise<ContentSource> {
+  if (!(await isPreviewRequest())) return getContentSource(site, false);
+
+  const sourceName = (process.env.CONTENTSTACK_CONTENT_SOURCE || 'delivery').toLowerCase();
+  if (sourceName !== 'delivery') return getContentSource(site, true);
+
+  const timeline = await getTimelinePreview();
+  if (timeline) return getTimelineSource(site, timeline);
+
+  const livePreview = getLivePreviewQuery();
+  return livePreview ? getLivePreviewSource(site, livePreview) : getContentSource(site, true);
+}
+
+/**
+ * Runs a content source query through the Next.js data cache with the given tags.
+ * Responses stay cached until one of their tags is revalidated.
+ * When reloading a revalidated response fails with a timeout, network error, 429/5xx or an
+ * open circuit, the last-known-good response is served instead.
+ * Preview requests always read fresh content.
+ */
+async function withCacheTags<T>(
+  key: string,
+  tags: Array<string>,
+  context: LogContext,
+  load: () => Promise<T>
+): Promise<T> {
+  const timed = () => timedLoad(load, context);
+
+  if (await isPreviewRequest()) {
+    return timed();
+  }
+
+  return withLastKnownGood(key, context, () =>
+    unstable_cache(timed, [TAG_PREFIX, key], {
+      tags: [cacheTags.all(), ...tags],
+      revalidate: false,
+    })()
+  );
+}
+
+/**
+ * Runs a query through the Next.js data cache, tagged with the given tags and with the tags of
+ * its response (see getResponseTags), so that it is revalidated when any entry or asset it
+ * embeds changes. The tags of a response are only known once it is loaded, so the response is
+ * cached under a key derived from them:
+ * 1. the tags of the last response of the query are read from a cached index
+ * 2. the response cached under these tags is returned. A response loaded while the tags differ
+ *    from its own (an embedded entry changed its references) is not cached, and the lookup is
+ *    retried with its tags
+ * The index is only revalidated with the query tags, so after its references changed each
+ * server process loads the query once more before reaching the response cached under its tags.
+ * @param getTags - Gets the tags of a response
+ */
+async function withResponseCacheTags<T>(
+  key: string,
+  tags: Array<string>,
+  context: LogContext,
+  load: () => Promise<T>,
+  getTags: (response: T) => Array<string>
+): Promise<T> {
+  if (await isPreviewRequest()) {
+    return timedLoad(load, context);
+  }
+
+  // Every lookup missing the cache reads the same fresh response
+  let loading: Promise<T> | undefined;
+  const loadOnce = () => (loading ??= load());
+
+  let responseTags = await withCacheTags(`tags:${key}`, tags, context, async () =>
+    getTags(await loadOnce())
+  );
+
+  for (let lookup = 1; ; lookup++) {
+    const expectedTags = responseTags;
+    const tagsHash = createHash('sha1').update(expectedTags.join(',')).digest('hex');
+
+    try {
+      return await withCacheTags(`${key}:${tagsHash}`, [...tags, ...expectedTags], context, async () => {
+        const response = await loadOnce();
+        const loadedTags = getTags(response);
+
+        if (loadedTags.join(',') !== expectedTags.join(',')) {
+          throw new ResponseTagsChangedError(loadedTags, response);
+        }
+
+        return response;
+      });
+    } catch (error) {
+      if (!(error instanceof ResponseTagsChangedError)) throw error;
+
+      // Changing references on every load: serve the response without caching it
+      if (lookup >= RESPONSE_TAGS_MAX_LOOKUPS) {
+        logger.warn('Response tags did not settle', { ...context, cacheKey: key });
+        return error.response as T;
+      }
+
+      responseTags = error.responseTags;
+    }
+  }
+}
+
+/**
+ * Checks if a query returns the entries it references, besides their UIDs
+ */
+function embedsReferences(query: { referencesToInclude?: string | Array<string>; includeAllDepth?: number }) {
+  return Boolean(query.includeAllDepth || (query.referencesToInclude && query.referencesToInclude.length > 0));
+}
+
+/**
+ * Cached variant of ContentSource.findEntries.
+ * Queries returning referenced entries are also tagged with the entries and assets of their response.
+ * @param query - The entries query
+ * @param tags - Cache tags describing the data the query returns
+ * @param site - The site whose content source answers the query
+ */
+export async function findEntriesWithTags<T>(
+  query: EntriesQuery,
+  tags: Array<string>,
+  site: SiteDefinition = SiteService.getDefaultSite()
+) {
+  const source = await getRequestSource(site);
+  const key = `find:${site.name}:${JSON.stringify(query)}`;
+  const context = { site: site.name, contentType: query.contentTypeUid, locale: query.locale };
+  const load = () => source.findEntries<T>(query);
+
+  return embedsReferences(query)
+    ? withResponseCacheTags(key, tags, context, load, (response) =>
+        getResponseTags(response.entries || [], query.contentTypeUid)
+      )
+    : withCacheTags(key, tags, context, load);
+}
+
+/**
+ * Cached variant of ContentSource.fetchEntry.
+ * Queries returning referenced entries are also tagged with the entries and assets of their response.
+ * @param query - The entry query
+ * @param tags - Cache tags describing the data the query returns
+ * @param site - The site whose content source answers the query
+ */
+export async function fetchEntryWithTags<T>(
+  query: EntryQuery,
+  tags: Array<string>,
+  site: SiteDefinition = SiteService.getDefaultSite()
+) {
+  const source = await getRequestSource(site);
+  const key = `fetch:${site.name}:${JSON.stringify(query)}`;
+  const context = {
+    site: site.name,
+    contentType: query.contentTypeUid,
+    entryUid: query.entryUid,
+    locale: query.locale,
+  };
+  const load = () => source.fetchEntry<T>(query);
+
+  return embedsReferences(query)
+    ? withResponseCacheTags(key, tags, context, load, (entry) =>
+        getResponseTags([entry], query.contentTypeUid)
+      )
+    : withCacheTags(key, tags, context, load);
+}
+
+/**
+ * Cached variant of ContentSource.fetchTaxonomy
+ * @param taxonomyUid - The taxonomy UID
+ * @param site - The site whose content source answers the query
+ */
+export async function fetchTaxonomyWithTags(
+  taxonomyUid: string,
+  site: SiteDefinition = SiteService.getDefaultSite()
+) {
+  const source = await getRequestSource(site);
+
+  return withCacheTags(
+    `taxonomy:${site.name}:${taxonomyUid}`,
+    [cacheTags.taxonomy(taxonomyUid)],
+    { site: site.name, taxonomy: taxonomyUid },
+    () => source.fetchTaxonomy(taxonomyUid)
+  );
+}
+
+/**
+ * Cached variant of findPageWithGraphQL, also tagged with the entries and assets of the page
+ * @param query - The page query
+ * @param tags - Cache tags describing the data the query returns
+ * @param site - The site whose stack answers the query
+ */
+export function findPageWithGraphQLTags<T>(
+  query: GraphQLPageQuery,
+  tags: Array<string>,
+  site: SiteDefinition = SiteService.getDefaultSite()
+) {
+  return withResponseCacheTags(
+    `graphql:${site.name}:${JSON.stringify(query)}`,
+    tags,
+    { site: site.name, contentType: query.contentTypeUid, locale: query.locale },
+    () => findPageWithGraphQL<T>(query, site),
+    (response) => getResponseTags(response.entries || [], query.contentTypeUid)
+  );
+}
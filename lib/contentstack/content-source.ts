@@ -0,0 +1,149 @@
+// Global
+import type { FindResponse } from '@contentstack/delivery-sdk';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { SiteService } from '../services/site-service';
+import { createDeliverySource } from './delivery-source';
+import { getSiteStack, isPreviewModeEnabled } from './delivery-stack';
+import { createLocalSource, getExportDirectory } from './local-source';
+import { withResilience, type ResilientContentSource } from './resilience';
+import { createSyncSource } from './sync-source';
+import { getSyncDirectory } from './sync-store';
+import { getTaxonomyDirectory } from './taxonomy-export';
+import type { ExportedTaxonomy } from './taxonomy-tree';
+
+/**
+ * Filter on the terms of a taxonomy assigned to entries (their `taxonomies` field)
+ */
+export interface TaxonomyFilter {
+  taxonomyUid: string;
+  /** Entries tagged with any of these terms match */
+  termUids: Array<string>;
+  /** Also match entries tagged with a descendant of the terms (`$eq_below`) */
+  includeDescendants?: boolean;
+  /** Levels of descendants to match (defaults to the API maximum of 10) */
+  levels?: number;
+}
+
+/**
+ * Query options for fetching a list of entries of one content type.
+ * Mirrors the subset of the delivery API used by the fetchers in entries.ts
+ */
+export interface EntriesQuery {
+  contentTypeUid: string;
+  locale: string;
+  /**
+   * Field filters. A string value is matched with equality, an array value
+   * matches entries whose field is any of the given values
+   */
+  where?: Record<string, string | Array<string>>;
+  /**
+   * Taxonomy filters. Entries must match every filter
+   */
+  taxonomies?: Array<TaxonomyFilter>;
+  referencesToInclude?: string | Array<string>;
+  /**
+   * Resolve every reference field up to the given depth (`include_all`)
+   */
+  includeAllDepth?: number;
+  includeFallback?: boolean;
+  includeDimension?: boolean;
+  only?: Array<string>;
+  skip?: number;
+  limit?: number;
+  includeCount?: boolean;
+}
+
+/**
+ * Query options for fetching a single entry by its UID
+ */
+export interface EntryQuery {
+  contentTypeUid: string;
+  entryUid: string;
+  locale: string;
+  referencesToInclude?: string | Array<string>;
+  includeFallback?: boolean;
+}
+
+/**
+ * A backend the content fetchers can read entries from
+ */
+export interface ContentSource {
+  readonly name: ContentSourceName;
+  findEntries<T>(query: EntriesQuery): Promise<FindResponse<T>>;
+  fetchEntry<T>(query: EntryQuery): Promise<T | undefined>;
+  /**
+   * Fetches a taxonomy with its flat list of terms
+   * @returns The taxonomy, or undefined if the stack has no such taxonomy
+   */
+  fetchTaxonomy(taxonomyUid: string): Promise<ExportedTaxonomy | undefined>;
+}
+
+export type ContentSourceName = 'delivery' | 'local' | 'sync';
+
+/**
+ * Availability of the published content of a site
+ */
+export interface ContentSourceHealth {
+  /** False from the first failed call to the delivery API until a call succeeds */
+  available: boolean;
+  /** Time Contentstack will be called again, while the circuit is open */
+  retryAt?: number;
+}
+
+const contentSources = new Map<string, ContentSource>();
+
+/**
+ * Returns the content source selected by the CONTENTSTACK_CONTENT_SOURCE environment variable.
+ * - `delivery` (default): the Contentstack delivery API, behind the timeout, retry and
+ *   circuit breaker policy of resilience.ts
+ * - `local`: the exported stack in the contentstack-schema folder, for offline use
+ * - `sync`: the local mirror kept up to date with the Sync API (see sync.ts)
+ * @param site - The site to read content for (defaults to the default site)
+ * @param preview - Read drafts with the preview token (delivery source only, defaults to
+ * NEXT_PUBLIC_CONTENTSTACK_PREVIEW)
+ * @returns The shared content source instance of the site
+ */
+export function getContentSource(
+  site: SiteDefinition = SiteService.getDefaultSite(),
+  preview: boolean = isPreviewModeEnabled()
+): ContentSource {
+  const sourceName = (process.env.CONTENTSTACK_CONTENT_SOURCE || 'delivery').toLowerCase();
+  const key = sourceName === 'delivery' && preview ? `${site.name}:preview` : site.name;
+  let contentSource = contentSources.get(key);
+
+  if (!contentSource) {
+    contentSource =
+      sourceName === 'local'
+        ? createLocalSource(getExportDirectory(site.stack?.branch))
+        : sourceName === 'sync'
+          ? createSyncSource(getSyncDirectory(site))
+          : withResilience(
+              createDeliverySource(getSiteStack(site, preview), getTaxonomyDirectory(site))
+            );
+    contentSources.set(key, contentSource);
+  }
+
+  return contentSource;
+}
+
+/**
+ * Get the availability of the published content of a site, from the circuit breaker of its
+ * delivery source. The local and sync sources are always available.
+ * @param site - The site (defaults to the default site)
+ */
+export function getContentSourceHealth(
+  site: SiteDefinition = SiteService.getDefaultSite()
+): ContentSourceHealth {
+  const source = getContentSource(site, false);
+  if (!('getCircuitState' in source)) return { available: true };
+
+  const resilientSource = source as ResilientContentSource;
+
+  // Degraded from the first transient failure, not only once the circuit opens, so the pages
+  // failing before it opens are also answered with a 503
+  return resilientSource.getCircuitState() === 'closed' && resilientSource.getFailureCount() === 0
+    ? { available: true }
+    : { available: false, retryAt: resilientSource.getRetryAt() };
+}
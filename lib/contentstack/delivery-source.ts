@@ -0,0 +1,134 @@
+// Global
+import { QueryOperation, TaxonomyQueryOperation } from '@contentstack/delivery-sdk';
+
+// Local
+import type { ContentSource, EntriesQuery, EntryQuery, TaxonomyFilter } from './content-source';
+import { stack as defaultStack } from './delivery-stack';
+import { readExportedTaxonomy } from './taxonomy-export';
+
+/**
+ * Creates a content source backed by the Contentstack delivery SDK
+ * @param stack - The stack to query (defaults to the stack configured by environment variables)
+ * @param taxonomyDirectory - The taxonomies exported at build time for the stack
+ * (see getTaxonomyDirectory). Without it, no taxonomy is found
+ * @returns Content source that queries the delivery API
+ */
+export function createDeliverySource(stack = defaultStack, taxonomyDirectory?: string): ContentSource {
+  /**
+   * Builds the query matching a taxonomy filter: any of its terms, or their descendants
+   */
+  const taxonomyQuery = (
+    contentTypeUid: string,
+    { taxonomyUid, termUids, includeDescendants, levels }: TaxonomyFilter
+  ) => {
+    const termQueries = termUids.map((termUid) =>
+      includeDescendants
+        ? stack
+            .contentType(contentTypeUid)
+            .entry()
+            .query()
+            .where(`taxonomies.${taxonomyUid}`, TaxonomyQueryOperation.EQ_BELOW, termUid, {
+              ...(levels && { levels }),
+            })
+        : stack
+            .contentType(contentTypeUid)
+            .entry()
+            .query()
+            .where(`taxonomies.${taxonomyUid}`, QueryOperation.EQUALS, termUid)
+    );
+
+    return termQueries.length === 1
+      ? termQueries[0]
+      : stack.contentType(contentTypeUid).entry().query().or(...termQueries);
+  };
+
+  return {
+    name: 'delivery',
+
+    async findEntries<T>({
+      contentTypeUid,
+      locale,
+      where,
+      taxonomies,
+      referencesToInclude,
+      includeAllDepth,
+      includeFallback,
+      includeDimension,
+      only,
+      skip,
+      limit,
+      includeCount,
+    }: EntriesQuery) {
+      const entries = stack.contentType(contentTypeUid).entry();
+
+      if (referencesToInclude) {
+        entries.includeReference(referencesToInclude);
+      }
+
+      if (only && only.length > 0) {
+        entries.only(only);
+      }
+
+      entries.locale(locale);
+
+      if (includeFallback) {
+        entries.includeFallback();
+      }
+
+      const query = entries.query();
+
+      if (includeAllDepth) {
+        query.addParams({ include_all: true, include_all_depth: includeAllDepth });
+      }
+
+      if (includeDimension) {
+        query.addParams({ include_dimension: true });
+      }
+
+      if (where) {
+        Object.entries(where).forEach(([fieldUid, value]) => {
+          query.where(
+            fieldUid,
+            Array.isArray(value) ? QueryOperation.INCLUDES : QueryOperation.EQUALS,
+            value
+          );
+        });
+      }
+
+      if (taxonomies && taxonomies.length > 0) {
+        query.and(...taxonomies.map((filter) => taxonomyQuery(contentTypeUid, filter)));
+      }
+
+      if (skip) query.skip(skip);
+      if (limit) query.limit(limit);
+      if (includeCount) query.includeCount();
+
+      return query.find<T>();
+    },
+
+    async fetchEntry<T>({
+      contentTypeUid,
+      entryUid,
+      locale,
+      referencesToInclude,
+      includeFallback,
+    }: EntryQuery) {
+      const entry = stack.contentType(contentTypeUid).entry(entryUid);
+
+      if (referencesToInclude) {
+        entry.includeReference(referencesToInclude);
+      }
+
+      if (includeFallback) {
+        entry.includeFallback();
+      }
+
+      return entry.locale(locale).fetch<T>();
+    },
+
+    // The delivery API does not return the term hierarchy: read the build-time export
+    async fetchTaxonomy(taxonomyUid: string) {
+      return taxonomyDirectory ? readExportedTaxonomy(taxonomyDirectory, taxonomyUid) : undefined;
+    },
+  };
+}
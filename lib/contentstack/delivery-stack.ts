@@ -1,9 +1,13 @@
 // Importing Contentstack SDK
-import contentstackDeliverySDK from '@contentstack/delivery-sdk';
+import contentstackDeliverySDK, { type StackConfig } from '@contentstack/delivery-sdk';
 
 // helper functions from private package to retrieve Contentstack endpoints in a convienient way
 import { getContentstackEndpoints, getRegionForString } from '@timbenniks/contentstack-endpoints';
 
+import type { SiteDefinition, SiteStackConfig } from '../../constants/sites';
+import type { TimelinePreview } from '../services/timeline-service';
+import { getResiliencePolicy } from './resilience';
+
 // Set the region by string value from environment variables
 const region = getRegionForString(process.env.NEXT_PUBLIC_CONTENTSTACK_REGION || 'EU');
 
@@ -13,27 +17,65 @@ const endpoints = getContentstackEndpoints(region, true);
 // Cache preview mode check for performance
 const isPreviewMode = process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true';
 
+/**
+ * Options of the stacks created by createStack
+ */
+export interface StackOptions {
+  /**
+   * Reads drafts through live preview with the preview token
+   * (defaults to NEXT_PUBLIC_CONTENTSTACK_PREVIEW, see preview-mode.ts for draft mode)
+   */
+  preview?: boolean;
+  /**
+   * Reads the content published at this date or release from the preview host
+   * (see getTimelineSource in timeline.ts)
+   */
+  timeline?: TimelinePreview;
+}
+
 // Shared function to create Contentstack stack configuration
-export function createStack() {
+// Values in `config` override the environment variables (used for per-site stacks)
+export function createStack(
+  config: SiteStackConfig = {},
+  { preview = isPreviewMode, timeline }: StackOptions = {}
+) {
+  // Production stacks never hold the preview token
+  const previewToken =
+    preview || timeline ? config.previewToken || process.env.CONTENTSTACK_PREVIEW_TOKEN : undefined;
+
   return contentstackDeliverySDK.stack({
     // Setting the API key from environment variables
-    apiKey: process.env.CONTENTSTACK_API_KEY as string,
+    apiKey: (config.apiKey || process.env.CONTENTSTACK_API_KEY) as string,
 
     // Setting the delivery token from environment variables
-    deliveryToken: process.env.CONTENTSTACK_DELIVERY_TOKEN as string,
+    deliveryToken: (config.deliveryToken || process.env.CONTENTSTACK_DELIVERY_TOKEN) as string,
 
     // Setting the environment based on environment variables
-    environment: process.env.NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT as string,
-    branch: process.env.NEXT_PUBLIC_CONTENTSTACK_BRANCH as string,
+    environment: (config.environment || process.env.NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT) as string,
+    branch: (config.branch || process.env.NEXT_PUBLIC_CONTENTSTACK_BRANCH) as string,
 
     // Setting the region based on environment variables
     region: region,
+
+    // Optional delivery API base URL (e.g. a local fake server: http://localhost:4010/v3)
+    endpoint: (!timeline && process.env.CONTENTSTACK_DELIVERY_ENDPOINT) || undefined,
+
+    // Timeline previews send the preview token, date and release with every request,
+    // instead of setting them on the stack like livePreviewQuery does
+    ...(timeline && {
+      host: endpoints.preview,
+      headers: getTimelineHeaders(timeline, previewToken),
+    }),
+
+    // Timeouts and retries are handled by the resilience policy (resilience.ts)
+    timeout: getResiliencePolicy().timeoutMs || undefined,
+    retryOnError: false,
     live_preview: {
-      // Enabling live preview if specified in environment variables
-      enable: isPreviewMode,
+      // Enabling live preview for preview stacks
+      enable: preview && !timeline,
 
       // Setting the preview token from environment variables
-      preview_token: process.env.CONTENTSTACK_PREVIEW_TOKEN,
+      preview_token: previewToken,
 
       // Setting the host for live preview based on the region
       host: endpoints.preview,
@@ -41,14 +83,49 @@ export function createStack() {
   });
 }
 
+/**
+ * Headers requesting the content of a timeline preview from the preview host
+ */
+function getTimelineHeaders(timeline: TimelinePreview, previewToken?: string): StackConfig['headers'] {
+  const headers: Record<string, string> = { preview_token: previewToken || '' };
+  if (timeline.timestamp) headers.preview_timestamp = timeline.timestamp;
+  if (timeline.releaseId) headers.release_id = timeline.releaseId;
+
+  return headers as StackConfig['headers'];
+}
+
 // Export the stack instance for backward compatibility
 export const stack = createStack();
 
+const siteStacks = new Map<string, ReturnType<typeof createStack>>();
+
+/**
+ * Get the stack a site reads from. Sites without a stack override share the default stack.
+ * @param site - The site definition
+ * @param preview - Get the preview stack, reading drafts with the preview token
+ * (defaults to NEXT_PUBLIC_CONTENTSTACK_PREVIEW)
+ * @returns The stack instance for the site
+ */
+export function getSiteStack(site: SiteDefinition, preview: boolean = isPreviewMode) {
+  if (!site.stack && preview === isPreviewMode) return stack;
+
+  const key = `${site.name}:${preview ? 'preview' : 'delivery'}`;
+  let siteStack = siteStacks.get(key);
+  if (!siteStack) {
+    siteStack = createStack(site.stack, { preview });
+    siteStacks.set(key, siteStack);
+  }
+
+  return siteStack;
+}
+
 // Export endpoints and preview mode for use in other modules
 export function getEndpoints() {
   return endpoints;
 }
 
+// Deployment-wide preview switch. Use isPreviewRequest (preview-mode.ts) on the server,
+// which also covers requests in Next.js draft mode
 export function isPreviewModeEnabled(): boolean {
   return isPreviewMode;
 }
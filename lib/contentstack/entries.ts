@@ -1,264 +1,552 @@
 // Global
-import contentstack, { QueryOperation } from '@contentstack/delivery-sdk';
+import contentstack, { type FindResponse } from '@contentstack/delivery-sdk';
 import { cache } from 'react';
 
 // Local
-import { GetEntries, GetEntryByUid } from '../types';
+import { GetEntries, GetEntriesByTaxonomy, GetEntryByUid } from '../types';
 import { IFooter, IHeader, ISiteSettings } from '@/.generated';
-import { stack } from './delivery-stack';
+import {
+  cacheTags,
+  fetchEntryWithTags,
+  findEntriesWithTags,
+  findPageWithGraphQLTags,
+} from './cache-tags';
+import type { EntriesQuery } from './content-source';
+import {
+  errorResult,
+  FetchResult,
+  foundResult,
+  isNotFoundError,
+  notFoundResult,
+} from './fetch-result';
+import { isGraphQLPageType } from './graphql-pages';
 import { getCurrentLanguage } from './language';
 import { addEditableTagsIfPreview, addEditableTagsToEntries } from './preview-helpers';
-import { DEFAULT_LOCALE } from '../../constants/locales';
+import { isPreviewRequest } from './preview-mode';
+import type { SiteDefinition } from '../../constants/sites';
+import { collectPages, paginate } from './pagination';
+import { resolveSite } from './site';
+import { createLogger } from '../logger/logger';
+
+const logger = createLogger('entries');
+
+/**
+ * Pages through every entry matching a query, beyond the 100-entry API limit
+ * @param query - The entries query (without skip/limit)
+ * @param tags - Cache tags for each page
+ * @param site - The site to read entries from
+ * @returns Async generator yielding the entries of each page
+ */
+function paginateEntries<T>(
+  query: Omit<EntriesQuery, 'skip' | 'limit' | 'includeCount'>,
+  tags: Array<string>,
+  site: SiteDefinition
+) {
+  return paginate<T>((skip, limit, includeCount) =>
+    findEntriesWithTags<T>({ ...query, skip, limit, includeCount }, tags, site)
+  );
+}
 
 /**
  * Function to fetch page data based on the URL with multisite support
  * @param url - The URL to fetch the page for
  * @param pageType - The content type UID (default: 'page')
- * @returns The fetched page entry or undefined
+ * @param locale - The locale to fetch
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @returns The page entry, `not-found` when no entry has this URL, or `error` when the fetch failed
  */
-export const getPage = cache(async <T>(url: string, pageType: string, locale: string) => {
-  if (!url || !pageType || !locale) return undefined;
+export const getPage = cache(async <T>(
+  url: string,
+  pageType: string,
+  locale: string,
+  siteName?: string
+): Promise<FetchResult<T & contentstack.Utils.EntryModel>> => {
+  if (!url || !pageType || !locale) return notFoundResult();
 
   try {
-    const query = stack
-      .contentType(pageType)
-      .entry()
-      .locale(locale)
-      .query()
-      .addParams({ include_all: true, include_all_depth: 2, include_dimension: true })
-      .where('url', QueryOperation.EQUALS, url.toLowerCase());
+    const site = await resolveSite(siteName);
+
+    // The page query is also tagged with the UID of the entry found, so the page is invalidated
+    // when its entry moves to another URL (the webhook only knows the new URL of an entry)
+    const tags = [cacheTags.url(locale, url)];
+
+    // CONTENTSTACK_DELIVERY_API=graphql selects only the fields the page renders.
+    // Preview requests use the REST API, like preview deployments (see isGraphQLDeliveryEnabled)
+    const result = isGraphQLPageType(pageType) && !(await isPreviewRequest())
+      ? await findPageWithGraphQLTags<T & contentstack.Utils.EntryModel>(
+          { contentTypeUid: pageType, locale, url: url.toLowerCase() },
+          tags,
+          site
+        )
+      : await findEntriesWithTags<T & contentstack.Utils.EntryModel>(
+          {
+            contentTypeUid: pageType,
+            locale,
+            includeAllDepth: 2,
+            includeDimension: true,
+            where: { url: url.toLowerCase() },
+          },
+          tags,
+          site
+        );
+
+    if (result.entries && result.entries.length > 0) {
+      const entry = result.entries[0];
+      await addEditableTagsIfPreview(entry, pageType, locale);
+      return foundResult(entry);
+    }
+
+    return notFoundResult();
+  } catch (err) {
+    const message = `Error while fetching page for URL "${url}" (${pageType}, ${locale})`;
+    logger.error(message, { contentType: pageType, locale, url, error: err });
+    return errorResult(message, err);
+  }
+});
+
+/**
+ * Function to fetch a page entry by UID, with the same references as getPage, e.g. to render
+ * the variant of an experiment at the URL of the control page
+ * @param entryUid - The UID of the page entry
+ * @param pageType - The content type UID of the page
+ * @param locale - The locale to fetch
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @returns The page entry, `not-found` when it does not exist in the locale, or `error` when the fetch failed
+ */
+export const getPageByUid = cache(async <T>(
+  entryUid: string,
+  pageType: string,
+  locale: string,
+  siteName?: string
+): Promise<FetchResult<T & contentstack.Utils.EntryModel>> => {
+  if (!entryUid || !pageType || !locale) return notFoundResult();
 
-    const result = await query.find<T & contentstack.Utils.EntryModel>();
+  try {
+    const site = await resolveSite(siteName);
+    const result = await findEntriesWithTags<T & contentstack.Utils.EntryModel>(
+      {
+        contentTypeUid: pageType,
+        locale,
+        includeAllDepth: 2,
+        includeDimension: true,
+        where: { uid: entryUid },
+      },
+      [cacheTags.entry(entryUid)],
+      site
+    );
 
     if (result.entries && result.entries.length > 0) {
       const entry = result.entries[0];
-      addEditableTagsIfPreview(entry, pageType, locale);
-      return entry;
+      await addEditableTagsIfPreview(entry, pageType, locale);
+      return foundResult(entry);
     }
 
-    return undefined;
+    return notFoundResult();
   } catch (err) {
-    console.error(`Error while fetching page for URL "${url}" (${pageType}, ${locale}):`, err);
-    return undefined;
+    const message = `Error while fetching page "${entryUid}" (${pageType}, ${locale})`;
+    logger.error(message, { contentType: pageType, entryUid, locale, error: err });
+    return errorResult(message, err);
   }
 });
 
 /**
  * Function to fetch header entry
- * @returns The fetched header entry or undefined
+ * @param locale - The locale to fetch
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @returns The header entry, `not-found` when the locale has none, or `error` when the fetch failed
  */
-export const getHeader = cache(async (locale: string) => {
-  if (!locale) return undefined;
+export const getHeader = cache(async (
+  locale: string,
+  siteName?: string
+): Promise<FetchResult<IHeader>> => {
+  if (!locale) return notFoundResult();
 
   try {
-    const result = await stack
-      .contentType('header')
-      .entry()
-      .locale(locale)
-      .query()
-      .addParams({ include_dimension: true })
-      .find<IHeader>();
+    const site = await resolveSite(siteName);
+    const result = await findEntriesWithTags<IHeader>(
+      {
+        contentTypeUid: 'header',
+        locale,
+        includeDimension: true,
+      },
+      [cacheTags.contentType('header'), cacheTags.contentType('header', locale)],
+      site
+    );
 
     if (result.entries && result.entries.length > 0) {
       const entry = result.entries[0];
-      addEditableTagsIfPreview(entry, 'header', locale);
-      return entry;
+      await addEditableTagsIfPreview(entry, 'header', locale);
+      return foundResult(entry);
     }
 
-    return undefined;
+    return notFoundResult();
   } catch (err) {
-    console.error(`Error while fetching header for locale "${locale}":`, err);
-    return undefined;
+    const message = `Error while fetching header for locale "${locale}"`;
+    logger.error(message, { contentType: 'header', locale, error: err });
+    return errorResult(message, err);
   }
 });
 
 /**
  * Function to fetch footer entry
- * @returns The fetched footer entry or undefined
+ * @param locale - The locale to fetch
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @returns The footer entry, `not-found` when the locale has none, or `error` when the fetch failed
  */
-export const getFooter = cache(async (locale: string) => {
-  if (!locale) return undefined;
+export const getFooter = cache(async (
+  locale: string,
+  siteName?: string
+): Promise<FetchResult<IFooter>> => {
+  if (!locale) return notFoundResult();
 
   try {
-    const result = await stack
-      .contentType('footer')
-      .entry()
-      .locale(locale)
-      .query()
-      .addParams({ include_dimension: true })
-      .find<IFooter>();
+    const site = await resolveSite(siteName);
+    const result = await findEntriesWithTags<IFooter>(
+      {
+        contentTypeUid: 'footer',
+        locale,
+        includeDimension: true,
+      },
+      [cacheTags.contentType('footer'), cacheTags.contentType('footer', locale)],
+      site
+    );
 
     if (result.entries && result.entries.length > 0) {
       const entry = result.entries[0];
-      addEditableTagsIfPreview(entry, 'footer', locale);
-      return entry;
+      await addEditableTagsIfPreview(entry, 'footer', locale);
+      return foundResult(entry);
     }
 
-    return undefined;
+    return notFoundResult();
   } catch (err) {
-    console.error(`Error while fetching footer for locale "${locale}":`, err);
-    return undefined;
+    const message = `Error while fetching footer for locale "${locale}"`;
+    logger.error(message, { contentType: 'footer', locale, error: err });
+    return errorResult(message, err);
   }
 });
 
 /**
- * Function to fetch multiple entries of a content type
- * @param params - Object containing contentTypeUid, referencesToInclude, and locale
- * @returns The fetched entries or undefined
+ * Function to fetch every entry of a content type, paging past the 100-entry API limit
+ * @param params - Object containing contentTypeUid, referencesToInclude, locale and siteName
+ * @returns The entries (possibly none), or `error` when any page failed to load
  */
 export const getEntries = cache(async <T>({
   contentTypeUid,
   referencesToInclude = '',
   locale,
-}: Pick<GetEntries, 'contentTypeUid' | 'referencesToInclude' | 'locale'>) => {
-  if (!contentTypeUid) return undefined;
+  siteName,
+}: Pick<GetEntries, 'contentTypeUid' | 'referencesToInclude' | 'locale' | 'siteName'>): Promise<
+  FetchResult<FindResponse<T & contentstack.Utils.EntryModel>>
+> => {
+  if (!contentTypeUid) return notFoundResult();
 
   try {
-    const entryQuery = stack.contentType(contentTypeUid).entry();
+    const localeToUse = locale || getCurrentLanguage();
+    const site = await resolveSite(siteName);
+
+    const entries = await collectPages(
+      paginateEntries<T & contentstack.Utils.EntryModel>(
+        {
+          contentTypeUid,
+          locale: localeToUse,
+          referencesToInclude,
+          includeFallback: true,
+        },
+        [cacheTags.list(contentTypeUid), cacheTags.list(contentTypeUid, localeToUse)],
+        site
+      )
+    );
 
-    if (referencesToInclude) {
-      entryQuery.includeReference(referencesToInclude);
+    if (entries.entries) {
+      await addEditableTagsToEntries(entries.entries, contentTypeUid);
     }
 
-    const localeToUse = locale || getCurrentLanguage();
+    return foundResult(entries);
+  } catch (err) {
+    const message = `Error while fetching entries for content type "${contentTypeUid}" (locale: ${locale || getCurrentLanguage()})`;
+    logger.error(message, { contentType: contentTypeUid, locale: locale || getCurrentLanguage(), error: err });
+    return errorResult(message, err);
+  }
+});
 
-    const entries = await entryQuery
-      .locale(localeToUse)
-      .includeFallback()
-      .query()
-      .find<T & contentstack.Utils.EntryModel>();
+/**
+ * Function to fetch every entry of a content type tagged with taxonomy terms, paging past the 100-entry API limit
+ * @param params - Object containing contentTypeUid, taxonomyUid, termUids, includeDescendants
+ * (default: true), levels, referencesToInclude, locale and siteName
+ * @returns The entries tagged with any of the terms (possibly none), or `error` when any page failed to load
+ *
+ * @example
+ * // Every article in "Shoes" or one of its sub-categories
+ * const result = await getEntriesByTaxonomy<IBlogPost>({
+ *   contentTypeUid: 'blog_post',
+ *   taxonomyUid: 'product_category',
+ *   termUids: 'shoes',
+ * });
+ */
+export const getEntriesByTaxonomy = cache(async <T>({
+  contentTypeUid,
+  taxonomyUid,
+  termUids,
+  includeDescendants = true,
+  levels,
+  referencesToInclude = '',
+  locale,
+  siteName,
+}: GetEntriesByTaxonomy): Promise<FetchResult<FindResponse<T & contentstack.Utils.EntryModel>>> => {
+  if (!contentTypeUid || !taxonomyUid || !termUids || termUids.length === 0) return notFoundResult();
+
+  const localeToUse = locale || getCurrentLanguage();
+
+  try {
+    const site = await resolveSite(siteName);
+
+    const entries = await collectPages(
+      paginateEntries<T & contentstack.Utils.EntryModel>(
+        {
+          contentTypeUid,
+          locale: localeToUse,
+          referencesToInclude,
+          includeFallback: true,
+          taxonomies: [
+            {
+              taxonomyUid,
+              termUids: Array.isArray(termUids) ? termUids : [termUids],
+              includeDescendants,
+              levels,
+            },
+          ],
+        },
+        // Moving or deleting terms changes which entries match descendant terms
+        [
+          cacheTags.list(contentTypeUid),
+          cacheTags.list(contentTypeUid, localeToUse),
+          cacheTags.taxonomy(taxonomyUid),
+        ],
+        site
+      )
+    );
 
     if (entries.entries) {
-      addEditableTagsToEntries(entries.entries, contentTypeUid);
+      await addEditableTagsToEntries(entries.entries, contentTypeUid);
     }
 
-    return entries;
+    return foundResult(entries);
   } catch (err) {
-    console.error(`Error while fetching entries for content type "${contentTypeUid}" (locale: ${locale || getCurrentLanguage()}):`, err);
-    return undefined;
+    const message = `Error while fetching entries for content type "${contentTypeUid}" tagged with "${taxonomyUid}" terms ${Array.isArray(termUids) ? termUids.join(', ') : termUids} (locale: ${localeToUse})`;
+    logger.error(message, {
+      contentType: contentTypeUid,
+      locale: localeToUse,
+      taxonomy: taxonomyUid,
+      error: err,
+    });
+    return errorResult(message, err);
   }
 });
 
 /**
- * Function to fetch all slugs for a content type
- * @param params - Object containing contentTypeUid and locale
- * @returns The fetched slugs or undefined
+ * Function to stream every entry of a content type, one API page at a time.
+ * Use this instead of getEntries for large content types to avoid holding every entry in memory.
+ * Errors are not caught, so the caller can tell an incomplete listing from an empty one.
+ * @param params - Object containing contentTypeUid, referencesToInclude, locale, siteName and optional fields to return
+ * @returns Async generator yielding each entry
+ *
+ * @example
+ * for await (const page of iterateEntries<IPage>({ contentTypeUid: 'page', only: ['url'] })) {
+ *   console.log(page.url);
+ * }
+ */
+export async function* iterateEntries<T>({
+  contentTypeUid,
+  referencesToInclude = '',
+  locale,
+  siteName,
+  only,
+}: Pick<GetEntries, 'contentTypeUid' | 'referencesToInclude' | 'locale' | 'siteName'> & {
+  only?: Array<string>;
+}): AsyncGenerator<T & contentstack.Utils.EntryModel> {
+  if (!contentTypeUid) return;
+
+  const localeToUse = locale || getCurrentLanguage();
+  const site = await resolveSite(siteName);
+  const pages = paginateEntries<T & contentstack.Utils.EntryModel>(
+    {
+      contentTypeUid,
+      locale: localeToUse,
+      referencesToInclude,
+      includeFallback: true,
+      only,
+    },
+    [cacheTags.list(contentTypeUid), cacheTags.list(contentTypeUid, localeToUse)],
+    site
+  );
+
+  for await (const entries of pages) {
+    await addEditableTagsToEntries(entries, contentTypeUid);
+    yield* entries;
+  }
+}
+
+/**
+ * Function to fetch all slugs for a content type, paging past the 100-entry API limit
+ * @param params - Object containing contentTypeUid, locale and siteName
+ * @returns The slugs (possibly none), or `error` when any page failed to load
  */
 export const getAllSlugs = cache(async <T>({
   contentTypeUid = 'page',
   locale,
-}: Pick<GetEntries, 'contentTypeUid'> & { locale?: string }) => {
-  if (!contentTypeUid) return undefined;
+  siteName,
+}: Pick<GetEntries, 'contentTypeUid' | 'siteName'> & { locale?: string }): Promise<
+  FetchResult<FindResponse<T & contentstack.Utils.EntryModel>>
+> => {
+  if (!contentTypeUid) return notFoundResult();
 
   try {
     const localeToUse = locale || getCurrentLanguage();
-    const slugs = await stack
-      .contentType(contentTypeUid)
-      .entry()
-      .locale(localeToUse)
-      .only('url')
-      .query()
-      .find<T & contentstack.Utils.EntryModel>();
-
-    return slugs;
+    const site = await resolveSite(siteName);
+    const slugs = await collectPages(
+      paginateEntries<T & contentstack.Utils.EntryModel>(
+        {
+          contentTypeUid,
+          locale: localeToUse,
+          only: ['url'],
+        },
+        [cacheTags.list(contentTypeUid), cacheTags.list(contentTypeUid, localeToUse)],
+        site
+      )
+    );
+
+    return foundResult(slugs);
   } catch (err) {
-    console.error(`Error while fetching slugs for content type "${contentTypeUid}" (locale: ${locale || getCurrentLanguage()}):`, err);
-    return undefined;
+    const message = `Error while fetching slugs for content type "${contentTypeUid}" (locale: ${locale || getCurrentLanguage()})`;
+    logger.error(message, { contentType: contentTypeUid, locale: locale || getCurrentLanguage(), error: err });
+    return errorResult(message, err);
   }
 });
 
 /**
  * Fetches site settings entry from Contentstack
  * @param contentTypeUid - The content type UID for site settings (default: 'site_settings')
- * @returns The site settings entry if found, or undefined if no entry exists or an error occurs
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @param locale - Optional locale, falling back to the default locale (defaults to the default locale of the site)
+ * @returns The site settings entry, `not-found` when no entry exists, or `error` when the fetch failed
  */
-export const getSiteSettings = cache(async (contentTypeUid: string = 'site_settings'): Promise<(ISiteSettings & contentstack.Utils.EntryModel) | undefined> => {
-  if (!contentTypeUid) return undefined;
+export const getSiteSettings = cache(async (contentTypeUid: string = 'site_settings', siteName?: string, locale?: string): Promise<FetchResult<ISiteSettings & contentstack.Utils.EntryModel>> => {
+  if (!contentTypeUid) return notFoundResult();
 
 
   try {
-    const siteSettings = await stack
-      .contentType(contentTypeUid)
-      .entry()
-      .locale(DEFAULT_LOCALE)
-      .query()
-      .find<ISiteSettings & contentstack.Utils.EntryModel>();
+    const site = await resolveSite(siteName);
+    const localeToUse = locale || site.defaultLocale;
+    const siteSettings = await findEntriesWithTags<ISiteSettings & contentstack.Utils.EntryModel>(
+      {
+        contentTypeUid,
+        locale: localeToUse,
+        includeFallback: true,
+      },
+      [cacheTags.contentType(contentTypeUid), cacheTags.contentType(contentTypeUid, localeToUse)],
+      site
+    );
 
     if (siteSettings.entries && siteSettings.entries.length > 0) {
-      return siteSettings.entries[0];
+      return foundResult(siteSettings.entries[0]);
     }
 
-    return undefined;
+    return notFoundResult();
   } catch (err) {
-    console.error(`Error while fetching site settings for content type "${contentTypeUid}":`, err);
-    return undefined;
+    const message = `Error while fetching site settings for content type "${contentTypeUid}"`;
+    logger.error(message, { contentType: contentTypeUid, error: err });
+    return errorResult(message, err);
   }
 });
 
 /**
  * Function to fetch a single entry by UID
- * @param params - Object containing contentTypeUid, entryUid, and referencesToInclude
- * @returns The fetched entry or undefined
+ * @param params - Object containing contentTypeUid, entryUid, referencesToInclude, locale and siteName
+ * @returns The entry, `not-found` when it does not exist in the locale, or `error` when the fetch failed
  */
 export const getEntryByUid = cache(async ({
   contentTypeUid,
   entryUid,
   referencesToInclude = '',
   locale,
-}: Pick<GetEntryByUid, 'contentTypeUid' | 'entryUid' | 'referencesToInclude' | 'locale'>) => {
-  if (!entryUid || !contentTypeUid) return undefined;
+  siteName,
+}: Pick<GetEntryByUid, 'contentTypeUid' | 'entryUid' | 'referencesToInclude' | 'locale' | 'siteName'>): Promise<
+  FetchResult<contentstack.Utils.EntryModel>
+> => {
+  if (!entryUid || !contentTypeUid) return notFoundResult();
 
   try {
-    const entryQuery = stack.contentType(contentTypeUid).entry(entryUid);
-
-    if (referencesToInclude) {
-      entryQuery.includeReference(referencesToInclude);
-    }
-
     const localeToUse = locale || getCurrentLanguage();
-    const entry = await entryQuery.locale(localeToUse).fetch();
-    addEditableTagsIfPreview(entry, contentTypeUid, localeToUse);
-    return entry;
+    const site = await resolveSite(siteName);
+    const entry = await fetchEntryWithTags<contentstack.Utils.EntryModel>(
+      {
+        contentTypeUid,
+        entryUid,
+        locale: localeToUse,
+        referencesToInclude,
+      },
+      [cacheTags.entry(entryUid)],
+      site
+    );
+    if (!entry) return notFoundResult();
+
+    await addEditableTagsIfPreview(entry, contentTypeUid, localeToUse);
+    return foundResult(entry);
   } catch (err) {
-    console.error(`Error while fetching entry "${entryUid}" for content type "${contentTypeUid}" (locale: ${locale || getCurrentLanguage()}):`, err);
-    return undefined;
+    // The delivery API answers 404 for unknown or unpublished entries
+    if (isNotFoundError(err)) return notFoundResult();
+
+    const message = `Error while fetching entry "${entryUid}" for content type "${contentTypeUid}" (locale: ${locale || getCurrentLanguage()})`;
+    logger.error(message, {
+      contentType: contentTypeUid,
+      entryUid,
+      locale: locale || getCurrentLanguage(),
+      error: err,
+    });
+    return errorResult(message, err);
   }
 });
 
 /**
  * Function to fetch multiple entries by their UIDs
- * @param params - Object containing contentTypeUid, entryUids, referencesToInclude, and locale
- * @returns The fetched entries sorted by the order of entryUids or undefined
+ * @param params - Object containing contentTypeUid, entryUids, referencesToInclude, locale and siteName
+ * @returns The entries found, sorted by the order of entryUids, or `error` when the fetch failed
  */
 export const getEntriesByUids = cache(async <T>({
   contentTypeUid,
   entryUids,
   referencesToInclude,
   locale,
+  siteName,
 }: {
   entryUids?: string | Array<string>;
   locale?: string;
-} & Pick<GetEntryByUid, 'contentTypeUid' | 'referencesToInclude'>) => {
-  if (!entryUids || !contentTypeUid) return undefined;
+} & Pick<GetEntryByUid, 'contentTypeUid' | 'referencesToInclude' | 'siteName'>): Promise<
+  FetchResult<FindResponse<T & contentstack.Utils.EntryModel>>
+> => {
+  if (!entryUids || !contentTypeUid) return notFoundResult();
 
   try {
-    const entry = stack.contentType(contentTypeUid).entry();
-
-    if (referencesToInclude) {
-      entry.includeReference(referencesToInclude);
-    }
-
     const localeToUse = locale || getCurrentLanguage();
-    let entryQuery = entry.locale(localeToUse).query();
+    const site = await resolveSite(siteName);
 
-    entryQuery = entryQuery.where('uid', QueryOperation.INCLUDES, entryUids);
+    const uids = Array.isArray(entryUids) ? entryUids : [entryUids];
 
-    const response = await entryQuery.find<T & contentstack.Utils.EntryModel>();
+    const response = await findEntriesWithTags<T & contentstack.Utils.EntryModel>(
+      {
+        contentTypeUid,
+        locale: localeToUse,
+        referencesToInclude,
+        where: { uid: uids },
+      },
+      uids.map((uid) => cacheTags.entry(uid)),
+      site
+    );
 
     if (response.entries && Array.isArray(response.entries) && Array.isArray(entryUids)) {
       if (entryUids.length <= 1 || response.entries.length <= 1) {
-        addEditableTagsToEntries(response.entries, contentTypeUid);
-        return response;
+        await addEditableTagsToEntries(response.entries, contentTypeUid);
+        return foundResult(response);
       }
 
       const entryMap = new Map<string, (typeof response.entries)[number]>();
@@ -275,12 +563,18 @@ export const getEntriesByUids = cache(async <T>({
       }
 
       response.entries = sortedEntries;
-      addEditableTagsToEntries(response.entries, contentTypeUid);
+      await addEditableTagsToEntries(response.entries, contentTypeUid);
     }
 
-    return response;
+    return foundResult(response);
   } catch (err) {
-    console.error(`Error while fetching entries for UIDs ${Array.isArray(entryUids) ? entryUids.join(', ') : entryUids} in content type "${contentTypeUid}" (locale: ${locale || getCurrentLanguage()}):`, err);
-    return undefined;
+    const message = `Error while fetching entries for UIDs ${Array.isArray(entryUids) ? entryUids.join(', ') : entryUids} in content type "${contentTypeUid}" (locale: ${locale || getCurrentLanguage()})`;
+    logger.error(message, {
+      contentType: contentTypeUid,
+      entryUid: Array.isArray(entryUids) ? entryUids.join(',') : entryUids,
+      locale: locale || getCurrentLanguage(),
+      error: err,
+    });
+    return errorResult(message, err);
   }
 });
\ No newline at end of file
@@ -0,0 +1,70 @@
+/**
+ * Experiments
+ *
+ * A/B experiments are entries of the `experiment` content type: a control URL, and variant
+ * entries with traffic weights. The middleware assigns each visitor a sticky variant (see
+ * lib/experiments/middleware-experiments.ts) and passes it on in the EXPERIMENT_HEADER request
+ * header; these helpers read the experiments and the assignment on the server.
+ */
+
+// Global
+import { headers } from 'next/headers';
+import { cache } from 'react';
+
+// Local
+import {
+  EXPERIMENT_CONTENT_TYPE,
+  EXPERIMENT_HEADER,
+  ExperimentService,
+  type Experiment,
+  type ExperimentAssignment,
+  type ExperimentEntry,
+} from '../services/experiment-service';
+import { getEntries } from './entries';
+import { resolveSite } from './site';
+
+/**
+ * Fetch the running experiments of a site
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @returns The active experiments with at least one variant receiving traffic
+ * @throws The error of the content source
+ */
+export const getExperiments = cache(async (siteName?: string): Promise<Array<Experiment>> => {
+  const site = await resolveSite(siteName);
+  const result = await getEntries<ExperimentEntry>({
+    contentTypeUid: EXPERIMENT_CONTENT_TYPE,
+    locale: site.defaultLocale,
+    siteName: site.name,
+  });
+
+  if (result.status === 'error') {
+    throw result.error;
+  }
+
+  const entries = result.status === 'found' ? result.data.entries || [] : [];
+
+  return entries
+    .map((entry) => ExperimentService.fromEntry(entry))
+    .filter((experiment): experiment is Experiment => !!experiment);
+});
+
+/**
+ * Get the experiment variant the middleware assigned the current request to
+ * @returns The assignment, or null outside experiments
+ */
+export const getExperimentAssignment = cache(async (): Promise<ExperimentAssignment | null> => {
+  return ExperimentService.parse((await headers()).get(EXPERIMENT_HEADER));
+});
+
+/**
+ * Get the control URL of the experiment an entry is a variant of, so variant entries that
+ * have their own URL are canonicalized to the control page
+ * @param entryUid - The UID of the page entry
+ * @returns The control URL, or undefined when the entry is no variant of a running experiment
+ */
+export async function getExperimentControlUrl(entryUid: string): Promise<string | undefined> {
+  const experiments = await getExperiments();
+
+  return experiments.find(({ variants }) => variants.some((variant) => variant.entryUid === entryUid))
+    ?.controlUrl;
+}
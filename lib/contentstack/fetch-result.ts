@@ -0,0 +1,101 @@
+/**
+ * Result of a content fetcher.
+ * Lets callers tell content that does not exist (`not-found`) from a CMS that could not
+ * be reached (`error`), so outages are not rendered as 404 pages.
+ */
+export type FetchResult<T> =
+  | { status: 'found'; data: T }
+  | { status: 'not-found' }
+  | { status: 'error'; error: ContentFetchError };
+
+/**
+ * Error returned by a content fetcher when Contentstack could not answer the query
+ */
+export class ContentFetchError extends Error {
+  /** HTTP status returned by Contentstack (0 when no response was received) */
+  readonly statusCode?: number;
+  /** Whether the same request may succeed later (network failures, 408, 429 and 5xx responses) */
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    { cause, statusCode, retryable }: { cause?: unknown; statusCode?: number; retryable: boolean }
+  ) {
+    super(message, { cause });
+    this.name = 'ContentFetchError';
+    this.statusCode = statusCode;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Reads the HTTP status of an error thrown by the delivery SDK (APIError) or a content source
+ * @param error - The thrown error
+ * @returns The status, or undefined when the error carries none
+ */
+export function getErrorStatusCode(error: unknown): number | undefined {
+  if (typeof error !== 'object' || error === null) return undefined;
+
+  const { status, statusCode } = error as { status?: unknown; statusCode?: unknown };
+  if (typeof status === 'number') return status;
+  if (typeof statusCode === 'number') return statusCode;
+  return undefined;
+}
+
+/**
+ * Checks if an error thrown while fetching content means the entry does not exist
+ * @param error - The thrown error
+ */
+export function isNotFoundError(error: unknown): boolean {
+  return getErrorStatusCode(error) === 404;
+}
+
+/**
+ * Checks if a request that failed with the given status may succeed when retried
+ * @param statusCode - The HTTP status, 0 or undefined when no response was received
+ */
+export function isRetryableStatus(statusCode?: number): boolean {
+  return !statusCode || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+/**
+ * Creates a `found` result
+ * @param data - The fetched content
+ */
+export function foundResult<T>(data: T): FetchResult<T> {
+  return { status: 'found', data };
+}
+
+/**
+ * Creates a `not-found` result
+ */
+export function notFoundResult<T>(): FetchResult<T> {
+  return { status: 'not-found' };
+}
+
+/**
+ * Creates an `error` result from an error thrown by a content source
+ * @param message - Description of the failed fetch
+ * @param cause - The thrown error
+ */
+export function errorResult<T>(message: string, cause: unknown): FetchResult<T> {
+  const statusCode = getErrorStatusCode(cause);
+
+  return {
+    status: 'error',
+    error: new ContentFetchError(message, {
+      cause,
+      statusCode,
+      retryable: isRetryableStatus(statusCode),
+    }),
+  };
+}
+
+/**
+ * Get the content of a result, or undefined when nothing was found or the fetch failed.
+ * For callers that render nothing in both cases (e.g. optional site chrome)
+ * @param result - The fetcher result
+ */
+export function getResultData<T>(result: FetchResult<T>): T | undefined {
+  return result.status === 'found' ? result.data : undefined;
+}
@@ -0,0 +1,141 @@
+/**
+ * Contentstack GraphQL Client
+ *
+ * Sends queries to the GraphQL Content Delivery API of a site's stack, behind the same timeout,
+ * retry and circuit breaker policy as the REST delivery source (resilience.ts).
+ *
+ * Set CONTENTSTACK_DELIVERY_API=graphql to fetch pages through GraphQL (see graphql-pages.ts).
+ *
+ * @see https://www.contentstack.com/docs/developers/apis/graphql-content-delivery-api
+ */
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { getEndpoints, isPreviewModeEnabled } from './delivery-stack';
+import {
+  createCircuitBreaker,
+  getResiliencePolicy,
+  withRetry,
+  withTimeout,
+} from './resilience';
+
+/**
+ * Thrown when the GraphQL API answers with an HTTP error or with query errors
+ */
+export class GraphQLRequestError extends Error {
+  /** HTTP status of the response, 0 when no response was received */
+  readonly status: number;
+  readonly errors?: Array<{ message: string }>;
+
+  constructor(message: string, status: number, errors?: Array<{ message: string }>) {
+    super(message);
+    this.name = 'GraphQLRequestError';
+    this.status = status;
+    this.errors = errors;
+  }
+}
+
+interface GraphQLResponse<T> {
+  data?: T;
+  errors?: Array<{ message: string }>;
+}
+
+// One circuit breaker per site, as sites may read from different stacks
+const circuitBreakers = new Map<string, ReturnType<typeof createCircuitBreaker>>();
+
+/**
+ * Checks if pages are fetched through the GraphQL API (CONTENTSTACK_DELIVERY_API=graphql).
+ * Preview mode and the offline content sources always use the REST API: live preview edit
+ * tags and the local exports only exist for REST responses.
+ */
+export function isGraphQLDeliveryEnabled(): boolean {
+  const deliveryApi = (process.env.CONTENTSTACK_DELIVERY_API || 'rest').toLowerCase();
+  const contentSource = (process.env.CONTENTSTACK_CONTENT_SOURCE || 'delivery').toLowerCase();
+
+  return deliveryApi === 'graphql' && contentSource === 'delivery' && !isPreviewModeEnabled();
+}
+
+/**
+ * Builds the GraphQL endpoint URL of a site's stack and environment
+ */
+function getGraphQLUrl(site: SiteDefinition): string {
+  const baseUrl =
+    process.env.CONTENTSTACK_GRAPHQL_ENDPOINT || `https://${getEndpoints().graphql}`;
+  const apiKey = site.stack?.apiKey || process.env.CONTENTSTACK_API_KEY;
+  const environment =
+    site.stack?.environment || process.env.NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT || '';
+
+  return `${baseUrl.replace(/\/$/, '')}/stacks/${apiKey}?environment=${encodeURIComponent(environment)}`;
+}
+
+/**
+ * Sends one query to the GraphQL API
+ */
+async function sendQuery<T>(
+  site: SiteDefinition,
+  query: string,
+  variables: Record<string, unknown>
+): Promise<T> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    access_token: (site.stack?.deliveryToken || process.env.CONTENTSTACK_DELIVERY_TOKEN) as string,
+  };
+  const branch = site.stack?.branch || process.env.NEXT_PUBLIC_CONTENTSTACK_BRANCH;
+  if (branch) headers.branch = branch;
+
+  let response: Response;
+  try {
+    response = await fetch(getGraphQLUrl(site), {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ query, variables }),
+      // Responses are cached with their cache tags by the caller
+      cache: 'no-store',
+    });
+  } catch (error) {
+    throw new GraphQLRequestError(
+      `GraphQL request failed: ${error instanceof Error ? error.message : String(error)}`,
+      0
+    );
+  }
+
+  const body = (await response.json().catch(() => ({}))) as GraphQLResponse<T>;
+
+  if (!response.ok || body.errors?.length || !body.data) {
+    const message = body.errors?.map((error) => error.message).join('; ') || response.statusText;
+    // Query errors are reported with a 200 response: treat them as a bad request
+    throw new GraphQLRequestError(
+      `GraphQL query failed: ${message}`,
+      response.ok ? 400 : response.status,
+      body.errors
+    );
+  }
+
+  return body.data;
+}
+
+/**
+ * Runs a GraphQL query against the stack of a site
+ * @param site - The site whose stack answers the query
+ * @param query - The GraphQL query
+ * @param variables - The query variables
+ * @returns The `data` of the response
+ * @throws GraphQLRequestError when the request or the query fails
+ */
+export function queryGraphQL<T>(
+  site: SiteDefinition,
+  query: string,
+  variables: Record<string, unknown> = {}
+): Promise<T> {
+  const policy = getResiliencePolicy();
+  let breaker = circuitBreakers.get(site.name);
+
+  if (!breaker) {
+    breaker = createCircuitBreaker(policy);
+    circuitBreakers.set(site.name, breaker);
+  }
+
+  return breaker.execute(() =>
+    withRetry(() => withTimeout(() => sendQuery<T>(site, query, variables), policy.timeoutMs), policy)
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * GraphQL Selections
+ *
+ * Field selections of the global fields shared by content types and components, used to build
+ * the GraphQL page queries (graphql-pages.ts). Each selection lists the fields of the global
+ * field itself, e.g. `banner_image { ${ENHANCED_IMAGE_FIELDS} }`.
+ *
+ * File fields are selected through their `<field>Connection`, which the normalizer collapses
+ * back to the asset object returned by the REST API.
+ */
+
+/** Asset fields read by ImageWrapper and the metadata builders, and the UID the page is tagged with */
+export const ASSET_FIELDS = `
+  edges {
+    node {
+      system { uid }
+      url
+      title
+      filename
+      content_type
+      dimension { width height }
+    }
+  }
+`;
+
+/** enhanced_image global field */
+export const ENHANCED_IMAGE_FIELDS = `
+  imageConnection { ${ASSET_FIELDS} }
+  alternate_text
+  responsive_image
+  dimensions { image_width image_height }
+  image_fit_options
+  image_position_options
+  rounded_image
+`;
+
+/** enhanced_cta global field */
+export const ENHANCED_CTA_FIELDS = `
+  link { title href }
+  opens_in_new_tab
+  cta_variant
+  cta_size
+`;
+
+/** seo global field */
+export const SEO_FIELDS = `
+  title
+  description
+  keywords
+  robots { index follow max_image_preview }
+  opengraph {
+    type
+    title
+    description
+    url { title href }
+    site_name
+    imageConnection { ${ASSET_FIELDS} }
+  }
+  twitter {
+    title
+    description
+    imageConnection { ${ASSET_FIELDS} }
+    site
+    card_type
+  }
+  custom_meta_tags { name content }
+`;
+
+/** sitemap_setting global field */
+export const SITEMAP_SETTING_FIELDS = `
+  change_frequency
+  priority
+`;
+
+/** taxonomy field: the terms assigned to the entry, read for metadata and the data layer */
+export const TAXONOMY_FIELDS = `
+  taxonomies { taxonomy_uid term_uid }
+`;
@@ -0,0 +1,239 @@
+/**
+ * GraphQL Page Queries
+ *
+ * Alternative to the REST page query of getPage, which resolves every reference with
+ * `include_all` and returns every field. The GraphQL query selects only:
+ * - the page fields declared by the page type (`graphqlFields` in page-types.ts), and the terms
+ *   of its taxonomy field (`hasTaxonomies`)
+ * - for the blocks field, the fragment of each registered component whose block the page
+ *   actually contains (see ComponentMapper.getFragment)
+ *
+ * Pages with blocks take two requests: a lightweight query listing the block types of the page,
+ * then the page query built from their fragments. Responses are normalized to the shape of
+ * the REST API, so components render the same data whichever API fetched it.
+ *
+ * Enabled with CONTENTSTACK_DELIVERY_API=graphql (see isGraphQLDeliveryEnabled).
+ */
+
+// Global
+import type { FindResponse } from '@contentstack/delivery-sdk';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { toPascalCase } from '../../utils/string-utils';
+import { createLogger } from '../logger/logger';
+import { isGraphQLDeliveryEnabled, queryGraphQL } from './graphql-client';
+import { TAXONOMY_FIELDS } from './graphql-fragments';
+import { getPageType, type PageTypeDefinition } from './page-types';
+
+const logger = createLogger('graphql-pages');
+
+/**
+ * Query options for fetching a routable page by its URL
+ */
+export interface GraphQLPageQuery {
+  contentTypeUid: string;
+  locale: string;
+  url: string;
+}
+
+type GraphQLNode = Record<string, any>;
+
+interface PageItemsResponse {
+  [rootField: string]: { items?: Array<GraphQLNode> } | undefined;
+}
+
+const SYSTEM_FIELDS = 'system { uid content_type_uid locale created_at updated_at version }';
+
+/**
+ * Checks if pages of a content type are fetched through the GraphQL API
+ * @param contentTypeUid - The content type UID
+ */
+export function isGraphQLPageType(contentTypeUid: string): boolean {
+  return isGraphQLDeliveryEnabled() && !!getPageType(contentTypeUid)?.graphqlFields;
+}
+
+/**
+ * Prefix of the GraphQL type names of the blocks of a page type (e.g. PageComponents)
+ */
+function getBlockTypePrefix(pageType: PageTypeDefinition): string {
+  return toPascalCase(pageType.contentTypeUid) + toPascalCase(pageType.blocksField || '');
+}
+
+/**
+ * Reads the block UID from the GraphQL type name of a block
+ * (e.g. PageComponentsHeroBanner to hero_banner)
+ */
+function getBlockUid(pageType: PageTypeDefinition, typeName: string): string {
+  return typeName
+    .slice(getBlockTypePrefix(pageType).length)
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .toLowerCase();
+}
+
+/**
+ * Builds a query for the first entry of a content type with the given URL
+ */
+function buildQuery(name: string, contentTypeUid: string, selection: string): string {
+  return `
+    query ${name}($url: String!, $locale: String!) {
+      all_${contentTypeUid}(where: { url: $url }, locale: $locale, limit: 1) {
+        items { ${selection} }
+      }
+    }
+  `;
+}
+
+/**
+ * Builds the selection of the blocks field from the fragments of the registered components.
+ * Blocks without a registered component only select their type name and render as NotFound.
+ * @param pageType - The page type definition
+ * @param blockUids - UIDs of the blocks the page contains
+ */
+async function buildBlocksSelection(
+  pageType: PageTypeDefinition,
+  blockUids: Array<string>
+): Promise<string> {
+  // Loaded on demand: next.config.ts imports the fetchers (through csp-setting.ts) and cannot
+  // load the React components the mapper imports
+  const { componentMapperInstance } = await import('../../utils/ComponentMapper');
+  const typePrefix = getBlockTypePrefix(pageType);
+
+  const fragments = blockUids.map((blockUid) => {
+    const fragment = componentMapperInstance.getFragment(blockUid);
+
+    if (!fragment) {
+      logger.debug('No GraphQL fragment registered for block', {
+        contentType: pageType.contentTypeUid,
+        block: blockUid,
+      });
+      return '';
+    }
+
+    return `... on ${typePrefix}${toPascalCase(blockUid)} { ${blockUid} { ${fragment} } }`;
+  });
+
+  return `${pageType.blocksField} { __typename ${fragments.join(' ')} }`;
+}
+
+/**
+ * Normalizes a GraphQL response value to the shape of the REST API:
+ * - `system` fields are moved to the entry (uid, locale, _version, ...)
+ * - `<field>Connection { edges { node } }` becomes `<field>`: referenced entries as an array,
+ *   a file field as its single asset
+ * - `__typename` is removed
+ */
+function normalize(value: unknown): any {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (!value || typeof value !== 'object') return value;
+
+  const normalized: GraphQLNode = {};
+
+  Object.entries(value as GraphQLNode).forEach(([key, fieldValue]) => {
+    if (key === '__typename') return;
+
+    if (key === 'system' && fieldValue) {
+      const { uid, content_type_uid, locale, created_at, updated_at, version } = fieldValue;
+      Object.assign(normalized, { uid, locale, created_at, updated_at, _version: version });
+      if (content_type_uid) normalized._content_type_uid = content_type_uid;
+      return;
+    }
+
+    if (key.endsWith('Connection') && fieldValue && Array.isArray(fieldValue.edges)) {
+      const nodes: Array<GraphQLNode> = fieldValue.edges.map(({ node }: GraphQLNode) => node);
+      // Assets only select the UID of their system fields
+      const isEntryReference = nodes.some((node) => node?.system?.content_type_uid);
+      const field = key.slice(0, -'Connection'.length);
+
+      normalized[field] = isEntryReference ? nodes.map(normalize) : normalize(nodes[0] ?? null);
+      return;
+    }
+
+    normalized[key] = normalize(fieldValue);
+  });
+
+  return normalized;
+}
+
+/**
+ * Normalizes the items of a blocks field to the `{ [block uid]: fields }` shape of the REST API
+ */
+function normalizeBlocks(pageType: PageTypeDefinition, blocks: Array<GraphQLNode> = []) {
+  return blocks.map((block) => {
+    const blockUid = getBlockUid(pageType, String(block.__typename));
+    return { [blockUid]: {}, ...normalize(block) };
+  });
+}
+
+/**
+ * Lists the UIDs of the blocks used by a page, in order of first appearance
+ * @returns The block UIDs, or undefined when no entry has this URL
+ */
+async function findBlockUids(
+  pageType: PageTypeDefinition,
+  { contentTypeUid, locale, url }: GraphQLPageQuery,
+  site: SiteDefinition
+): Promise<Array<string> | undefined> {
+  const data = await queryGraphQL<PageItemsResponse>(
+    site,
+    buildQuery('PageBlocks', contentTypeUid, `${pageType.blocksField} { __typename }`),
+    { url, locale }
+  );
+  const item = data[`all_${contentTypeUid}`]?.items?.[0];
+  if (!item) return undefined;
+
+  const blocks: Array<GraphQLNode> = item[pageType.blocksField!] || [];
+  const uids = blocks.map(({ __typename }) => getBlockUid(pageType, String(__typename)));
+
+  return Array.from(new Set(uids));
+}
+
+/**
+ * Fetches a routable page by its URL through the GraphQL API
+ * @param query - The content type, locale and URL of the page
+ * @param site - The site whose stack answers the query
+ * @returns A find response holding the page entry, or no entry when no page has this URL
+ * @throws When the content type has no GraphQL selection, or when a query fails
+ */
+export async function findPageWithGraphQL<T>(
+  query: GraphQLPageQuery,
+  site: SiteDefinition
+): Promise<FindResponse<T>> {
+  const { contentTypeUid, locale, url } = query;
+  const pageType = getPageType(contentTypeUid);
+
+  if (!pageType?.graphqlFields) {
+    throw new Error(`Content type "${contentTypeUid}" has no GraphQL selection in page-types.ts`);
+  }
+
+  let blocksSelection = '';
+
+  if (pageType.blocksField) {
+    const blockUids = await findBlockUids(pageType, query, site);
+    if (!blockUids) return { entries: [] };
+
+    blocksSelection = await buildBlocksSelection(pageType, blockUids);
+  }
+
+  const taxonomySelection = pageType.hasTaxonomies ? TAXONOMY_FIELDS : '';
+
+  const data = await queryGraphQL<PageItemsResponse>(
+    site,
+    buildQuery(
+      'Page',
+      contentTypeUid,
+      `${SYSTEM_FIELDS} ${pageType.graphqlFields} ${taxonomySelection} ${blocksSelection}`
+    ),
+    { url, locale }
+  );
+  const item = data[`all_${contentTypeUid}`]?.items?.[0];
+  if (!item) return { entries: [] };
+
+  const entry = normalize(item);
+
+  if (pageType.blocksField) {
+    entry[pageType.blocksField] = normalizeBlocks(pageType, item[pageType.blocksField]);
+  }
+
+  return { entries: [entry as T] };
+}
@@ -0,0 +1,60 @@
+/**
+ * Regression test for the request-scoped language store.
+ * Run with the react-server condition (npm test), so React `cache` is scoped to each render
+ * like in the app router.
+ */
+
+// Global
+import assert from 'node:assert/strict';
+import { PassThrough } from 'node:stream';
+import { test } from 'node:test';
+import { createElement, type ReactElement } from 'react';
+import { renderToPipeableStream } from 'next/dist/compiled/react-server-dom-webpack/server.node';
+
+// Local
+import { DEFAULT_LOCALE } from '../../constants/locales';
+import { extractAndSetLanguage, getCurrentLanguage } from './language';
+
+/**
+ * Server component setting the language of its render, then reading it back after
+ * yielding to the other renders
+ */
+async function LocalizedPage({ locale, delayMs }: { locale: string; delayMs: number }) {
+  extractAndSetLanguage(locale);
+  await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+  return createElement('p', null, `language:${getCurrentLanguage()}`);
+}
+
+/**
+ * Render a server component to its RSC payload
+ */
+function render(element: ReactElement): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const output = new PassThrough();
+    let payload = '';
+
+    output.on('data', (chunk) => (payload += chunk));
+    output.on('end', () => resolve(payload));
+    renderToPipeableStream(element, {}, { onError: reject }).pipe(output);
+  });
+}
+
+test('concurrent renders in different locales keep their own language', async () => {
+  const otherLocale = 'es';
+
+  // The first render sets its language first and reads it last, after the second one set its own
+  const [slowRender, fastRender] = await Promise.all([
+    render(createElement(LocalizedPage, { locale: otherLocale, delayMs: 30 })),
+    render(createElement(LocalizedPage, { locale: DEFAULT_LOCALE, delayMs: 5 })),
+  ]);
+
+  assert.match(slowRender, new RegExp(`language:${otherLocale}"`));
+  assert.match(fastRender, new RegExp(`language:${DEFAULT_LOCALE}"`));
+});
+
+test('the language falls back to the default locale outside a render', () => {
+  extractAndSetLanguage('es');
+
+  assert.equal(getCurrentLanguage(), DEFAULT_LOCALE);
+});
@@ -1,21 +1,34 @@
+// Global
+import { cache } from 'react';
+
 // Importing the language service
 import { DEFAULT_LOCALE } from '../../constants/locales';
 import { LanguageService } from '../../lib/services/language-service';
 
+/**
+ * Request-scoped language store.
+ * React `cache` creates one store per server request, so concurrent renders in different
+ * locales never share it. Outside a React server render (route handlers, scripts) every call
+ * gets a fresh store, so the language always falls back to the default locale.
+ */
+const getRequestLanguageStore = cache((): { language: string } => ({
+  language: DEFAULT_LOCALE,
+}));
+
 /**
  * Helper function to get current language
- * @returns The current language code
+ * @returns The current language code for the request being rendered
  */
 export function getCurrentLanguage(): string {
-  return LanguageService.getInstance().getLanguage();
+  return getRequestLanguageStore().language;
 }
 
 /**
  * Helper function to set current language
- * @param language - The language code to set
+ * @param language - The language code to set for the request being rendered
  */
 export function setCurrentLanguage(language: string): void {
-  LanguageService.getInstance().setLanguage(language);
+  getRequestLanguageStore().language = language;
 }
 
 /**
@@ -37,5 +50,5 @@ export function extractAndSetLanguage(locale: string): string {
  * @returns true if the language is supported, false otherwise
  */
 export function isLanguageSupported(language: string): boolean {
-  return LanguageService.getInstance().isLanguageSupported(language);
+  return LanguageService.isLanguageSupported(language);
 }
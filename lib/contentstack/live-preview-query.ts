@@ -0,0 +1,80 @@
+/**
+ * Live Preview Query
+ *
+ * Live preview opens the page with the hash of the edited draft in the `live_preview`,
+ * `content_type_uid` and `entry_uid` query parameters. The delivery SDK applies them with
+ * livePreviewQuery, which stores them on the stack: on the shared preview stack of a site,
+ * concurrent previews would read each other's drafts. Each preview request with a hash gets a
+ * stack of its own instead, read by every fetcher for the rest of the request (see
+ * getRequestSource in cache-tags.ts).
+ *
+ * Only available to preview requests (see preview-mode.ts) with the delivery content source.
+ */
+
+// Global
+import type { LivePreviewQuery } from '@contentstack/delivery-sdk';
+import { cache } from 'react';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import type { ContentSource } from './content-source';
+import { createDeliverySource } from './delivery-source';
+import { createStack } from './delivery-stack';
+import { isPreviewRequest } from './preview-mode';
+import { withResilience } from './resilience';
+import { getTaxonomyDirectory } from './taxonomy-export';
+
+/**
+ * Query parameters sent by live preview with the page URL
+ */
+export interface LivePreviewParams {
+  live_preview?: string;
+  entry_uid?: string;
+  content_type_uid?: string;
+}
+
+/**
+ * Live preview query of the current request, set by the page from its query parameters
+ */
+const getRequestLivePreview = cache((): { query?: LivePreviewQuery } => ({}));
+
+/**
+ * Read the live preview hash of the current request from the query parameters of the page.
+ * Call it before fetching content, in the page and in generateMetadata.
+ * @param params - The query parameters of the page
+ */
+export async function setLivePreviewQuery({
+  live_preview,
+  entry_uid,
+  content_type_uid,
+}: LivePreviewParams): Promise<void> {
+  if (!live_preview || !(await isPreviewRequest())) return;
+
+  getRequestLivePreview().query = {
+    live_preview,
+    contentTypeUid: content_type_uid || '',
+    entryUid: entry_uid || '',
+  };
+}
+
+/**
+ * Get the live preview query of the current request
+ * @returns The query, or undefined outside live preview requests
+ */
+export function getLivePreviewQuery(): LivePreviewQuery | undefined {
+  return getRequestLivePreview().query;
+}
+
+/**
+ * Get the content source reading a site's drafts at a live preview hash, created once per
+ * request, site and query
+ * @param site - The site
+ * @param query - The live preview query of the request (see getLivePreviewQuery)
+ * @returns The live preview source of the request
+ */
+export const getLivePreviewSource = cache((site: SiteDefinition, query: LivePreviewQuery): ContentSource => {
+  const stack = createStack(site.stack, { preview: true });
+  stack.livePreviewQuery(query);
+
+  return withResilience(createDeliverySource(stack, getTaxonomyDirectory(site)));
+});
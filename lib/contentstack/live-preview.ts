@@ -7,13 +7,14 @@ import { stack, getEndpoints, isPreviewModeEnabled } from './delivery-stack';
 /**
  * Initialize live preview functionality
  * This should be called once during application initialization
+ * @param enable - Enable live preview (defaults to NEXT_PUBLIC_CONTENTSTACK_PREVIEW; pass true for requests in draft mode)
  */
-export function initLivePreview() {
+export function initLivePreview(enable: boolean = isPreviewModeEnabled()) {
   const endpoints = getEndpoints();
 
   ContentstackLivePreview.init({
     ssr: true, // Enabling server-side rendering for live preview
-    enable: isPreviewModeEnabled(), // Enabling live preview if specified in environment variables
+    enable, // Enabling live preview on preview deployments and in draft mode
     mode: 'builder', // Setting the mode to "builder" for visual builder
     stackSdk: stack.config as IStackSdk, // Passing the stack configuration
     stackDetails: {
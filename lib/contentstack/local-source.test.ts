@@ -0,0 +1,91 @@
+/**
+ * Checks the local content source against a stack exported with the layout of `csdx cm:stacks:export`
+ */
+
+// Global
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, test } from 'node:test';
+
+// Local
+import { createLocalSource } from './local-source';
+
+let exportDirectory: string;
+
+/**
+ * Write a JSON file of the export
+ */
+function writeExportFile(filePath: string, data: unknown) {
+  const fullPath = path.join(exportDirectory, filePath);
+  fs.mkdirSync(path.dirname(fullPath), { recursive: true });
+  fs.writeFileSync(fullPath, JSON.stringify(data));
+}
+
+before(() => {
+  exportDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'local-source-'));
+  process.env.NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT = 'development';
+
+  writeExportFile('environments/environments.json', { env: { uid: 'env', name: 'development' } });
+  writeExportFile('locales/master-locale.json', { master: { code: 'en-us', fallback_locale: null } });
+  writeExportFile('locales/locales.json', { es: { code: 'es', fallback_locale: 'en-us' } });
+  writeExportFile('content_types/page.json', {
+    uid: 'page',
+    schema: [
+      { uid: 'title', data_type: 'text' },
+      { uid: 'image', data_type: 'file' },
+    ],
+  });
+
+  // Assets are split in chunk files listed by assets.json; metadata.json is keyed by chunk file
+  const asset = { uid: 'asset_uid', url: 'https://images.example.com/image.png', filename: 'image.png' };
+  writeExportFile('assets/assets.json', { 1: 'chunk-assets.json' });
+  writeExportFile('assets/chunk-assets.json', { asset_uid: asset });
+  writeExportFile('assets/metadata.json', { 'chunk-assets.json': [{ uid: asset.uid, url: asset.url }] });
+
+  // Published in en-us; localized in es, but that version is not published
+  writeExportFile('entries/page/en-us/index.json', { 1: 'chunk.json' });
+  writeExportFile('entries/page/en-us/chunk.json', {
+    page_uid: {
+      uid: 'page_uid',
+      title: 'Hello',
+      image: 'asset_uid',
+      publish_details: [{ environment: 'env', locale: 'en-us' }],
+    },
+  });
+  writeExportFile('entries/page/es/index.json', { 1: 'chunk.json' });
+  writeExportFile('entries/page/es/chunk.json', {
+    page_uid: { uid: 'page_uid', title: 'Hola', image: 'asset_uid', publish_details: [] },
+  });
+});
+
+after(() => {
+  fs.rmSync(exportDirectory, { recursive: true, force: true });
+});
+
+test('file fields resolve to the assets of the export chunk files', async () => {
+  const source = createLocalSource(exportDirectory);
+  const entry = await source.fetchEntry<{ image: { url: string } }>({
+    contentTypeUid: 'page',
+    entryUid: 'page_uid',
+    locale: 'en-us',
+  });
+
+  assert.equal(entry?.image.url, 'https://images.example.com/image.png');
+});
+
+test('entries unpublished in a locale fall back along its fallback chain', async () => {
+  const source = createLocalSource(exportDirectory);
+  const query = { contentTypeUid: 'page', entryUid: 'page_uid', locale: 'es' };
+
+  const fallbackEntry = await source.fetchEntry<{ title: string; locale: string }>({
+    ...query,
+    includeFallback: true,
+  });
+  assert.equal(fallbackEntry?.title, 'Hello');
+  assert.equal(fallbackEntry?.locale, 'en-us');
+
+  // Without fallback, like the delivery API answering 404
+  await assert.rejects(source.fetchEntry(query), /not found/);
+});
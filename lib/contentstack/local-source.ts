@@ -0,0 +1,485 @@
+/**
+ * Local Content Source
+ *
+ * Reads entries, assets and locales from a stack exported with `npm run export-content`
+ * (the contentstack-schema folder) so the site can render without network access.
+ *
+ * Queries are answered the same way the delivery API answers them:
+ * - only entries published to the configured environment and locale are returned
+ * - unlocalized entries fall back along the locale's fallback chain
+ * - reference and file fields are resolved using the exported content type schemas
+ * - taxonomy filters match descendant terms using the exported taxonomies
+ *
+ * @security This module reads from the file system and must only run on the server.
+ */
+
+// Global
+import fs from 'fs';
+import path from 'path';
+import type { FindResponse } from '@contentstack/delivery-sdk';
+
+// Local
+import type { ContentSource, EntriesQuery, EntryQuery, TaxonomyFilter } from './content-source';
+import { buildTaxonomy, getDescendantTermUids, type ExportedTaxonomy, type Taxonomy } from './taxonomy-tree';
+
+type ExportedEntry = Record<string, any> & {
+  uid: string;
+  locale?: string;
+  publish_details?: Array<PublishDetail> | PublishDetail;
+};
+
+type PublishDetail = {
+  environment: string;
+  locale: string;
+  time?: string;
+  user?: string;
+  version?: number;
+  entry_locale?: string;
+};
+
+type SchemaField = {
+  uid: string;
+  data_type: string;
+  multiple?: boolean;
+  reference_to?: string | Array<string>;
+  schema?: Array<SchemaField>;
+  blocks?: Array<{ uid: string; schema?: Array<SchemaField> }>;
+};
+
+// Matches the delivery API maximum page size
+const MAX_LIMIT = 100;
+
+// Levels of descendants matched by `$eq_below` when no level is given
+const MAX_TAXONOMY_LEVELS = 10;
+
+/**
+ * Resolves the directory of the exported stack for a branch
+ * @param branch - The branch to read (defaults to the configured branch)
+ */
+export function getExportDirectory(branch?: string): string {
+  if (process.env.CONTENTSTACK_LOCAL_EXPORT_DIR) {
+    return path.resolve(process.env.CONTENTSTACK_LOCAL_EXPORT_DIR);
+  }
+
+  branch = branch || process.env.NEXT_PUBLIC_CONTENTSTACK_BRANCH || 'main';
+  return path.join(process.cwd(), 'contentstack-schema', branch);
+}
+
+/**
+ * Reads a JSON file, returning undefined if it does not exist
+ */
+function readJson<T>(filePath: string): T | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+}
+
+/**
+ * Reads a nested value using a dotted field path (e.g. 'seo.title')
+ */
+function getFieldValue(entry: Record<string, any>, fieldPath: string): any {
+  return fieldPath
+    .split('.')
+    .reduce((value, key) => (value === undefined || value === null ? undefined : value[key]), entry);
+}
+
+/**
+ * Creates a content source backed by the exported stack on disk
+ * @param exportDirectory - Optional override for the export directory
+ * @returns Content source that reads from the contentstack-schema folder
+ */
+export function createLocalSource(exportDirectory: string = getExportDirectory()): ContentSource {
+  const entryStores = new Map<string, Map<string, ExportedEntry>>();
+  const schemas = new Map<string, Array<SchemaField> | undefined>();
+  const taxonomies = new Map<string, Taxonomy | undefined>();
+  let fallbackLocales: Map<string, string | null> | undefined;
+  let assets: Record<string, Record<string, any>> | undefined;
+  let environmentUid: string | null | undefined;
+
+  /**
+   * Loads the locale fallback map from locales.json and master-locale.json
+   */
+  const getFallbackLocales = () => {
+    if (!fallbackLocales) {
+      fallbackLocales = new Map();
+      const files = ['master-locale.json', 'locales.json'];
+
+      for (const file of files) {
+        const locales =
+          readJson<Record<string, { code: string; fallback_locale?: string | null }>>(
+            path.join(exportDirectory, 'locales', file)
+          ) || {};
+
+        Object.values(locales).forEach((locale) => {
+          fallbackLocales?.set(locale.code, locale.fallback_locale || null);
+        });
+      }
+    }
+
+    return fallbackLocales;
+  };
+
+  /**
+   * Returns the requested locale followed by its fallback locales
+   */
+  const getLocaleChain = (locale: string): Array<string> => {
+    const chain: Array<string> = [];
+    let current: string | null | undefined = locale;
+
+    while (current && !chain.includes(current)) {
+      chain.push(current);
+      current = getFallbackLocales().get(current);
+    }
+
+    return chain;
+  };
+
+  /**
+   * Resolves the UID of the configured environment, or null to accept every environment
+   */
+  const getEnvironmentUid = () => {
+    if (environmentUid === undefined) {
+      const environmentName = process.env.NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT;
+      const environments =
+        readJson<Record<string, { uid: string; name: string }>>(
+          path.join(exportDirectory, 'environments', 'environments.json')
+        ) || {};
+
+      environmentUid =
+        Object.values(environments).find((environment) => environment.name === environmentName)
+          ?.uid || null;
+    }
+
+    return environmentUid;
+  };
+
+  /**
+   * Loads every entry of a content type that is localized in the given locale
+   */
+  const getEntryStore = (contentTypeUid: string, locale: string) => {
+    const key = `${contentTypeUid}/${locale}`;
+    let store = entryStores.get(key);
+
+    if (!store) {
+      store = new Map();
+      const localeDirectory = path.join(exportDirectory, 'entries', contentTypeUid, locale);
+      const index = readJson<Record<string, string>>(path.join(localeDirectory, 'index.json')) || {};
+
+      for (const file of Object.values(index)) {
+        const chunk = readJson<Record<string, ExportedEntry>>(path.join(localeDirectory, file)) || {};
+        Object.values(chunk).forEach((entry) => store?.set(entry.uid, entry));
+      }
+
+      entryStores.set(key, store);
+    }
+
+    return store;
+  };
+
+  /**
+   * Loads the schema of a content type, including inlined global fields
+   */
+  const getSchema = (contentTypeUid: string) => {
+    if (!schemas.has(contentTypeUid)) {
+      const contentType = readJson<{ schema: Array<SchemaField> }>(
+        path.join(exportDirectory, 'content_types', `${contentTypeUid}.json`)
+      );
+      schemas.set(contentTypeUid, contentType?.schema);
+    }
+
+    return schemas.get(contentTypeUid);
+  };
+
+  /**
+   * Loads the assets by UID. The export lists its chunk files in assets.json, each holding
+   * assets by UID; the sync store keeps them by UID in metadata.json.
+   */
+  const getAsset = (assetUid: string) => {
+    if (!assets) {
+      const assetsDirectory = path.join(exportDirectory, 'assets');
+      const chunkFiles = readJson<Record<string, string>>(path.join(assetsDirectory, 'assets.json'));
+
+      assets = chunkFiles
+        ? Object.values(chunkFiles).reduce(
+            (acc, file) => Object.assign(acc, readJson(path.join(assetsDirectory, file))),
+            {} as Record<string, Record<string, any>>
+          )
+        : readJson(path.join(assetsDirectory, 'metadata.json')) || {};
+    }
+
+    return assets[assetUid];
+  };
+
+  /**
+   * Finds the publish details of an entry for the configured environment and locale
+   */
+  const getPublishDetail = (entry: ExportedEntry, locale: string) => {
+    const details = Array.isArray(entry.publish_details)
+      ? entry.publish_details
+      : entry.publish_details
+        ? [entry.publish_details]
+        : [];
+    const environment = getEnvironmentUid();
+
+    return details.find(
+      (detail) => detail.locale === locale && (!environment || detail.environment === environment)
+    );
+  };
+
+  /**
+   * Returns the entry as the delivery API would serve it in the given locale,
+   * following the locale fallback chain for unlocalized entries
+   */
+  const getLocalizedEntry = (
+    contentTypeUid: string,
+    entryUid: string,
+    locale: string,
+    includeFallback?: boolean
+  ): ExportedEntry | undefined => {
+    for (const [index, code] of getLocaleChain(locale).entries()) {
+      const entry = getEntryStore(contentTypeUid, code).get(entryUid);
+      if (!entry) continue;
+
+      // Localized entries and entries published with fallback content are served as-is
+      const publishDetail =
+        getPublishDetail(entry, locale) ||
+        (index > 0 && includeFallback ? getPublishDetail(entry, code) : undefined);
+
+      if (publishDetail) {
+        return { ...entry, locale: code, publish_details: publishDetail };
+      }
+
+      // Unpublished in the locale: only the fallback locales may still serve it
+      if (!includeFallback) return undefined;
+    }
+
+    return undefined;
+  };
+
+  /**
+   * Collects the UIDs of every entry of a content type across the locale chain
+   */
+  const getEntryUids = (contentTypeUid: string, locale: string) => {
+    const uids = new Set<string>();
+
+    getLocaleChain(locale).forEach((code) => {
+      getEntryStore(contentTypeUid, code).forEach((_entry, uid) => uids.add(uid));
+    });
+
+    return Array.from(uids);
+  };
+
+  /**
+   * Resolves reference and file fields of a value using its schema
+   * @param value - The entry or group data to resolve
+   * @param schema - The schema describing the value
+   * @param options.paths - Reference paths to resolve (relative to the value)
+   * @param options.depth - Remaining depth when resolving every reference
+   */
+  const resolveFields = (
+    value: Record<string, any>,
+    schema: Array<SchemaField>,
+    locale: string,
+    options: { paths: Array<string>; depth: number; prefix?: string }
+  ): Record<string, any> => {
+    const resolved: Record<string, any> = { ...value };
+
+    for (const field of schema) {
+      const fieldValue = value[field.uid];
+      if (fieldValue === undefined || fieldValue === null) continue;
+
+      const fieldPath = options.prefix ? `${options.prefix}.${field.uid}` : field.uid;
+      const mapValues = (mapper: (item: any) => any) =>
+        Array.isArray(fieldValue) ? fieldValue.map(mapper) : mapper(fieldValue);
+
+      switch (field.data_type) {
+        case 'file':
+          resolved[field.uid] = mapValues((item) =>
+            typeof item === 'string' ? getAsset(item) || item : item
+          );
+          break;
+
+        case 'group':
+        case 'global_field':
+          resolved[field.uid] = mapValues((item) =>
+            resolveFields(item, field.schema || [], locale, { ...options, prefix: fieldPath })
+          );
+          break;
+
+        case 'blocks':
+          resolved[field.uid] = mapValues((item) => {
+            const blockUid = Object.keys(item)[0];
+            const block = field.blocks?.find((candidate) => candidate.uid === blockUid);
+            if (!block?.schema) return item;
+
+            return {
+              ...item,
+              [blockUid]: resolveFields(item[blockUid], block.schema, locale, {
+                ...options,
+                prefix: `${fieldPath}.${blockUid}`,
+              }),
+            };
+          });
+          break;
+
+        case 'reference': {
+          const shouldResolve = options.depth > 0 || options.paths.includes(fieldPath);
+          if (!shouldResolve || !Array.isArray(fieldValue)) break;
+
+          resolved[field.uid] = fieldValue
+            .map((reference: { uid: string; _content_type_uid: string }) => {
+              const nestedPaths = options.paths
+                .filter((candidate) => candidate.startsWith(`${fieldPath}.`))
+                .map((candidate) => candidate.slice(fieldPath.length + 1));
+
+              const entry = getLocalizedEntry(reference._content_type_uid, reference.uid, locale, true);
+              if (!entry) return undefined;
+
+              const referenced = resolveEntry(entry, reference._content_type_uid, locale, {
+                paths: nestedPaths,
+                depth: Math.max(options.depth - 1, 0),
+              });
+
+              return { ...referenced, _content_type_uid: reference._content_type_uid };
+            })
+            // Unpublished references are dropped, like the delivery API does
+            .filter(Boolean);
+          break;
+        }
+      }
+    }
+
+    return resolved;
+  };
+
+  const resolveEntry = (
+    entry: ExportedEntry,
+    contentTypeUid: string,
+    locale: string,
+    options: { paths: Array<string>; depth: number }
+  ) => {
+    const schema = getSchema(contentTypeUid);
+    return schema ? resolveFields(entry, schema, locale, options) : entry;
+  };
+
+  const readTaxonomy = (taxonomyUid: string) =>
+    readJson<ExportedTaxonomy>(path.join(exportDirectory, 'taxonomies', `${taxonomyUid}.json`));
+
+  const getTaxonomy = (taxonomyUid: string) => {
+    if (!taxonomies.has(taxonomyUid)) {
+      const exported = readTaxonomy(taxonomyUid);
+      taxonomies.set(taxonomyUid, exported ? buildTaxonomy(exported) : undefined);
+    }
+
+    return taxonomies.get(taxonomyUid);
+  };
+
+  /**
+   * Checks if an entry is tagged with a term of the filter, or with one of their descendants.
+   * Descendants are only matched when the taxonomy was exported.
+   */
+  const matchesTaxonomy = (
+    entry: ExportedEntry,
+    { taxonomyUid, termUids, includeDescendants, levels }: TaxonomyFilter
+  ) => {
+    const taxonomy = includeDescendants ? getTaxonomy(taxonomyUid) : undefined;
+    const matchingTerms = new Set(
+      taxonomy
+        ? termUids.flatMap((termUid) => [
+            termUid,
+            ...getDescendantTermUids(taxonomy, termUid, levels || MAX_TAXONOMY_LEVELS),
+          ])
+        : termUids
+    );
+    const entryTerms: Array<{ taxonomy_uid?: string; term_uid?: string }> = entry.taxonomies || [];
+
+    return entryTerms.some(
+      (term) => term.taxonomy_uid === taxonomyUid && matchingTerms.has(term.term_uid as string)
+    );
+  };
+
+  const toPaths = (referencesToInclude?: string | Array<string>) =>
+    referencesToInclude
+      ? Array.isArray(referencesToInclude)
+        ? referencesToInclude
+        : [referencesToInclude]
+      : [];
+
+  return {
+    name: 'local',
+
+    async findEntries<T>({
+      contentTypeUid,
+      locale,
+      where,
+      taxonomies: taxonomyFilters,
+      referencesToInclude,
+      includeAllDepth,
+      includeFallback,
+      only,
+      skip = 0,
+      limit = MAX_LIMIT,
+      includeCount,
+    }: EntriesQuery) {
+      const matches = getEntryUids(contentTypeUid, locale)
+        .map((uid) => getLocalizedEntry(contentTypeUid, uid, locale, includeFallback))
+        .filter((entry): entry is ExportedEntry => !!entry)
+        .filter((entry) =>
+          Object.entries(where || {}).every(([fieldPath, expected]) => {
+            const actual = getFieldValue(entry, fieldPath);
+            return Array.isArray(expected) ? expected.includes(actual) : actual === expected;
+          })
+        )
+        .filter((entry) => (taxonomyFilters || []).every((filter) => matchesTaxonomy(entry, filter)))
+        // The delivery API returns the most recently updated entries first
+        .sort((a, b) => (b.updated_at || '').localeCompare(a.updated_at || ''));
+
+      const entries = matches
+        .slice(skip, skip + Math.min(limit, MAX_LIMIT))
+        .map((entry) =>
+          resolveEntry(entry, contentTypeUid, locale, {
+            paths: toPaths(referencesToInclude),
+            depth: includeAllDepth || 0,
+          })
+        )
+        .map((entry) =>
+          only && only.length > 0
+            ? Object.fromEntries(
+                Object.entries(entry).filter(([key]) => key === 'uid' || only.includes(key))
+              )
+            : entry
+        );
+
+      const response: FindResponse<T> = { entries: entries as Array<T> };
+      if (includeCount) response.count = matches.length;
+
+      return response;
+    },
+
+    async fetchEntry<T>({
+      contentTypeUid,
+      entryUid,
+      locale,
+      referencesToInclude,
+      includeFallback,
+    }: EntryQuery) {
+      const entry = getLocalizedEntry(contentTypeUid, entryUid, locale, includeFallback);
+
+      if (!entry) {
+        // Same status as the delivery API, so fetchers report the entry as not found
+        throw Object.assign(
+          new Error(`Entry "${entryUid}" of content type "${contentTypeUid}" not found in ${exportDirectory}`),
+          { status: 404 }
+        );
+      }
+
+      return resolveEntry(entry, contentTypeUid, locale, {
+        paths: toPaths(referencesToInclude),
+        depth: 0,
+      }) as T;
+    },
+
+    async fetchTaxonomy(taxonomyUid: string) {
+      return readTaxonomy(taxonomyUid);
+    },
+  };
+}
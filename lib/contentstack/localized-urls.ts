@@ -0,0 +1,126 @@
+/**
+ * Localized URLs
+ *
+ * The `url` field of routable entries is localizable, so the same entry can live at
+ * `/about-us` in en-us and `/es/sobre-nosotros` in es. Pages are looked up by their URL in the
+ * requested locale (getPage); these helpers resolve the other direction:
+ * - getLocalizedUrls: the URL of an entry in every locale the site serves it in, for hreflang
+ *   alternates, the sitemap and the language selector
+ * - findLocalizedPath: the URL, in the requested locale, of a page reached through its URL in
+ *   another locale (e.g. `/es/about-us`), so it can be redirected to `/es/sobre-nosotros`
+ */
+
+// Global
+import { cache } from 'react';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { LanguageService } from '../services/language-service';
+import { iterateEntries } from './entries';
+import { resolvePage } from './page-data';
+import { resolveSite } from './site';
+import { createLogger } from '../logger/logger';
+
+const logger = createLogger('localized-urls');
+
+/**
+ * Paths without locale prefix by locale code (e.g. `{ 'en-us': '/about-us', es: '/sobre-nosotros' }`)
+ */
+export type LocalizedUrls = Record<string, string>;
+
+/**
+ * Lists the URLs of every entry of a content type in each locale the site serves it in: the
+ * site's default locale and the locales the entry is localized in. Unlocalized locales fall back
+ * to the default locale content and are left out, like in hreflang alternates.
+ *
+ * Each locale is listed once, a page of 100 entries at a time with only their UID, URL and
+ * locale, through the cached entry pages (tagged with the content type), and joined by UID. The
+ * content source answers with the locale the content is written in: a different one means an
+ * unlocalized entry. Errors are not caught, so callers can tell a failed listing from an entry
+ * without URLs.
+ * @param contentTypeUid - The content type UID
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @returns The URLs by locale of each entry, by entry UID
+ */
+export const listLocalizedUrls = cache(async (
+  contentTypeUid: string,
+  siteName?: string
+): Promise<Map<string, LocalizedUrls>> => {
+  const site = await resolveSite(siteName);
+  const urlsByUid = new Map<string, LocalizedUrls>();
+
+  for (const code of site.supportedLocales) {
+    const entries = iterateEntries<{ url?: string; locale?: string }>({
+      contentTypeUid,
+      locale: code,
+      siteName: site.name,
+      only: ['uid', 'url', 'locale'],
+    });
+
+    for await (const entry of entries) {
+      const localized = code === site.defaultLocale || entry.locale === code;
+      if (!localized || !entry.url) continue;
+
+      const urls = urlsByUid.get(entry.uid) || {};
+      urls[code] = entry.url;
+      urlsByUid.set(entry.uid, urls);
+    }
+  }
+
+  return urlsByUid;
+});
+
+/**
+ * Lists the URL of an entry in each locale the site serves it in (see listLocalizedUrls).
+ * Never throws: when the URLs cannot be listed, the failure is logged and none are returned.
+ * @param entryUid - The entry UID
+ * @param contentTypeUid - The content type UID
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @returns The URLs by locale
+ */
+export async function getLocalizedUrls(
+  entryUid: string,
+  contentTypeUid: string,
+  siteName?: string
+): Promise<LocalizedUrls> {
+  try {
+    return (await listLocalizedUrls(contentTypeUid, siteName)).get(entryUid) || {};
+  } catch (error) {
+    logger.error('Failed to list localized URLs', { contentType: contentTypeUid, entryUid, error });
+    return {};
+  }
+}
+
+/**
+ * Finds the path of a page reached through its URL in another locale of the site.
+ * Only called for URLs without a page in the requested locale (404s), as it queries every
+ * other locale.
+ * @param urlPath - The path without locale prefix
+ * @param locale - The requested locale
+ * @param site - The site
+ * @returns The path of the page in the requested locale, with locale prefix, or undefined when
+ * no other locale has a page at this URL or the page has another URL in no locale
+ */
+export async function findLocalizedPath(
+  urlPath: string,
+  locale: string,
+  site: SiteDefinition
+): Promise<string | undefined> {
+  const otherLocales = site.supportedLocales.filter((supportedLocale) => supportedLocale !== locale);
+
+  for (const otherLocale of otherLocales) {
+    const { page, pageContentTypeUID } = await resolvePage(urlPath, otherLocale);
+    if (page.status !== 'found' || !pageContentTypeUID) continue;
+
+    const localizedUrl = (await getLocalizedUrls(page.data.uid, pageContentTypeUID, site.name))[locale];
+    if (!localizedUrl || localizedUrl.toLowerCase() === urlPath.toLowerCase()) return undefined;
+
+    return LanguageService.getLanguageUrlPath(
+      locale,
+      localizedUrl.replace(/^\/+/, ''),
+      site.defaultLocale
+    );
+  }
+
+  return undefined;
+}
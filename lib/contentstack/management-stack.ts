@@ -15,9 +15,14 @@
  */
 
 import * as contentstackManagementSDK from '@contentstack/management';
-import { Locales } from '@contentstack/management/types/stack/contentType/entry';
+import { Entry, Locales } from '@contentstack/management/types/stack/contentType/entry';
 import { Locale } from '@contentstack/management/types/stack/locale';
 import { cache } from 'react';
+import type { SiteStackConfig } from '../../constants/sites';
+import { createLogger } from '../logger/logger';
+import type { ExportedTaxonomy } from './taxonomy-tree';
+
+const logger = createLogger('management-stack');
 
 /**
  * Configuration options for management client
@@ -33,6 +38,11 @@ interface ManagementClientConfig {
      */
     apiKey: string;
 
+    /**
+     * Optional: branch of the stack (defaults to the main branch)
+     */
+    branch?: string;
+
     /**
      * Optional: API host URL (defaults to Contentstack's default)
      */
@@ -40,17 +50,20 @@ interface ManagementClientConfig {
 }
 
 /**
- * Validates required environment variables for management operations
+ * Validates the credentials required for management operations
  * 
+ * @param stackConfig - Optional stack override of a site
  * @throws {Error} If required environment variables are missing
  */
-function validateEnvironment(): void {
+function validateEnvironment(stackConfig?: SiteStackConfig): void {
     const requiredVars = [
-        'CONTENTSTACK_MANAGEMENT_TOKEN',
-        'CONTENTSTACK_API_KEY',
+        { name: 'CONTENTSTACK_MANAGEMENT_TOKEN', value: stackConfig?.managementToken },
+        { name: 'CONTENTSTACK_API_KEY', value: stackConfig?.apiKey },
     ];
 
-    const missingVars = requiredVars.filter((varName) => !process.env[varName]);
+    const missingVars = requiredVars
+        .filter(({ name, value }) => !value && !process.env[name])
+        .map(({ name }) => name);
 
     if (missingVars.length > 0) {
         throw new Error(
@@ -68,6 +81,8 @@ function validateEnvironment(): void {
  * - Querying content type schemas
  * - Accessing stack configuration
  * 
+ * @param stackConfig - Optional stack override of a site (see constants/sites.ts). Unset
+ * values fall back to the environment variables
  * @returns Configured Contentstack management stack client
  * @throws {Error} If required environment variables are missing
  * 
@@ -76,13 +91,14 @@ function validateEnvironment(): void {
  * const stack = createManagementClient();
  * const locales = await stack.locale().query().find();
  *  */
-export async function createManagementClient() {
+export async function createManagementClient(stackConfig?: SiteStackConfig) {
     // Validate environment variables first
-    validateEnvironment();
+    validateEnvironment(stackConfig);
 
     const config: ManagementClientConfig = {
-        authtoken: process.env.CONTENTSTACK_MANAGEMENT_TOKEN!,
-        apiKey: process.env.CONTENTSTACK_API_KEY!,
+        authtoken: stackConfig?.managementToken || process.env.CONTENTSTACK_MANAGEMENT_TOKEN!,
+        apiKey: stackConfig?.apiKey || process.env.CONTENTSTACK_API_KEY!,
+        branch: stackConfig?.branch || process.env.NEXT_PUBLIC_CONTENTSTACK_BRANCH,
     };
 
     try {
@@ -93,6 +109,7 @@ export async function createManagementClient() {
         const stack = client.stack({
             api_key: config.apiKey,
             management_token: config.authtoken,
+            ...(config.branch && { branch_uid: config.branch }),
         });
 
         return stack;
@@ -174,7 +191,7 @@ export const getEntryLocales = cache(async (
     contentTypeUid: string) => {
     // Validate inputs
     if (!entryUid || !contentTypeUid) {
-        console.error('getEntryLocales: entryUid and contentTypeUid are required');
+        logger.error('getEntryLocales: entryUid and contentTypeUid are required');
         return undefined;
     }
 
@@ -189,11 +206,140 @@ export const getEntryLocales = cache(async (
         // Return locales or undefined
         return locales || undefined;
     } catch (error) {
-        console.error(
-            `Failed to fetch locales for entry "${entryUid}" of type "${contentTypeUid}":`,
-            error instanceof Error ? error.message : error
-        );
+        logger.error('Failed to fetch entry locales', {
+            contentType: contentTypeUid,
+            entryUid,
+            error,
+        });
         return undefined;
 
     }
-})
\ No newline at end of file
+})
+
+/**
+ * Exports a taxonomy with its flat list of terms
+ * 
+ * Taxonomies and their term hierarchy are not available through the delivery API.
+ * 
+ * @param taxonomyUid - The unique identifier of the taxonomy
+ * @param stackConfig - Optional stack override of a site
+ * 
+ * @returns The taxonomy and its terms, or undefined if the stack has no such taxonomy
+ * @throws {Error} If the API request fails for another reason
+ **/
+export async function exportTaxonomy(
+    taxonomyUid: string,
+    stackConfig?: SiteStackConfig
+): Promise<ExportedTaxonomy | undefined> {
+    const stack = await createManagementClient(stackConfig);
+
+    try {
+        return (await stack.taxonomy(taxonomyUid).export()) as ExportedTaxonomy;
+    } catch (error) {
+        if ((error as { status?: number })?.status === 404) return undefined;
+        throw error;
+    }
+}
+
+/**
+ * Exports every taxonomy of the stack with its terms
+ * 
+ * @param stackConfig - Optional stack override of a site
+ * 
+ * @returns The taxonomies and their terms
+ * @throws {Error} If an API request fails
+ **/
+export async function exportTaxonomies(stackConfig?: SiteStackConfig): Promise<ExportedTaxonomy[]> {
+    const stack = await createManagementClient(stackConfig);
+    const response = await stack.taxonomy().query().find();
+    const taxonomies = await Promise.all(
+        (response?.items || []).map(({ uid }) => exportTaxonomy(uid, stackConfig))
+    );
+
+    return taxonomies.filter((taxonomy): taxonomy is ExportedTaxonomy => !!taxonomy);
+}
+
+/**
+ * Fetches every entry of a content type, page by page
+ * 
+ * @param contentTypeUid - The unique identifier of the content type
+ * @param locale - Optional locale code (defaults to the master locale)
+ * @param stackConfig - Optional stack override of a site
+ * 
+ * @returns The entries, with localized fields for the locale
+ * @throws {Error} If an API request fails
+ **/
+export async function fetchAllEntries(
+    contentTypeUid: string,
+    locale?: string,
+    stackConfig?: SiteStackConfig
+): Promise<Entry[]> {
+    const stack = await createManagementClient(stackConfig);
+    const entries: Entry[] = [];
+    const limit = 100;
+
+    for (let skip = 0; ; skip += limit) {
+        const response = await stack
+            .contentType(contentTypeUid)
+            .entry()
+            .query({ locale, skip, limit })
+            .find();
+
+        entries.push(...(response?.items || []));
+        if (!response?.items || response.items.length < limit) break;
+    }
+
+    return entries;
+}
+
+/**
+ * Updates fields of an entry, creating a new version of the entry
+ * 
+ * @param contentTypeUid - The unique identifier of the content type
+ * @param entryUid - The unique identifier of the entry
+ * @param fields - The fields to set
+ * @param locale - Optional locale code (defaults to the master locale)
+ * @param stackConfig - Optional stack override of a site
+ * 
+ * @returns The updated entry
+ * @throws {Error} If an API request fails
+ **/
+export async function updateEntryFields(
+    contentTypeUid: string,
+    entryUid: string,
+    fields: Record<string, unknown>,
+    locale?: string,
+    stackConfig?: SiteStackConfig
+): Promise<Entry> {
+    const stack = await createManagementClient(stackConfig);
+    const entry = await stack.contentType(contentTypeUid).entry(entryUid).fetch({ locale });
+
+    Object.assign(entry, fields);
+    return entry.update({ locale });
+}
+
+/**
+ * Publishes the latest version of an entry
+ * 
+ * @param contentTypeUid - The unique identifier of the content type
+ * @param entryUid - The unique identifier of the entry
+ * @param environments - The environments to publish to
+ * @param locales - The locales to publish
+ * @param stackConfig - Optional stack override of a site
+ * 
+ * @throws {Error} If the API request fails
+ **/
+export async function publishEntry(
+    contentTypeUid: string,
+    entryUid: string,
+    environments: string[],
+    locales: string[],
+    stackConfig?: SiteStackConfig
+): Promise<void> {
+    const stack = await createManagementClient(stackConfig);
+
+    await stack.contentType(contentTypeUid).entry(entryUid).publish({
+        publishDetails: { environments, locales },
+        locale: locales[0],
+    });
+}
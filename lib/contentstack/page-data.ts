@@ -1,18 +1,91 @@
 import { getPage, getHeader, getFooter } from '@/lib/contentstack/entries';
-import { IHeader as HeaderProps, IFooter as FooterProps, IPage } from '@/.generated';
+import {
+  IHeader as HeaderProps,
+  IFooter as FooterProps,
+  IPage,
+  IBlogPost,
+  ILandingPage,
+} from '@/.generated';
+import { FetchResult, getResultData, notFoundResult } from './fetch-result';
 import { getCurrentLanguage } from './language';
+import { getPageType, getPageTypesForUrl } from './page-types';
 
 // Type mapping for page content types
-type PageTypeMap = {
+export type PageTypeMap = {
   page: IPage;
+  blog_post: IBlogPost;
+  landing_page: ILandingPage;
 };
 
+export type RoutablePage = PageTypeMap[keyof PageTypeMap];
+
 export interface PageData {
-  page: IPage | undefined;
+  page: FetchResult<RoutablePage>;
+  pageContentTypeUID: string | undefined;
   header: HeaderProps | undefined;
   footer: FooterProps | undefined;
 }
 
+/**
+ * Resolves the entry for a URL by querying every routable content type whose
+ * URL matcher accepts the path. Queries run in parallel; the first content type
+ * in registry order with a matching entry wins. A failed query for a content type
+ * ranked before the match makes the whole lookup fail, since its entry could have won.
+ * @param urlPath - The URL path without locale prefix
+ * @param locale - The locale to fetch
+ * @param pageContentTypeUID - Optional content type to skip resolution
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @returns The page result and, when found, its content type UID
+ */
+export async function resolvePage(
+  urlPath: string,
+  locale: string,
+  pageContentTypeUID?: string,
+  siteName?: string
+): Promise<Pick<PageData, 'page' | 'pageContentTypeUID'>> {
+  const candidates = pageContentTypeUID
+    ? [pageContentTypeUID]
+    : getPageTypesForUrl(urlPath).map((pageType) => pageType.contentTypeUid);
+
+  const pages = await Promise.all(
+    candidates.map((contentTypeUid) => getPage<RoutablePage>(urlPath, contentTypeUid, locale, siteName))
+  );
+
+  const index = pages.findIndex((page) => page.status !== 'not-found');
+
+  if (index === -1) {
+    return { page: notFoundResult(), pageContentTypeUID: undefined };
+  }
+
+  return {
+    page: pages[index],
+    pageContentTypeUID: pages[index].status === 'found' ? candidates[index] : undefined,
+  };
+}
+
+/**
+ * Get the site chrome rendered around a page: the header and footer, unless the layout of its
+ * content type drops them
+ * @param pageContentTypeUID - The content type of the page
+ * @param locale - The locale of the page
+ */
+export async function fetchPageChrome(
+  pageContentTypeUID: string | undefined,
+  locale: string
+): Promise<Pick<PageData, 'header' | 'footer'>> {
+  const layout = pageContentTypeUID ? getPageType(pageContentTypeUID)?.layout : undefined;
+
+  const [header, footer] = await Promise.all([
+    layout?.header === false ? undefined : getHeader(locale),
+    layout?.footer === false ? undefined : getFooter(locale),
+  ]);
+
+  return {
+    header: header && getResultData(header),
+    footer: footer && getResultData(footer),
+  };
+}
+
 /**
  * Shared function to fetch page data that can be used by both
  * generateMetadata and SharedPageLayout components
@@ -21,22 +94,21 @@ export interface PageData {
  */
 export async function fetchPageData(
   urlPath: string,
-  pageContentTypeUID: string = 'page'
+  pageContentTypeUID?: string
 ): Promise<PageData> {
-  // Use the type mapping to get the correct type, fallback to IPage for unknown types
-  const pageType = pageContentTypeUID as keyof PageTypeMap;
   const currentLanguage = getCurrentLanguage();
 
-  // Fetch all data in parallel for maximum performance
-  const [page, header, footer] = await Promise.all([
-    getPage<PageTypeMap[typeof pageType]>(urlPath, pageContentTypeUID, currentLanguage),
+  // Fetch all data in parallel for maximum performance. The header and footer are cached for
+  // the request, so fetchPageChrome reads them again without another query
+  const [{ page, pageContentTypeUID: resolvedContentTypeUID }] = await Promise.all([
+    resolvePage(urlPath, currentLanguage, pageContentTypeUID),
     getHeader(currentLanguage),
     getFooter(currentLanguage),
   ]);
 
   return {
     page,
-    header,
-    footer,
+    pageContentTypeUID: resolvedContentTypeUID,
+    ...(await fetchPageChrome(resolvedContentTypeUID, currentLanguage)),
   };
 }
@@ -0,0 +1,132 @@
+// Global
+import type { Metadata } from 'next';
+
+// Local
+import {
+  ENHANCED_IMAGE_FIELDS,
+  SEO_FIELDS,
+  SITEMAP_SETTING_FIELDS,
+} from './graphql-fragments';
+
+/**
+ * Definition of a routable content type
+ */
+export interface PageTypeDefinition<T = any> {
+  /** Content type UID in Contentstack */
+  contentTypeUid: string;
+  /** Returns true when the URL path can belong to an entry of this content type */
+  matchesUrl: (urlPath: string) => boolean;
+  /** Site chrome rendered around the page */
+  layout: {
+    header: boolean;
+    footer: boolean;
+  };
+  /** Whether entries of this content type are listed in sitemap.xml */
+  includeInSitemap: boolean;
+  /** Adds content type specific metadata on top of the shared SEO metadata */
+  buildMetadata?: (entry: T) => Partial<Metadata>;
+  /**
+   * GraphQL selection of the page fields, without the blocks field (CONTENTSTACK_DELIVERY_API=graphql).
+   * Content types without a selection are always fetched through the REST API
+   */
+  graphqlFields?: string;
+  /**
+   * Modular blocks field rendered by ComponentRenderer. Its GraphQL selection is built from
+   * the fragments of the registered components, for the blocks the page contains
+   */
+  blocksField?: string;
+  /**
+   * Whether the content type has a taxonomy field (`taxonomies`). The GraphQL page query
+   * selects it only then, as the GraphQL schema has no such field otherwise
+   */
+  hasTaxonomies?: boolean;
+}
+
+// GraphQL selection shared by the page content types built from modular blocks
+const BLOCK_PAGE_FIELDS = `
+  title
+  url
+  seo { ${SEO_FIELDS} }
+  sitemap_setting { ${SITEMAP_SETTING_FIELDS} }
+`;
+
+/**
+ * Matches a URL path against a path prefix (e.g. '/blog' matches '/blog' and '/blog/post')
+ */
+const matchesPrefix = (prefix: string) => (urlPath: string) =>
+  urlPath === prefix || urlPath.startsWith(`${prefix}/`);
+
+/**
+ * Registry of routable content types, in resolution priority order.
+ * The catch-all route queries every content type whose matcher accepts the URL
+ * and renders the first one, in this order, that has an entry for it.
+ *
+ * To add a page template:
+ * 1. Create the content type in Contentstack (with a `url` field) and run `npm run tsgen`
+ * 2. Register it here
+ * 3. Add its renderer to `pageTypeMapping` in MainLayout
+ * 4. Optionally declare its GraphQL selection (`graphqlFields`, `blocksField`)
+ */
+export const PAGE_TYPES: Array<PageTypeDefinition> = [
+  {
+    contentTypeUid: 'blog_post',
+    matchesUrl: matchesPrefix('/blog'),
+    layout: { header: true, footer: true },
+    includeInSitemap: true,
+    buildMetadata: (entry) => ({
+      openGraph: {
+        type: 'article',
+        publishedTime: entry.publish_date || undefined,
+        authors: entry.author ? [entry.author] : undefined,
+      },
+    }),
+    graphqlFields: `
+      title
+      url
+      publish_date
+      author
+      summary
+      featured_image { ${ENHANCED_IMAGE_FIELDS} }
+      body
+      seo { ${SEO_FIELDS} }
+      sitemap_setting { ${SITEMAP_SETTING_FIELDS} }
+    `,
+  },
+  {
+    contentTypeUid: 'landing_page',
+    matchesUrl: () => true,
+    layout: { header: false, footer: false },
+    includeInSitemap: false,
+    graphqlFields: BLOCK_PAGE_FIELDS,
+    blocksField: 'components',
+  },
+  {
+    contentTypeUid: 'page',
+    matchesUrl: () => true,
+    layout: { header: true, footer: true },
+    includeInSitemap: true,
+    graphqlFields: BLOCK_PAGE_FIELDS,
+    blocksField: 'components',
+  },
+];
+
+// Content type used for the CMS-driven 404 page
+export const DEFAULT_PAGE_TYPE = 'page';
+
+/**
+ * Get the definition of a routable content type
+ * @param contentTypeUid - The content type UID
+ * @returns The page type definition, or undefined if the content type is not routable
+ */
+export function getPageType(contentTypeUid: string): PageTypeDefinition | undefined {
+  return PAGE_TYPES.find((pageType) => pageType.contentTypeUid === contentTypeUid);
+}
+
+/**
+ * Get every routable content type whose URL matcher accepts the path, in priority order
+ * @param urlPath - The URL path without locale prefix
+ * @returns The candidate page type definitions
+ */
+export function getPageTypesForUrl(urlPath: string): Array<PageTypeDefinition> {
+  return PAGE_TYPES.filter((pageType) => pageType.matchesUrl(urlPath));
+}
@@ -0,0 +1,87 @@
+/**
+ * Checks the pagination of delivery API queries past the 100-entry limit
+ */
+
+// Global
+import type { FindResponse } from '@contentstack/delivery-sdk';
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+// Local
+import { collectPages, MAX_PAGE_SIZE, paginate } from './pagination';
+
+interface LoadedPage {
+  skip: number;
+  limit: number;
+  includeCount: boolean;
+}
+
+/**
+ * Fake query over `total` numbered entries, recording the pages requested and the number of
+ * requests in flight
+ */
+function createQuery(total: number, { withCount = true } = {}) {
+  const requests: Array<LoadedPage> = [];
+  let inFlight = 0;
+  let maxInFlight = 0;
+
+  const loadPage = async (skip: number, limit: number, includeCount: boolean): Promise<FindResponse<number>> => {
+    requests.push({ skip, limit, includeCount });
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    inFlight--;
+
+    const entries = Array.from({ length: Math.max(0, Math.min(limit, total - skip)) }, (_, index) => skip + index);
+    return includeCount && withCount ? { entries, count: total } : { entries };
+  };
+
+  return { loadPage, requests, getMaxInFlight: () => maxInFlight };
+}
+
+test('every page is loaded in order, following the count of the first response', async () => {
+  const query = createQuery(250);
+  const result = await collectPages(paginate(query.loadPage, { pageSize: 100 }));
+
+  assert.equal(result.count, 250);
+  assert.deepEqual(result.entries, Array.from({ length: 250 }, (_, index) => index));
+  assert.deepEqual(query.requests, [
+    { skip: 0, limit: 100, includeCount: true },
+    { skip: 100, limit: 100, includeCount: false },
+    { skip: 200, limit: 100, includeCount: false },
+  ]);
+});
+
+test('only the first page is loaded without a count', async () => {
+  const query = createQuery(250, { withCount: false });
+  const result = await collectPages(paginate(query.loadPage));
+
+  assert.equal(result.count, MAX_PAGE_SIZE);
+  assert.equal(query.requests.length, 1);
+});
+
+test('an empty result loads a single page', async () => {
+  const query = createQuery(0);
+  const result = await collectPages(paginate(query.loadPage));
+
+  assert.deepEqual(result, { entries: [], count: 0 });
+  assert.equal(query.requests.length, 1);
+});
+
+test('the page size is capped at the 100-entry limit of the delivery API', async () => {
+  const query = createQuery(150);
+  await collectPages(paginate(query.loadPage, { pageSize: 500 }));
+
+  assert.ok(query.requests.every(({ limit }) => limit === MAX_PAGE_SIZE));
+  assert.deepEqual(query.requests.map(({ skip }) => skip), [0, 100]);
+});
+
+test('no more than `concurrency` pages are requested in parallel', async () => {
+  const query = createQuery(1000);
+  const result = await collectPages(paginate(query.loadPage, { pageSize: 50, concurrency: 3 }));
+
+  assert.equal(result.count, 1000);
+  assert.equal(query.requests.length, 20);
+  assert.equal(query.getMaxInFlight(), 3);
+});
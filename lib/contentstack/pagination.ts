@@ -0,0 +1,66 @@
+// Global
+import type { FindResponse } from '@contentstack/delivery-sdk';
+
+// Maximum number of entries the delivery API returns per request
+export const MAX_PAGE_SIZE = 100;
+
+// Number of pages requested in parallel after the first page
+const DEFAULT_CONCURRENCY = Number(process.env.CONTENTSTACK_PAGINATION_CONCURRENCY) || 4;
+
+interface PaginateOptions {
+  pageSize?: number;
+  concurrency?: number;
+}
+
+/**
+ * Pages through every result of a query, following the `count` of the first response.
+ * Remaining pages are requested in batches of `concurrency` and yielded in order.
+ *
+ * @param loadPage - Loads one page of results; must include the total count when `includeCount` is true
+ * @param options - Page size (max 100) and number of parallel requests
+ * @yields The entries of each page, in order
+ *
+ * @example
+ * for await (const entries of paginate((skip, limit, includeCount) => query(skip, limit, includeCount))) {
+ *   entries.forEach(render);
+ * }
+ */
+export async function* paginate<T>(
+  loadPage: (skip: number, limit: number, includeCount: boolean) => Promise<FindResponse<T>>,
+  { pageSize = MAX_PAGE_SIZE, concurrency = DEFAULT_CONCURRENCY }: PaginateOptions = {}
+): AsyncGenerator<Array<T>> {
+  const limit = Math.min(Math.max(pageSize, 1), MAX_PAGE_SIZE);
+  const firstPage = await loadPage(0, limit, true);
+
+  yield firstPage.entries || [];
+
+  const total = firstPage.count ?? firstPage.entries?.length ?? 0;
+  const pageCount = Math.ceil(total / limit);
+
+  for (let page = 1; page < pageCount; page += concurrency) {
+    const batch: Array<Promise<FindResponse<T>>> = [];
+
+    for (let index = page; index < Math.min(page + concurrency, pageCount); index++) {
+      batch.push(loadPage(index * limit, limit, false));
+    }
+
+    for (const response of await Promise.all(batch)) {
+      yield response.entries || [];
+    }
+  }
+}
+
+/**
+ * Collects every page of a paginated query into a single find response
+ * @param pages - Pages produced by `paginate`
+ * @returns Find response with all entries and the total count
+ */
+export async function collectPages<T>(pages: AsyncGenerator<Array<T>>): Promise<FindResponse<T>> {
+  const entries: Array<T> = [];
+
+  for await (const page of pages) {
+    entries.push(...page);
+  }
+
+  return { entries, count: entries.length };
+}
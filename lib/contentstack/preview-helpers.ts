@@ -1,16 +1,16 @@
 // Importing Contentstack SDK for editable tags utilities
 import contentstack from '@contentstack/delivery-sdk';
 
-// Import preview mode check from stack module
-import { isPreviewModeEnabled } from './delivery-stack';
+// Import preview request check (preview deployments and draft mode)
+import { isPreviewRequest } from './preview-mode';
 
 /**
  * Helper function to add editable tags for live preview (reduces code duplication)
  * @param entry - The entry to add editable tags to
  * @param contentTypeUid - The content type UID
  */
-export function addEditableTagsIfPreview(entry: any, contentTypeUid: string, locale: string): void {
-  if (isPreviewModeEnabled()) {
+export async function addEditableTagsIfPreview(entry: any, contentTypeUid: string, locale: string): Promise<void> {
+  if (await isPreviewRequest()) {
     contentstack.Utils.addEditableTags(entry, contentTypeUid, true, locale);
   }
 }
@@ -20,8 +20,8 @@ export function addEditableTagsIfPreview(entry: any, contentTypeUid: string, loc
  * @param entries - Array of entries to add editable tags to
  * @param contentTypeUid - The content type UID
  */
-export function addEditableTagsToEntries(entries: any[], contentTypeUid: string): void {
-  if (isPreviewModeEnabled() && entries) {
+export async function addEditableTagsToEntries(entries: any[], contentTypeUid: string): Promise<void> {
+  if (entries && (await isPreviewRequest())) {
     entries.forEach((entry) => {
       contentstack.Utils.addEditableTags(entry, contentTypeUid, true);
     });
@@ -0,0 +1,81 @@
+/**
+ * Preview Mode
+ *
+ * Preview requests read drafts through live preview with the preview token, bypass the data
+ * cache and get editable tags. A request is a preview request when:
+ * - the deployment is a preview deployment (NEXT_PUBLIC_CONTENTSTACK_PREVIEW=true), or
+ * - Next.js draft mode is enabled for the request, with /api/preview/enter
+ *
+ * With draft mode, one deployment serves production traffic and editor previews.
+ */
+
+// Global
+import { timingSafeEqual } from 'crypto';
+import { draftMode } from 'next/headers';
+import { cache } from 'react';
+
+// Local
+import { isPreviewModeEnabled } from './delivery-stack';
+
+/**
+ * Query parameter carrying the secret of the draft mode routes
+ */
+export const PREVIEW_SECRET_PARAM = 'secret';
+
+/**
+ * Query parameter carrying the path to open after entering or exiting draft mode
+ */
+export const PREVIEW_REDIRECT_PARAM = 'redirect';
+
+/**
+ * Checks if the current request renders preview content.
+ * Outside a request (build time, scripts) only preview deployments do.
+ */
+export const isPreviewRequest = cache(async (): Promise<boolean> => {
+  if (isPreviewModeEnabled()) return true;
+
+  try {
+    return (await draftMode()).isEnabled;
+  } catch {
+    return false;
+  }
+});
+
+/**
+ * Compares the secret with CONTENTSTACK_PREVIEW_SECRET without leaking timing information.
+ * Draft mode cannot be entered while no secret is configured.
+ * @param received - The secret sent with the request
+ */
+export function isValidPreviewSecret(received: string | null): boolean {
+  const expected = process.env.CONTENTSTACK_PREVIEW_SECRET;
+  if (!expected || !received) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+}
+
+/**
+ * Get the path to redirect to after entering or exiting draft mode, from the `redirect` query
+ * parameter. The other query parameters (e.g. the live preview hash) are passed on.
+ * Only paths of this site are allowed, so the routes cannot be used as open redirects.
+ * @param searchParams - The query parameters of the draft mode route
+ * @returns The path, or the home page when missing or not a path of this site
+ */
+export function getPreviewRedirectPath(searchParams: URLSearchParams): string {
+  const redirect = searchParams.get(PREVIEW_REDIRECT_PARAM) || '/';
+  const isSitePath = redirect.startsWith('/') && !redirect.startsWith('//') && !redirect.includes('\\');
+  const url = new URL(isSitePath ? redirect : '/', 'http://localhost');
+
+  searchParams.forEach((value, key) => {
+    if (key !== PREVIEW_SECRET_PARAM && key !== PREVIEW_REDIRECT_PARAM) {
+      url.searchParams.set(key, value);
+    }
+  });
+
+  return `${url.pathname}${url.search}`;
+}
@@ -0,0 +1,18 @@
+/**
+ * Type declarations of the React server renderer bundled with Next.js, used by the tests to
+ * render server components to their RSC payload (see language.test.ts)
+ */
+declare module 'next/dist/compiled/react-server-dom-webpack/server.node' {
+  import type { ReactElement } from 'react';
+
+  interface PipeableStream {
+    pipe<T extends NodeJS.WritableStream>(destination: T): T;
+    abort(reason?: unknown): void;
+  }
+
+  export function renderToPipeableStream(
+    model: ReactElement,
+    webpackMap: Record<string, unknown>,
+    options?: { onError?: (error: unknown) => void }
+  ): PipeableStream;
+}
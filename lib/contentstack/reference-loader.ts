@@ -0,0 +1,205 @@
+/**
+ * Batched reference loader
+ *
+ * Collects the referenced entries requested while a page renders and resolves them with one
+ * `getEntriesByUids` call per content type and locale, in the style of DataLoader.
+ * Server components call `loadReferences`, so referenced components render in the initial
+ * HTML instead of being fetched one by one on the client after hydration.
+ *
+ * @example
+ * const entries = await loadReferences(references, { locale });
+ * return <Teasers initialData={entries} />;
+ */
+
+// Global
+import { cache } from 'react';
+
+// Local
+import { ISystemFields } from '@/.generated';
+import { toPascalCase } from '@/utils/string-utils';
+import { getEntriesByUids } from './entries';
+import { errorResult, FetchResult, foundResult, notFoundResult } from './fetch-result';
+import { getCurrentLanguage } from './language';
+import { MAX_PAGE_SIZE } from './pagination';
+
+export interface ReferenceLoadOptions {
+  locale?: string;
+  referencesToInclude?: string | Array<string>;
+  siteName?: string;
+}
+
+/**
+ * A resolved reference, in the shape rendered by ReferencePlaceholder and returned by
+ * useGetEntriesByUids
+ */
+export type ReferencedEntry<T> = {
+  componentName: string;
+  componentId: string;
+  data: T | undefined;
+};
+
+type LoadedEntry = Record<string, unknown> & { uid: string };
+
+interface Batch {
+  contentTypeUid: string;
+  options: ReferenceLoadOptions & { locale: string };
+  pending: Map<string, Array<(result: FetchResult<LoadedEntry>) => void>>;
+}
+
+/**
+ * Checks if a reference only carries its UID and content type, i.e. the page query
+ * did not include it
+ * @param reference - The reference field value
+ */
+export function isUnresolvedReference(reference: ISystemFields): boolean {
+  return Object.keys(reference).every((key) => key === 'uid' || key === '_content_type_uid');
+}
+
+/**
+ * Creates a loader that batches entry lookups.
+ * Lookups requested before the next timer tick are grouped by content type, locale, site and
+ * included references, then fetched with one call per group (split in chunks of 100 UIDs).
+ * Each entry is fetched once per loader.
+ * @param loadEntries - Fetches entries by UID (defaults to getEntriesByUids)
+ * @returns The loader
+ */
+export function createReferenceLoader(loadEntries: typeof getEntriesByUids = getEntriesByUids) {
+  const loaded = new Map<string, Promise<FetchResult<LoadedEntry>>>();
+  let batches = new Map<string, Batch>();
+  let scheduled = false;
+
+  const dispatchChunk = async (
+    { contentTypeUid, options, pending }: Batch,
+    chunk: Array<string>
+  ) => {
+    let result: FetchResult<{ entries?: Array<LoadedEntry> }>;
+
+    try {
+      result = await loadEntries<LoadedEntry>({ contentTypeUid, entryUids: chunk, ...options });
+    } catch (error) {
+      result = errorResult(`Error while loading references of "${contentTypeUid}"`, error);
+    }
+
+    const entries = new Map(
+      (result.status === 'found' ? result.data.entries || [] : []).map((entry) => [entry.uid, entry])
+    );
+
+    for (const uid of chunk) {
+      const entry = entries.get(uid);
+      const entryResult: FetchResult<LoadedEntry> =
+        result.status === 'error' ? result : entry ? foundResult(entry) : notFoundResult();
+
+      pending.get(uid)?.forEach((resolve) => resolve(entryResult));
+    }
+  };
+
+  const dispatch = (batch: Batch) => {
+    const uids = [...batch.pending.keys()];
+
+    for (let start = 0; start < uids.length; start += MAX_PAGE_SIZE) {
+      void dispatchChunk(batch, uids.slice(start, start + MAX_PAGE_SIZE));
+    }
+  };
+
+  // Wait a timer tick so every component started in the current render pass
+  // queues its references before the batch is sent
+  const flush = () => {
+    const current = batches;
+    batches = new Map();
+    scheduled = false;
+    current.forEach(dispatch);
+  };
+
+  /**
+   * Loads one entry
+   * @param contentTypeUid - The content type of the entry
+   * @param entryUid - The entry UID
+   * @param options - Locale (defaults to the current language), site and references to include
+   * @returns The entry, `not-found` when it is not published, or `error` when the fetch failed
+   */
+  const load = (
+    contentTypeUid: string,
+    entryUid: string,
+    { locale = getCurrentLanguage(), referencesToInclude, siteName }: ReferenceLoadOptions = {}
+  ): Promise<FetchResult<LoadedEntry>> => {
+    const include = Array.isArray(referencesToInclude)
+      ? [...referencesToInclude].sort().join(',')
+      : referencesToInclude || '';
+    const batchKey = [contentTypeUid, locale, siteName || '', include].join('|');
+    const entryKey = `${batchKey}|${entryUid}`;
+
+    const existing = loaded.get(entryKey);
+    if (existing) return existing;
+
+    const promise = new Promise<FetchResult<LoadedEntry>>((resolve) => {
+      let batch = batches.get(batchKey);
+
+      if (!batch) {
+        batch = {
+          contentTypeUid,
+          options: { locale, referencesToInclude, siteName },
+          pending: new Map(),
+        };
+        batches.set(batchKey, batch);
+      }
+
+      batch.pending.set(entryUid, [...(batch.pending.get(entryUid) || []), resolve]);
+
+      if (!scheduled) {
+        scheduled = true;
+        setTimeout(flush, 0);
+      }
+    });
+
+    loaded.set(entryKey, promise);
+    return promise;
+  };
+
+  return { load };
+}
+
+export type ReferenceLoader = ReturnType<typeof createReferenceLoader>;
+
+/**
+ * Get the reference loader of the request being rendered.
+ * React `cache` creates one loader per server request, so every component of a page shares
+ * its batches. Outside a React server render every call gets a new loader.
+ */
+export const getReferenceLoader = cache(() => createReferenceLoader());
+
+/**
+ * Resolves references through the request's reference loader.
+ * References already included by the page query are returned as they are.
+ * References that are not published, or that failed to load, keep their UID and content type only.
+ * @param references - The reference field value
+ * @param options - Locale (defaults to the current language), site and references to include
+ * @returns The entries in the order of the references
+ */
+export async function loadReferences<T>(
+  references: Array<ISystemFields> = [],
+  options: ReferenceLoadOptions = {}
+): Promise<Array<ReferencedEntry<T>>> {
+  const loader = getReferenceLoader();
+
+  return Promise.all(
+    references
+      .filter((reference) => reference?.uid && reference._content_type_uid)
+      .map(async (reference) => {
+        const contentTypeUid = reference._content_type_uid as string;
+        let data: unknown = reference;
+
+        if (isUnresolvedReference(reference)) {
+          const result = await loader.load(contentTypeUid, reference.uid as string, options);
+          if (result.status === 'found') {
+            data = { ...result.data, _content_type_uid: contentTypeUid };
+          }
+        }
+
+        return {
+          componentName: toPascalCase(contentTypeUid),
+          componentId: contentTypeUid,
+          data: data as T,
+        };
+      })
+  );
+}
@@ -0,0 +1,274 @@
+/**
+ * Resilience policy for Contentstack calls
+ *
+ * Every content source query goes through:
+ * - a per-call timeout
+ * - retries with exponential backoff and jitter for 429, 5xx and network failures
+ * - a circuit breaker that fails fast once Contentstack keeps failing, and lets a single
+ *   probe through after a cool-down
+ *
+ * While calls fail, cache-tags.ts serves the last-known-good response of each query.
+ * All thresholds are configurable with environment variables.
+ */
+
+// Local
+import type { ContentSource, EntriesQuery, EntryQuery } from './content-source';
+import { getErrorStatusCode, isRetryableStatus } from './fetch-result';
+
+export interface ResiliencePolicy {
+  /** Maximum duration of one attempt (CONTENTSTACK_TIMEOUT_MS) */
+  timeoutMs: number;
+  /** Retries after the first attempt (CONTENTSTACK_RETRY_LIMIT) */
+  retryLimit: number;
+  /** Delay before the first retry, doubled on each retry (CONTENTSTACK_RETRY_BASE_DELAY_MS) */
+  retryBaseDelayMs: number;
+  /** Upper bound of the retry delay (CONTENTSTACK_RETRY_MAX_DELAY_MS) */
+  retryMaxDelayMs: number;
+  /** Consecutive failed calls that open the circuit (CONTENTSTACK_CIRCUIT_FAILURE_THRESHOLD) */
+  circuitFailureThreshold: number;
+  /** Time the circuit stays open before a probe call is allowed (CONTENTSTACK_CIRCUIT_RESET_MS) */
+  circuitResetMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Content source protected by the resilience policy, exposing the state of its circuit
+ */
+export interface ResilientContentSource extends ContentSource {
+  getCircuitState(): CircuitState;
+  /** Consecutive transient failures since the last call Contentstack answered */
+  getFailureCount(): number;
+  /** Time a probe call will be let through while the circuit is open */
+  getRetryAt(): number | undefined;
+}
+
+/**
+ * Thrown when a call takes longer than the policy timeout
+ */
+export class ContentTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Contentstack call timed out after ${timeoutMs}ms`);
+    this.name = 'ContentTimeoutError';
+  }
+}
+
+/**
+ * Thrown without calling Contentstack while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  // Reported like a 503 so fetchers mark the failure as retryable
+  readonly status = 503;
+
+  constructor(retryAt: number) {
+    super(`Contentstack circuit is open until ${new Date(retryAt).toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Reads a non-negative number from an environment variable
+ */
+function readEnvNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') return fallback;
+
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+/**
+ * Get the resilience policy configured by environment variables
+ */
+export function getResiliencePolicy(): ResiliencePolicy {
+  return {
+    timeoutMs: readEnvNumber('CONTENTSTACK_TIMEOUT_MS', 5000),
+    retryLimit: readEnvNumber('CONTENTSTACK_RETRY_LIMIT', 2),
+    retryBaseDelayMs: readEnvNumber('CONTENTSTACK_RETRY_BASE_DELAY_MS', 200),
+    retryMaxDelayMs: readEnvNumber('CONTENTSTACK_RETRY_MAX_DELAY_MS', 2000),
+    circuitFailureThreshold: Math.max(1, readEnvNumber('CONTENTSTACK_CIRCUIT_FAILURE_THRESHOLD', 5)),
+    circuitResetMs: readEnvNumber('CONTENTSTACK_CIRCUIT_RESET_MS', 30000),
+  };
+}
+
+/**
+ * Checks if an error is a transient failure: a timeout, a network error (status 0)
+ * or a 408, 429 or 5xx response. Other errors (404, invalid query) are not retried
+ * and do not count towards opening the circuit.
+ * @param error - The thrown error
+ */
+export function isTransientFailure(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) return false;
+  if (error instanceof ContentTimeoutError) return true;
+
+  const statusCode = getErrorStatusCode(error);
+  return statusCode !== undefined && isRetryableStatus(statusCode);
+}
+
+/**
+ * Checks if an error means Contentstack is unavailable: a transient failure, or an open circuit
+ * that did not call it. The last-known-good response of a query failing this way can be served.
+ * @param error - The thrown error
+ */
+export function isUnavailableFailure(error: unknown): boolean {
+  return error instanceof CircuitOpenError || isTransientFailure(error);
+}
+
+/**
+ * Rejects with a ContentTimeoutError if the operation does not settle in time
+ * @param operation - The call to run
+ * @param timeoutMs - The timeout (0 disables it)
+ */
+export async function withTimeout<T>(operation: () => Promise<T>, timeoutMs: number): Promise<T> {
+  if (!timeoutMs) return operation();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    return await Promise.race([
+      operation(),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new ContentTimeoutError(timeoutMs)), timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Runs an operation, retrying transient failures with exponential backoff and full jitter
+ * @param operation - The call to run
+ * @param policy - Retry limit and delays
+ */
+export async function withRetry<T>(
+  operation: () => Promise<T>,
+  { retryLimit, retryBaseDelayMs, retryMaxDelayMs }: ResiliencePolicy
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= retryLimit || !isTransientFailure(error)) throw error;
+
+      const maxDelay = Math.min(retryMaxDelayMs, retryBaseDelayMs * 2 ** attempt);
+      await new Promise((resolve) => setTimeout(resolve, Math.random() * maxDelay));
+    }
+  }
+}
+
+/**
+ * Creates a circuit breaker.
+ * After `circuitFailureThreshold` consecutive transient failures the circuit opens and calls
+ * fail immediately with CircuitOpenError. After `circuitResetMs` one probe call is let through:
+ * the circuit closes if it succeeds and opens again if it fails.
+ * @param policy - Failure threshold and reset time
+ */
+export function createCircuitBreaker({
+  circuitFailureThreshold,
+  circuitResetMs,
+}: Pick<ResiliencePolicy, 'circuitFailureThreshold' | 'circuitResetMs'>) {
+  let state: CircuitState = 'closed';
+  let failures = 0;
+  let openedAt = 0;
+  let probeInFlight = false;
+
+  const open = () => {
+    state = 'open';
+    openedAt = Date.now();
+  };
+
+  return {
+    getState(): CircuitState {
+      return state;
+    },
+
+    getFailureCount(): number {
+      return failures;
+    },
+
+    getRetryAt(): number | undefined {
+      return state === 'closed' ? undefined : openedAt + circuitResetMs;
+    },
+
+    async execute<T>(operation: () => Promise<T>): Promise<T> {
+      if (state === 'open') {
+        if (Date.now() - openedAt < circuitResetMs) {
+          throw new CircuitOpenError(openedAt + circuitResetMs);
+        }
+        state = 'half-open';
+      }
+
+      // Only one probe at a time while half-open
+      if (state === 'half-open') {
+        if (probeInFlight) throw new CircuitOpenError(Date.now() + circuitResetMs);
+        probeInFlight = true;
+      }
+
+      const isProbe = state === 'half-open';
+
+      try {
+        const result = await operation();
+        state = 'closed';
+        failures = 0;
+        return result;
+      } catch (error) {
+        if (isTransientFailure(error)) {
+          failures++;
+          if (isProbe || failures >= circuitFailureThreshold) open();
+        } else {
+          // Contentstack answered, so it is reachable
+          state = 'closed';
+          failures = 0;
+        }
+        throw error;
+      } finally {
+        if (isProbe) probeInFlight = false;
+      }
+    },
+  };
+}
+
+/**
+ * Wraps a content source with the resilience policy. Each source gets its own circuit breaker.
+ * @param source - The content source to protect
+ * @param policy - The policy (defaults to the environment configuration)
+ * @returns Content source with timeouts, retries and a circuit breaker
+ */
+export function withResilience(
+  source: ContentSource,
+  policy: ResiliencePolicy = getResiliencePolicy()
+): ResilientContentSource {
+  const breaker = createCircuitBreaker(policy);
+
+  const call = <T>(operation: () => Promise<T>) =>
+    breaker.execute(() => withRetry(() => withTimeout(operation, policy.timeoutMs), policy));
+
+  return {
+    name: source.name,
+
+    findEntries<T>(query: EntriesQuery) {
+      return call(() => source.findEntries<T>(query));
+    },
+
+    fetchEntry<T>(query: EntryQuery) {
+      return call(() => source.fetchEntry<T>(query));
+    },
+
+    fetchTaxonomy(taxonomyUid: string) {
+      return call(() => source.fetchTaxonomy(taxonomyUid));
+    },
+
+    getCircuitState() {
+      return breaker.getState();
+    },
+
+    getFailureCount() {
+      return breaker.getFailureCount();
+    },
+
+    getRetryAt() {
+      return breaker.getRetryAt();
+    },
+  };
+}
@@ -0,0 +1,34 @@
+// Global
+import { headers } from 'next/headers';
+import { cache } from 'react';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { SiteService } from '../services/site-service';
+
+/**
+ * Get the site of the current request.
+ * Resolved from the request host, like the middleware (see SiteService.getRequestHost). No
+ * other request header is trusted for it: the middleware skips sitemap.xml, robots.txt and API
+ * routes, where a client could send any header and have its site cached for the host. Outside
+ * a request (build time, scripts) the default site is returned.
+ * @returns The site definition of the current request
+ */
+export const getCurrentSite = cache(async (): Promise<SiteDefinition> => {
+  try {
+    const requestHeaders = await headers();
+
+    return SiteService.getSiteByRequest(requestHeaders);
+  } catch {
+    return SiteService.getDefaultSite();
+  }
+});
+
+/**
+ * Get a site by name, falling back to the site of the current request
+ * @param siteName - Optional site name passed to a fetcher
+ * @returns The site definition
+ */
+export async function resolveSite(siteName?: string): Promise<SiteDefinition> {
+  return SiteService.getSiteByName(siteName) || getCurrentSite();
+}
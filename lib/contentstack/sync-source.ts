@@ -0,0 +1,94 @@
+/**
+ * Sync Content Source
+ *
+ * Answers queries from the local mirror kept up to date by the Sync API (sync.ts), so rendering
+ * does not depend on Contentstack latency or rate limits. The store uses the layout of a stack
+ * export and is queried with the local content source, which is reloaded after each sync.
+ *
+ * The sync state is read again at most every CONTENTSTACK_SYNC_STATE_CHECK_MS (default 5000),
+ * not on every query. Syncs run in the server process (/api/sync) reload the source at once
+ * (see invalidateSyncState); syncs run from the command line within that interval.
+ *
+ * @security This module reads from the file system and must only run on the server.
+ */
+
+// Local
+import type { ContentSource, EntriesQuery, EntryQuery } from './content-source';
+import { createLocalSource } from './local-source';
+import { readSyncState } from './sync-store';
+
+const DEFAULT_SYNC_STATE_CHECK_MS = 5000;
+
+// Time the sync state of each store directory was last read
+const stateCheckedAt = new Map<string, number>();
+
+/**
+ * Get the time the sync state is trusted before the state file is read again
+ */
+function getSyncStateCheckMs(): number {
+  const value = Number(process.env.CONTENTSTACK_SYNC_STATE_CHECK_MS);
+  return process.env.CONTENTSTACK_SYNC_STATE_CHECK_MS && Number.isFinite(value) && value >= 0
+    ? value
+    : DEFAULT_SYNC_STATE_CHECK_MS;
+}
+
+/**
+ * Have the sync sources of a store read its sync state with their next query, e.g. once a sync
+ * of the store completed
+ * @param directory - The sync store directory
+ */
+export function invalidateSyncState(directory: string): void {
+  stateCheckedAt.delete(directory);
+}
+
+/**
+ * Creates a content source backed by a sync store
+ * @param directory - The sync store directory (see getSyncDirectory)
+ * @returns Content source reading the synced entries and assets
+ */
+export function createSyncSource(directory: string): ContentSource {
+  let source: ContentSource | undefined;
+  let loadedSyncedAt: string | undefined;
+
+  /**
+   * Returns the local source of the store, reloaded when a sync completed since the sync state
+   * was last read
+   */
+  const getSource = () => {
+    const now = Date.now();
+    const checkedAt = stateCheckedAt.get(directory);
+    if (source && checkedAt !== undefined && now - checkedAt < getSyncStateCheckMs()) return source;
+
+    stateCheckedAt.set(directory, now);
+    const state = readSyncState(directory);
+
+    if (!state) {
+      throw new Error(
+        `Sync store "${directory}" is empty. Run "npm run sync-content" before rendering with CONTENTSTACK_CONTENT_SOURCE=sync`
+      );
+    }
+
+    if (!source || state.syncedAt !== loadedSyncedAt) {
+      source = createLocalSource(directory);
+      loadedSyncedAt = state.syncedAt;
+    }
+
+    return source;
+  };
+
+  return {
+    name: 'sync',
+
+    findEntries<T>(query: EntriesQuery) {
+      return getSource().findEntries<T>(query);
+    },
+
+    fetchEntry<T>(query: EntryQuery) {
+      return getSource().fetchEntry<T>(query);
+    },
+
+    fetchTaxonomy(taxonomyUid: string) {
+      return getSource().fetchTaxonomy(taxonomyUid);
+    },
+  };
+}
@@ -0,0 +1,320 @@
+/**
+ * Sync Store
+ *
+ * Keeps the entries and assets received from the Contentstack Sync API on disk, in the layout
+ * of a stack export, so the local content source (local-source.ts) answers queries from it:
+ *
+ *   <directory>/sync-state.json                       sync token and time of the last sync
+ *   <directory>/content_types/<content type>.json     schema of each content type
+ *   <directory>/entries/<content type>/<locale>/      entries published in each locale
+ *   <directory>/assets/metadata.json                  published assets
+ *   <directory>/taxonomies/<taxonomy>.json            taxonomy terms (when a management token is set)
+ *
+ * Entries are stored under the locale they are published in, so entries published with
+ * fallback content are found without following the locale fallback chain.
+ *
+ * @security This module writes to the file system and must only run on the server.
+ */
+
+// Global
+import fs from 'fs';
+import path from 'path';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import type { ExportedTaxonomy } from './taxonomy-tree';
+
+export interface SyncState {
+  /** Token of the last completed sync, used to request the next delta */
+  syncToken: string;
+  /** ISO date of the last completed sync */
+  syncedAt: string;
+}
+
+/**
+ * An item of a Sync API response
+ * @see https://www.contentstack.com/docs/developers/apis/content-delivery-api#synchronization
+ */
+export interface SyncItem {
+  type:
+    | 'entry_published'
+    | 'entry_unpublished'
+    | 'entry_deleted'
+    | 'asset_published'
+    | 'asset_unpublished'
+    | 'asset_deleted'
+    | 'content_type_deleted';
+  content_type_uid?: string;
+  event_at?: string;
+  data: Record<string, any> & {
+    uid: string;
+    locale?: string;
+    url?: string;
+    publish_details?: { environment?: string; locale?: string };
+  };
+}
+
+/**
+ * A change applied to the store, used to revalidate the cached pages it affects
+ */
+export interface SyncChange {
+  type: SyncItem['type'];
+  uid: string;
+  contentTypeUid?: string;
+  locale?: string;
+  url?: string;
+}
+
+const STATE_FILE = 'sync-state.json';
+const ENTRIES_FILE = 'entries.json';
+
+/**
+ * Resolves the store directory of a site.
+ * Each site has its own store, as sites may read from different stacks or branches.
+ * @param site - The site to sync
+ */
+export function getSyncDirectory(site: SiteDefinition): string {
+  const baseDirectory = process.env.CONTENTSTACK_SYNC_DIR || '.contentstack-sync';
+  return path.resolve(baseDirectory, site.name);
+}
+
+function readJson<T>(filePath: string): T | undefined {
+  if (!fs.existsSync(filePath)) return undefined;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as T;
+}
+
+/**
+ * Writes a JSON file through a temporary file, so readers never see a partial file
+ */
+function writeJson(filePath: string, data: unknown): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const temporaryPath = `${filePath}.${process.pid}.tmp`;
+  fs.writeFileSync(temporaryPath, JSON.stringify(data));
+  fs.renameSync(temporaryPath, filePath);
+}
+
+/**
+ * Reads the state of the last completed sync
+ * @param directory - The store directory
+ * @returns The sync state, or undefined if the store was never synced
+ */
+export function readSyncState(directory: string): SyncState | undefined {
+  return readJson<SyncState>(path.join(directory, STATE_FILE));
+}
+
+/**
+ * Opens the store of a directory for writing.
+ * Changes are kept in memory until `commit` writes them together with the new sync state,
+ * so an interrupted sync leaves the previous state in place and is simply repeated.
+ * @param directory - The store directory
+ * @param options.reset - Start from an empty store (initial sync)
+ */
+export function openSyncStore(directory: string, { reset = false }: { reset?: boolean } = {}) {
+  const entryFiles = new Map<string, Record<string, SyncItem['data']>>();
+  const removedContentTypes = new Set<string>();
+  const changes: Array<SyncChange> = [];
+  let assets: Record<string, SyncItem['data']> | undefined;
+  let contentTypes: Array<{ uid: string }> | undefined;
+  let taxonomies: Array<ExportedTaxonomy> | undefined;
+
+  const entriesDirectory = (contentTypeUid: string) =>
+    path.join(directory, 'entries', contentTypeUid);
+
+  /**
+   * Loads the entries of a content type published in a locale
+   */
+  const getEntries = (contentTypeUid: string, locale: string) => {
+    const key = `${contentTypeUid}/${locale}`;
+    let entries = entryFiles.get(key);
+
+    if (!entries) {
+      entries =
+        reset || removedContentTypes.has(contentTypeUid)
+          ? {}
+          : readJson(path.join(entriesDirectory(contentTypeUid), locale, ENTRIES_FILE)) || {};
+      entryFiles.set(key, entries);
+    }
+
+    return entries;
+  };
+
+  /**
+   * Lists the locales a content type has entries in
+   */
+  const getLocales = (contentTypeUid: string) => {
+    const locales = new Set<string>();
+    const directoryPath = entriesDirectory(contentTypeUid);
+
+    if (!reset && fs.existsSync(directoryPath)) {
+      fs.readdirSync(directoryPath).forEach((locale) => locales.add(locale));
+    }
+
+    entryFiles.forEach((_entries, key) => {
+      const [keyContentType, locale] = key.split('/');
+      if (keyContentType === contentTypeUid) locales.add(locale);
+    });
+
+    return Array.from(locales);
+  };
+
+  const getAssets = () => {
+    if (!assets) {
+      assets = reset ? {} : readJson(path.join(directory, 'assets', 'metadata.json')) || {};
+    }
+
+    return assets;
+  };
+
+  return {
+    /**
+     * Applies the items of one Sync API response
+     * @param items - The published, unpublished and deleted entries and assets
+     */
+    applyItems(items: Array<SyncItem>) {
+      for (const { type, content_type_uid: contentTypeUid, data } of items) {
+        const locale = data.publish_details?.locale || data.locale;
+
+        switch (type) {
+          case 'entry_published':
+            if (!contentTypeUid || !locale) break;
+            getEntries(contentTypeUid, locale)[data.uid] = data;
+            break;
+
+          case 'entry_unpublished':
+            if (!contentTypeUid || !locale) break;
+            delete getEntries(contentTypeUid, locale)[data.uid];
+            break;
+
+          case 'entry_deleted':
+            if (!contentTypeUid) break;
+            getLocales(contentTypeUid).forEach(
+              (code) => delete getEntries(contentTypeUid, code)[data.uid]
+            );
+            break;
+
+          case 'asset_published':
+            getAssets()[data.uid] = data;
+            break;
+
+          case 'asset_unpublished':
+          case 'asset_deleted':
+            delete getAssets()[data.uid];
+            break;
+
+          case 'content_type_deleted': {
+            const uid = contentTypeUid || data.uid;
+            removedContentTypes.add(uid);
+            entryFiles.forEach((_entries, key) => {
+              if (key.startsWith(`${uid}/`)) entryFiles.delete(key);
+            });
+            break;
+          }
+        }
+
+        changes.push({
+          type,
+          uid: data.uid,
+          contentTypeUid,
+          locale,
+          url: typeof data.url === 'string' ? data.url : undefined,
+        });
+      }
+    },
+
+    /**
+     * Replaces the content type schemas used to resolve references and assets
+     * @param schemas - Every content type of the stack, with global field schemas inlined
+     */
+    setContentTypes(schemas: Array<{ uid: string }>) {
+      contentTypes = schemas;
+    },
+
+    /**
+     * Replaces the taxonomies used to match descendant terms and to name terms
+     * @param exported - Every taxonomy of the stack with its terms
+     */
+    setTaxonomies(exported: Array<ExportedTaxonomy>) {
+      taxonomies = exported;
+    },
+
+    /**
+     * Writes the changes and the new sync state to disk
+     * @param state - The sync state to store
+     * @returns The changes applied since the store was opened
+     */
+    commit(state: SyncState): Array<SyncChange> {
+      removedContentTypes.forEach((uid) => {
+        fs.rmSync(entriesDirectory(uid), { recursive: true, force: true });
+        fs.rmSync(path.join(directory, 'content_types', `${uid}.json`), { force: true });
+      });
+
+      entryFiles.forEach((entries, key) => {
+        const localeDirectory = path.join(directory, 'entries', key);
+
+        if (Object.keys(entries).length === 0) {
+          fs.rmSync(localeDirectory, { recursive: true, force: true });
+          return;
+        }
+
+        writeJson(path.join(localeDirectory, ENTRIES_FILE), entries);
+        writeJson(path.join(localeDirectory, 'index.json'), { '1': ENTRIES_FILE });
+      });
+
+      if (assets) {
+        writeJson(path.join(directory, 'assets', 'metadata.json'), assets);
+      }
+
+      if (contentTypes) {
+        contentTypes.forEach((contentType) =>
+          writeJson(path.join(directory, 'content_types', `${contentType.uid}.json`), contentType)
+        );
+      }
+
+      if (taxonomies) {
+        const taxonomiesPath = path.join(directory, 'taxonomies');
+        const uids = new Set(taxonomies.map(({ taxonomy }) => `${taxonomy.uid}.json`));
+
+        taxonomies.forEach((exported) =>
+          writeJson(path.join(taxonomiesPath, `${exported.taxonomy.uid}.json`), exported)
+        );
+
+        // The export lists every taxonomy: remove the deleted ones
+        if (fs.existsSync(taxonomiesPath)) {
+          fs.readdirSync(taxonomiesPath)
+            .filter((file) => !uids.has(file))
+            .forEach((file) => fs.rmSync(path.join(taxonomiesPath, file), { force: true }));
+        }
+      }
+
+      // A full sync replaces the store: remove what the new snapshot no longer contains
+      if (reset) {
+        const entriesPath = path.join(directory, 'entries');
+        const contentTypesPath = path.join(directory, 'content_types');
+
+        if (fs.existsSync(entriesPath)) {
+          fs.readdirSync(entriesPath).forEach((contentTypeUid) => {
+            fs.readdirSync(path.join(entriesPath, contentTypeUid))
+              .filter((locale) => !entryFiles.has(`${contentTypeUid}/${locale}`))
+              .forEach((locale) =>
+                fs.rmSync(path.join(entriesPath, contentTypeUid, locale), { recursive: true, force: true })
+              );
+          });
+        }
+
+        if (contentTypes && fs.existsSync(contentTypesPath)) {
+          const uids = new Set(contentTypes.map((contentType) => `${contentType.uid}.json`));
+          fs.readdirSync(contentTypesPath)
+            .filter((file) => !uids.has(file))
+            .forEach((file) => fs.rmSync(path.join(contentTypesPath, file), { force: true }));
+        }
+      }
+
+      // Written last: readers reload the store when the state changes
+      writeJson(path.join(directory, STATE_FILE), state);
+
+      return changes;
+    },
+  };
+}
+
+export type SyncStore = ReturnType<typeof openSyncStore>;
@@ -0,0 +1,135 @@
+/**
+ * Contentstack Sync
+ *
+ * Mirrors the published content of a site's stack into the sync store (sync-store.ts) with the
+ * Sync API. The first run performs an initial sync; later runs request only the entries and
+ * assets published, unpublished or deleted since the stored sync token.
+ *
+ * Started by `npm run sync-content` and by the /api/sync webhook.
+ * Set CONTENTSTACK_CONTENT_SOURCE=sync to render pages from the store.
+ *
+ * @see https://www.contentstack.com/docs/developers/apis/content-delivery-api#synchronization
+ * @security This module writes to the file system and must only run on the server.
+ */
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { SiteService } from '../services/site-service';
+import { createLogger } from '../logger/logger';
+import { getSiteStack } from './delivery-stack';
+import { exportTaxonomies } from './management-stack';
+import { invalidateSyncState } from './sync-source';
+import {
+  getSyncDirectory,
+  openSyncStore,
+  readSyncState,
+  type SyncChange,
+  type SyncItem,
+} from './sync-store';
+
+const logger = createLogger('sync');
+
+export interface SyncResult {
+  site: string;
+  /** `initial` when the store was rebuilt, `delta` when only changes were applied */
+  mode: 'initial' | 'delta';
+  changes: Array<SyncChange>;
+  syncedAt: string;
+  durationMs: number;
+}
+
+interface SyncResponse {
+  items?: Array<SyncItem>;
+  pagination_token?: string;
+  sync_token?: string;
+}
+
+// Syncs in progress by store directory, so concurrent triggers for the same store share one run
+const runningSyncs = new Map<string, { full: boolean; result: Promise<SyncResult> }>();
+
+/**
+ * Runs the sync of one site
+ */
+async function runSync(site: SiteDefinition, full: boolean): Promise<SyncResult> {
+  const startedAt = Date.now();
+  const directory = getSyncDirectory(site);
+  const previousState = full ? undefined : readSyncState(directory);
+  const mode = previousState ? 'delta' : 'initial';
+  const stack = getSiteStack(site, false);
+  const store = openSyncStore(directory, { reset: !previousState });
+
+  logger.info(`Starting ${mode} sync`, { site: site.name, directory });
+
+  // Each response holds up to 100 items and a pagination token until the last page,
+  // which carries the sync token of the next delta sync
+  let response: SyncResponse = await stack.sync(
+    previousState ? { syncToken: previousState.syncToken } : {}
+  );
+  store.applyItems(response.items || []);
+
+  while (response.pagination_token) {
+    response = await stack.sync({ paginationToken: response.pagination_token });
+    store.applyItems(response.items || []);
+  }
+
+  if (!response.sync_token) {
+    throw new Error(`Sync of site "${site.name}" ended without a sync token`);
+  }
+
+  // Schemas are needed to resolve references and assets; the Sync API does not return them
+  const { content_types: contentTypes } = (await stack
+    .contentType()
+    .includeGlobalFieldSchema()
+    .find()) as { content_types?: Array<{ uid: string }> };
+
+  if (contentTypes) store.setContentTypes(contentTypes);
+
+  // The Sync API does not return taxonomies: mirror them when the management API is available
+  if (site.stack?.managementToken || process.env.CONTENTSTACK_MANAGEMENT_TOKEN) {
+    store.setTaxonomies(await exportTaxonomies(site.stack));
+  }
+
+  const syncedAt = new Date().toISOString();
+  const changes = store.commit({ syncToken: response.sync_token, syncedAt });
+  invalidateSyncState(directory);
+  const durationMs = Date.now() - startedAt;
+
+  logger.info(`Completed ${mode} sync`, {
+    site: site.name,
+    changes: changes.length,
+    durationMs,
+  });
+
+  return { site: site.name, mode, changes, syncedAt, durationMs };
+}
+
+/**
+ * Syncs the store of a site with its stack. Triggers arriving during a sync of the store share
+ * its result, except full syncs arriving during a delta sync, which run once it is done.
+ * @param site - The site to sync (defaults to the default site)
+ * @param options.full - Rebuild the store with an initial sync instead of applying a delta
+ * @returns The applied changes
+ */
+export function syncContent(
+  site: SiteDefinition = SiteService.getDefaultSite(),
+  { full = false }: { full?: boolean } = {}
+): Promise<SyncResult> {
+  const directory = getSyncDirectory(site);
+  const running = runningSyncs.get(directory);
+
+  if (running && (running.full || !full)) return running.result;
+
+  // Never two syncs writing the same store at once
+  const previous = running ? running.result.catch(() => undefined) : Promise.resolve();
+  const sync = {
+    full,
+    result: previous
+      .then(() => runSync(site, full))
+      .finally(() => {
+        if (runningSyncs.get(directory) === sync) runningSyncs.delete(directory);
+      }),
+  };
+  runningSyncs.set(directory, sync);
+
+  return sync.result;
+}
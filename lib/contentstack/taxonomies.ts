@@ -0,0 +1,105 @@
+/**
+ * Taxonomies
+ *
+ * Fetches taxonomies with their term hierarchy, and resolves the terms assigned to entries
+ * (their `taxonomies` field) to names and paths for metadata, the data layer and listings.
+ * Walk the hierarchy with the helpers of taxonomy-tree.ts (findTerm, getTermPath, ...).
+ *
+ * Entries are queried by term with getEntriesByTaxonomy (entries.ts).
+ */
+
+// Global
+import { cache } from 'react';
+
+// Local
+import type { IEntryTaxonomy } from '../types';
+import { createLogger } from '../logger/logger';
+import { fetchTaxonomyWithTags } from './cache-tags';
+import { errorResult, FetchResult, foundResult, getResultData, notFoundResult } from './fetch-result';
+import { resolveSite } from './site';
+import { buildTaxonomy, getTermPath, type Taxonomy } from './taxonomy-tree';
+
+const logger = createLogger('taxonomies');
+
+/**
+ * A term assigned to an entry, with the names of its taxonomy and ancestors
+ */
+export interface ResolvedTerm {
+  taxonomyUid: string;
+  taxonomyName: string;
+  termUid: string;
+  termName: string;
+  /** Term names from the root term to the term itself */
+  path: Array<string>;
+}
+
+/**
+ * Function to fetch a taxonomy with its term hierarchy
+ * @param taxonomyUid - The taxonomy UID
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @returns The taxonomy, `not-found` when the stack has no such taxonomy, or `error` when the fetch failed
+ */
+export const getTaxonomy = cache(async (
+  taxonomyUid: string,
+  siteName?: string
+): Promise<FetchResult<Taxonomy>> => {
+  if (!taxonomyUid) return notFoundResult();
+
+  try {
+    const site = await resolveSite(siteName);
+    const exported = await fetchTaxonomyWithTags(taxonomyUid, site);
+    if (!exported) return notFoundResult();
+
+    return foundResult(buildTaxonomy(exported));
+  } catch (err) {
+    const message = `Error while fetching taxonomy "${taxonomyUid}"`;
+    logger.error(message, { taxonomy: taxonomyUid, error: err });
+    return errorResult(message, err);
+  }
+});
+
+/**
+ * Reads the terms assigned to an entry. Entries of content types without a taxonomy field have none.
+ * @param entry - The entry
+ */
+export function getEntryTaxonomies(entry: object | undefined): Array<IEntryTaxonomy> {
+  const { taxonomies } = (entry || {}) as { taxonomies?: unknown };
+  return Array.isArray(taxonomies) ? taxonomies : [];
+}
+
+/**
+ * Resolves the terms assigned to an entry to their names and paths.
+ * Terms of a taxonomy that cannot be loaded are named by their UID.
+ * @param entry - The entry
+ * @param siteName - Optional site name (defaults to the site of the current request)
+ * @returns The resolved terms, in the order of the entry's `taxonomies` field
+ */
+export async function resolveEntryTerms(
+  entry: object | undefined,
+  siteName?: string
+): Promise<Array<ResolvedTerm>> {
+  const taxonomies = getEntryTaxonomies(entry);
+  if (taxonomies.length === 0) return [];
+
+  const taxonomyUids = Array.from(new Set(taxonomies.map(({ taxonomy_uid }) => taxonomy_uid)));
+  const loaded = new Map<string, Taxonomy | undefined>(
+    await Promise.all(
+      taxonomyUids.map(
+        async (uid) => [uid, getResultData(await getTaxonomy(uid, siteName))] as const
+      )
+    )
+  );
+
+  return taxonomies.map(({ taxonomy_uid: taxonomyUid, term_uid: termUid }) => {
+    const taxonomy = loaded.get(taxonomyUid);
+    const path = taxonomy ? getTermPath(taxonomy, termUid).map(({ name }) => name) : [];
+
+    return {
+      taxonomyUid,
+      taxonomyName: taxonomy?.name || taxonomyUid,
+      termUid,
+      termName: path[path.length - 1] || termUid,
+      path: path.length > 0 ? path : [termUid],
+    };
+  });
+}
@@ -0,0 +1,58 @@
+/**
+ * Taxonomy Export
+ *
+ * The delivery API does not return the term hierarchy of taxonomies, and the management API
+ * needs a management token the server must not hold at runtime. The taxonomies of each site's
+ * stack are exported at build time (scripts/fetch-taxonomies.ts), and the delivery content
+ * source reads them from disk:
+ *
+ *   <directory>/<site>/<taxonomy>.json   taxonomy and its flat list of terms
+ */
+
+// Global
+import fs from 'fs';
+import path from 'path';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import type { ExportedTaxonomy } from './taxonomy-tree';
+
+/**
+ * Resolves the directory of the exported taxonomies of a site.
+ * Each site has its own directory, as sites may read from different stacks or branches.
+ * @param site - The site
+ */
+export function getTaxonomyDirectory(site: SiteDefinition): string {
+  const baseDirectory = process.env.CONTENTSTACK_TAXONOMY_DIR || '.contentstack-taxonomies';
+  return path.resolve(baseDirectory, site.name);
+}
+
+/**
+ * Reads an exported taxonomy
+ * @param directory - The taxonomy directory of the site (see getTaxonomyDirectory)
+ * @param taxonomyUid - The taxonomy UID
+ * @returns The taxonomy, or undefined if it was not exported
+ */
+export function readExportedTaxonomy(
+  directory: string,
+  taxonomyUid: string
+): ExportedTaxonomy | undefined {
+  const filePath = path.join(directory, `${taxonomyUid}.json`);
+  if (!fs.existsSync(filePath)) return undefined;
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ExportedTaxonomy;
+}
+
+/**
+ * Replaces the exported taxonomies of a site
+ * @param directory - The taxonomy directory of the site (see getTaxonomyDirectory)
+ * @param taxonomies - Every taxonomy of the site's stack with its terms
+ */
+export function writeExportedTaxonomies(directory: string, taxonomies: Array<ExportedTaxonomy>): void {
+  // The export lists every taxonomy: start from an empty directory to drop the deleted ones
+  fs.rmSync(directory, { recursive: true, force: true });
+  fs.mkdirSync(directory, { recursive: true });
+
+  taxonomies.forEach((exported) =>
+    fs.writeFileSync(path.join(directory, `${exported.taxonomy.uid}.json`), JSON.stringify(exported))
+  );
+}
@@ -0,0 +1,129 @@
+/**
+ * Taxonomy Trees
+ *
+ * Builds the term hierarchy of a taxonomy from its flat list of terms, in the format of the
+ * management API taxonomy export (also written by `npm run export-content` and the sync store),
+ * and walks it.
+ */
+
+/**
+ * A taxonomy as exported by the management API
+ * @see https://www.contentstack.com/docs/developers/apis/content-management-api#export-a-taxonomy
+ */
+export interface ExportedTaxonomy {
+  taxonomy: { uid: string; name: string; description?: string };
+  terms: Array<{ uid: string; name: string; parent_uid?: string | null; order?: number }>;
+}
+
+/**
+ * A term with its descendants
+ */
+export interface TaxonomyTerm {
+  uid: string;
+  name: string;
+  /** UID of the parent term, null for root terms */
+  parentUid: string | null;
+  /** 1 for root terms */
+  depth: number;
+  children: Array<TaxonomyTerm>;
+}
+
+/**
+ * A taxonomy with its term hierarchy
+ */
+export interface Taxonomy {
+  uid: string;
+  name: string;
+  description?: string;
+  /** Root terms, in editor order */
+  terms: Array<TaxonomyTerm>;
+}
+
+/**
+ * Builds the term hierarchy of an exported taxonomy.
+ * Terms whose parent is missing from the export are treated as root terms.
+ * @param exported - The taxonomy and its flat list of terms
+ */
+export function buildTaxonomy({ taxonomy, terms }: ExportedTaxonomy): Taxonomy {
+  const sortedTerms = [...terms].sort((a, b) => (a.order ?? 0) - (b.order ?? 0));
+  const uids = new Set(sortedTerms.map(({ uid }) => uid));
+  const childrenByParent = new Map<string | null, typeof sortedTerms>();
+
+  sortedTerms.forEach((term) => {
+    const parentUid = term.parent_uid && uids.has(term.parent_uid) ? term.parent_uid : null;
+    childrenByParent.set(parentUid, [...(childrenByParent.get(parentUid) || []), term]);
+  });
+
+  const buildLevel = (parentUid: string | null, depth: number): Array<TaxonomyTerm> =>
+    (childrenByParent.get(parentUid) || []).map(({ uid, name }) => ({
+      uid,
+      name,
+      parentUid,
+      depth,
+      children: buildLevel(uid, depth + 1),
+    }));
+
+  return {
+    uid: taxonomy.uid,
+    name: taxonomy.name,
+    description: taxonomy.description,
+    terms: buildLevel(null, 1),
+  };
+}
+
+/**
+ * Lists every term of a taxonomy, depth-first in editor order
+ * @param taxonomy - The taxonomy
+ */
+export function flattenTerms(taxonomy: Taxonomy): Array<TaxonomyTerm> {
+  const walk = (terms: Array<TaxonomyTerm>): Array<TaxonomyTerm> =>
+    terms.flatMap((term) => [term, ...walk(term.children)]);
+
+  return walk(taxonomy.terms);
+}
+
+/**
+ * Finds a term of a taxonomy
+ * @param taxonomy - The taxonomy
+ * @param termUid - The term UID
+ * @returns The term with its descendants, or undefined if the taxonomy has no such term
+ */
+export function findTerm(taxonomy: Taxonomy, termUid: string): TaxonomyTerm | undefined {
+  return flattenTerms(taxonomy).find(({ uid }) => uid === termUid);
+}
+
+/**
+ * Lists the ancestors of a term followed by the term itself (e.g. for breadcrumbs)
+ * @param taxonomy - The taxonomy
+ * @param termUid - The term UID
+ * @returns The terms from the root to the term, or an empty array if the term does not exist
+ */
+export function getTermPath(taxonomy: Taxonomy, termUid: string): Array<TaxonomyTerm> {
+  const terms = new Map(flattenTerms(taxonomy).map((term) => [term.uid, term]));
+  const path: Array<TaxonomyTerm> = [];
+
+  for (let term = terms.get(termUid); term; term = term.parentUid ? terms.get(term.parentUid) : undefined) {
+    path.unshift(term);
+  }
+
+  return path;
+}
+
+/**
+ * Lists the UIDs of the descendants of a term
+ * @param taxonomy - The taxonomy
+ * @param termUid - The term UID
+ * @param levels - Levels below the term to include (defaults to every level)
+ */
+export function getDescendantTermUids(
+  taxonomy: Taxonomy,
+  termUid: string,
+  levels: number = Infinity
+): Array<string> {
+  const collect = (terms: Array<TaxonomyTerm>, remainingLevels: number): Array<string> =>
+    remainingLevels <= 0
+      ? []
+      : terms.flatMap((term) => [term.uid, ...collect(term.children, remainingLevels - 1)]);
+
+  return collect(findTerm(taxonomy, termUid)?.children || [], levels);
+}
@@ -0,0 +1,85 @@
+/**
+ * Timeline Preview
+ *
+ * Renders the site as it will look at a future date-time or once a Contentstack release is
+ * deployed, so editors can check a launch before it is published. Live preview only shows
+ * the current drafts.
+ *
+ * The middleware reads the `preview_timestamp` and `release_id` query parameters (sent by the
+ * Timeline of Live Preview, or by the TimelinePreviewToolbar), keeps them in a cookie while the
+ * editor navigates, and forwards them in the x-timeline-preview request header. For the rest
+ * of the request, every fetcher (pages, header, footer, dictionary, references, ...) reads
+ * from a content source bound to that timeline.
+ *
+ * Only available to preview requests (see preview-mode.ts) with the delivery content source.
+ */
+
+// Global
+import { headers } from 'next/headers';
+import { cache } from 'react';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import {
+  TIMELINE_PREVIEW_HEADER,
+  TimelineService,
+  type TimelinePreview,
+} from '../services/timeline-service';
+import { createLogger } from '../logger/logger';
+import type { ContentSource } from './content-source';
+import { createDeliverySource } from './delivery-source';
+import { createStack } from './delivery-stack';
+import { isPreviewRequest } from './preview-mode';
+import { withResilience } from './resilience';
+import { getTaxonomyDirectory } from './taxonomy-export';
+
+const logger = createLogger('timeline');
+
+// Timeline sources kept in memory, least recently used first. Editors rarely compare
+// more than a few dates or releases at once.
+const TIMELINE_SOURCES_MAX_ENTRIES = 20;
+
+const timelineSources = new Map<string, ContentSource>();
+
+/**
+ * Get the timeline preview of the current request.
+ * Outside a request (build time, scripts) and outside preview requests there is none.
+ * @returns The timeline preview, or undefined when the site renders its current content
+ */
+export const getTimelinePreview = cache(async (): Promise<TimelinePreview | undefined> => {
+  if (!(await isPreviewRequest())) return undefined;
+
+  try {
+    const requestHeaders = await headers();
+    return TimelineService.parse(requestHeaders.get(TIMELINE_PREVIEW_HEADER)) || undefined;
+  } catch {
+    return undefined;
+  }
+});
+
+/**
+ * Get the content source reading a site's content at a timeline preview
+ * @param site - The site
+ * @param timeline - The date or release to read the content at
+ * @returns The shared timeline source of the site and timeline
+ */
+export function getTimelineSource(site: SiteDefinition, timeline: TimelinePreview): ContentSource {
+  const key = `${site.name}:${TimelineService.serialize(timeline)}`;
+  let source = timelineSources.get(key);
+
+  if (source) {
+    timelineSources.delete(key);
+  } else {
+    source = withResilience(
+      createDeliverySource(createStack(site.stack, { timeline }), getTaxonomyDirectory(site))
+    );
+    logger.debug('Created timeline content source', { site: site.name, ...timeline });
+  }
+
+  timelineSources.set(key, source);
+  if (timelineSources.size > TIMELINE_SOURCES_MAX_ENTRIES) {
+    timelineSources.delete(timelineSources.keys().next().value as string);
+  }
+
+  return source;
+}
@@ -0,0 +1,86 @@
+// Global
+import { timingSafeEqual } from 'crypto';
+
+// Local
+import { SUPPORTED_LOCALES } from '../../constants/locales';
+import { cacheTags, GLOBAL_CONTENT_TYPES } from './cache-tags';
+
+/**
+ * Header carrying the shared secret of Contentstack webhooks
+ */
+export const WEBHOOK_SECRET_HEADER = 'x-revalidate-secret';
+
+/**
+ * Subset of the Contentstack webhook payload used for revalidation
+ * @see https://www.contentstack.com/docs/developers/set-up-webhooks/webhook-events
+ */
+export interface ContentstackWebhookPayload {
+  module?: 'entry' | 'asset' | 'taxonomy' | 'term' | string;
+  event?: string;
+  data?: {
+    content_type?: { uid?: string };
+    entry?: { uid?: string; url?: string; locale?: string };
+    asset?: { uid?: string };
+    taxonomy?: { uid?: string };
+    term?: { uid?: string; taxonomy_uid?: string };
+    locale?: string;
+  };
+}
+
+/**
+ * Compares the shared secret with CONTENTSTACK_WEBHOOK_SECRET without leaking timing information
+ * @param received - The secret sent with the request
+ */
+export function isValidWebhookSecret(received: string | null): boolean {
+  const expected = process.env.CONTENTSTACK_WEBHOOK_SECRET;
+  if (!expected || !received) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+}
+
+/**
+ * Maps a webhook payload to the cache tags of the data it affects
+ * @param payload - The Contentstack webhook payload
+ * @returns The tags to revalidate
+ */
+export function getTagsForPayload(payload: ContentstackWebhookPayload): Array<string> {
+  const tags = new Set<string>();
+
+  if (payload.module === 'asset') {
+    // Responses embedding the asset are tagged with its UID (see getResponseTags)
+    const assetUid = payload.data?.asset?.uid;
+    return assetUid ? [cacheTags.asset(assetUid), cacheTags.assets()] : [];
+  }
+
+  if (payload.module === 'taxonomy' || payload.module === 'term') {
+    // Term changes affect term names and the descendants matched by taxonomy listings
+    const taxonomyUid = payload.data?.taxonomy?.uid || payload.data?.term?.taxonomy_uid;
+    return taxonomyUid ? [cacheTags.taxonomy(taxonomyUid)] : [];
+  }
+
+  const contentTypeUid = payload.data?.content_type?.uid;
+  const entry = payload.data?.entry;
+
+  if (!contentTypeUid || !entry?.uid) return [];
+
+  // Responses embedding the entry are tagged with its UID, or with the listing tag of its
+  // content type when they embed too many entries (see getResponseTags)
+  tags.add(cacheTags.entry(entry.uid));
+  tags.add(cacheTags.list(contentTypeUid));
+
+  if (GLOBAL_CONTENT_TYPES.includes(contentTypeUid)) {
+    // Header, footer, dictionary and site settings are used by every page
+    tags.add(cacheTags.contentType(contentTypeUid));
+  } else if (entry.url) {
+    // Unlocalized pages are served in every locale through fallback
+    SUPPORTED_LOCALES.forEach((locale) => tags.add(cacheTags.url(locale, entry.url as string)));
+  }
+
+  return Array.from(tags);
+}
@@ -1,8 +1,9 @@
 import { getSiteSettings } from "../contentstack/entries";
+import { getResultData } from "../contentstack/fetch-result";
 
 export const getCSPDirectives = async (): Promise<string> => {
     const isDev = process.env.NODE_ENV === 'development';
-    const siteSettings = await getSiteSettings();
+    const siteSettings = getResultData(await getSiteSettings());
 
     if (siteSettings?.content_security_policy_configuration) {
         const cspSettings = siteSettings.content_security_policy_configuration;
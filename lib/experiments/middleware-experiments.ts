@@ -0,0 +1,83 @@
+/**
+ * Middleware Experiments
+ *
+ * Assigns the visitors of experiment pages to a variant in middleware.ts
+ * (ENABLE_EXPERIMENTS=true). The variant is drawn by weight on the first visit and kept in a
+ * cookie per experiment, so visitors see the same variant on every visit. The page renders the
+ * entry of the variant at the control URL (see SharedPageLayout).
+ *
+ * The experiments of each site are polled from /api/experiments and refreshed in the
+ * background (EXPERIMENTS_REFRESH_MS, default 60s, see lib/middleware/site-state.ts). When they
+ * cannot be fetched, the last ones are kept.
+ */
+
+// Global
+import { NextRequest, NextResponse } from 'next/server';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { createLogger } from '../logger/logger';
+import { createSiteState } from '../middleware/site-state';
+import {
+  ExperimentService,
+  type Experiment,
+  type ExperimentAssignment,
+} from '../services/experiment-service';
+
+const logger = createLogger('middleware-experiments');
+
+// Running experiments of each site
+const experimentTables = createSiteState<Array<Experiment>>({
+  name: 'experiments',
+  apiPath: '/api/experiments',
+  refreshMsVariable: 'EXPERIMENTS_REFRESH_MS',
+  defaultRefreshMs: 60 * 1000,
+  parse: (experiments) => experiments as Array<Experiment>,
+  getFallback: () => [],
+  onLoad: (experiments, _previous, site) =>
+    logger.debug('Loaded experiments', { site: site.name, experiments: experiments.length }),
+  logger,
+});
+
+// Visitors keep their variant for the usual length of an experiment
+const EXPERIMENT_COOKIE_MAX_AGE = 90 * 24 * 60 * 60;
+
+/**
+ * Assign a request to a variant of the experiment running on its page
+ * @param request - The request
+ * @param site - The site of the request
+ * @param urlPath - The path of the page, without locale prefix
+ * @param waitUntil - Keeps the middleware alive while the experiments are refreshed
+ * @returns The assignment, or undefined when no experiment runs on the page
+ */
+export async function assignExperiment(
+  request: NextRequest,
+  site: SiteDefinition,
+  urlPath: string,
+  waitUntil: (promise: Promise<unknown>) => void
+): Promise<ExperimentAssignment | undefined> {
+  const experiments = await experimentTables.get(site, waitUntil);
+  const experiment = ExperimentService.findExperiment(experiments, urlPath);
+  if (!experiment) return undefined;
+
+  const cookieValue = request.cookies.get(ExperimentService.getCookieName(experiment.uid))?.value;
+
+  return {
+    experimentUid: experiment.uid,
+    controlUrl: experiment.controlUrl,
+    variant: ExperimentService.assignVariant(experiment, cookieValue),
+  };
+}
+
+/**
+ * Keep the variant of a visitor in the cookie of the experiment
+ * @param response - The response of the middleware
+ * @param assignment - The assignment of the request
+ */
+export function setExperimentCookie(response: NextResponse, assignment: ExperimentAssignment): void {
+  response.cookies.set(ExperimentService.getCookieName(assignment.experimentUid), assignment.variant.key, {
+    path: '/',
+    maxAge: EXPERIMENT_COOKIE_MAX_AGE,
+    sameSite: 'lax',
+  });
+}
@@ -5,20 +5,20 @@ import { toPascalCase } from '@/utils/string-utils';
 import { ISystemFields } from '@/.generated';
 import { isLanguageSupported } from '../contentstack/language';
 import { DEFAULT_LOCALE } from '@/constants/locales';
+import { createLogger } from '../logger/logger';
+import type { ReferencedEntry } from '../contentstack/reference-loader';
+
+const logger = createLogger('use-entry-data');
 
 interface UseEntryDataParams {
   references: Array<ISystemFields>;
   skip?: boolean;
   referencesToInclude?: string | Array<string>;
+  /** Entries resolved on the server with loadReferences; the hook does not fetch them again */
+  initialData?: EntriesDataType<any>;
 }
 
-type EntryDataType<T> = {
-  componentName: string;
-  componentId: string;
-  data: T | undefined;
-};
-
-type EntriesDataType<T> = Array<EntryDataType<T>>;
+type EntriesDataType<T> = Array<ReferencedEntry<T>>;
 interface UseEntryDataResult<T> {
   data: EntriesDataType<T> | null;
   loading: boolean;
@@ -27,7 +27,9 @@ interface UseEntryDataResult<T> {
 }
 
 /**
- * Custom hook to fetch entry data from Contentstack for multiple references
+ * Custom hook to fetch entry data from Contentstack for multiple references.
+ * Pass `initialData` resolved on the server (see lib/contentstack/reference-loader.ts) to render
+ * the entries in the initial HTML; the hook then only fetches when `refetch` is called.
  * @param params Object containing references array
  * @returns Object with data array, loading state, error, and refetch function
  */
@@ -35,9 +37,10 @@ export const useGetEntriesByUids = <T = any>({
   references = [],
   skip = false,
   referencesToInclude = '',
+  initialData,
 }: UseEntryDataParams): UseEntryDataResult<T> => {
-  const [data, setData] = useState<EntriesDataType<T> | null>(null);
-  const [loading, setLoading] = useState<boolean>(!skip);
+  const [data, setData] = useState<EntriesDataType<T> | null>(initialData ?? null);
+  const [loading, setLoading] = useState<boolean>(!skip && !initialData);
   const [error, setError] = useState<Error | null>(null);
   const params = useParams();
 
@@ -51,6 +54,7 @@ export const useGetEntriesByUids = <T = any>({
   const referencesToIncludeKey = Array.isArray(referencesToInclude)
     ? JSON.stringify(referencesToInclude)
     : referencesToInclude;
+  const initialDataKey = initialData ? JSON.stringify(initialData) : undefined;
 
   const fetchData = useCallback(async () => {
     if (references.length === 0 || skip) {
@@ -84,15 +88,20 @@ export const useGetEntriesByUids = <T = any>({
       // Create an array of promises for each content type
       const entryPromises = Object.entries(referencesByContentType).map(
         async ([contentTypeUid, uids]) => {
-          const response = await getEntriesByUids({
+          const result = await getEntriesByUids({
             contentTypeUid,
             entryUids: uids, // Pass array of UIDs
             referencesToInclude,
             locale: language, // Pass language from URL params
           });
 
+          // Surface fetch failures through the hook's error state
+          if (result.status === 'error') throw result.error;
+
           // If no entries found, return empty array
-          if (!response) return [];
+          if (result.status === 'not-found') return [];
+
+          const response = result.data;
 
           // Map each entry to the required format
           return response.entries?.map((entryData) => ({
@@ -110,7 +119,7 @@ export const useGetEntriesByUids = <T = any>({
       setData(entriesData);
       setError(null);
     } catch (err) {
-      console.error('Error fetching entry data:', err);
+      logger.error('Error fetching entry data', { locale: language, error: err });
       setError(err instanceof Error ? err : new Error('Failed to fetch entry data'));
       setData(null);
     } finally {
@@ -119,10 +128,17 @@ export const useGetEntriesByUids = <T = any>({
   }, [references, skip, referencesToInclude, language]);
 
   useEffect(() => {
+    // Entries resolved on the server are already rendered
+    if (initialData) {
+      setData(initialData);
+      setLoading(false);
+      return;
+    }
+
     fetchData();
     // Dependencies use stringified versions to prevent infinite loops when array references change
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [referencesKey, skip, referencesToIncludeKey, language]);
+  }, [referencesKey, skip, referencesToIncludeKey, language, initialDataKey]);
 
   return { data, loading, error, refetch: fetchData };
 };
@@ -0,0 +1,153 @@
+/**
+ * Structured Logger
+ *
+ * Emits one JSON line per log entry with the level, module, message and context
+ * (request ID, locale, content type, entry UID, duration), so a failing request can be
+ * followed through the log pipeline by its request ID.
+ *
+ * Output format:
+ * - `json`: one JSON object per line (default in production)
+ * - `pretty`: human readable single line (default otherwise)
+ * Override with LOG_FORMAT=json|pretty. Set the minimum level with LOG_LEVEL (default `info`).
+ *
+ * @example
+ * const logger = createLogger('entries');
+ * logger.error('Error while fetching page', { locale, contentType: 'page', error });
+ */
+
+// Local
+import { getRequestId } from './request-context';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * Context attached to a log entry. Known keys are listed for consistency across modules;
+ * any other key is logged as is.
+ */
+export interface LogContext {
+  requestId?: string;
+  locale?: string;
+  contentType?: string;
+  entryUid?: string;
+  durationMs?: number;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+  /** Creates a logger that adds the given context to every entry */
+  child(context: LogContext): Logger;
+}
+
+const LEVEL_PRIORITY: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+/**
+ * Reads the minimum level from LOG_LEVEL
+ */
+function getMinimumLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  return level && level in LEVEL_PRIORITY ? level : 'info';
+}
+
+/**
+ * Reads the output format from LOG_FORMAT, defaulting to JSON in production
+ */
+function isPrettyFormat(): boolean {
+  const format = process.env.LOG_FORMAT?.toLowerCase();
+  if (format) return format === 'pretty';
+  return process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Converts an error into plain properties, keeping the SDK status and error code
+ */
+function serializeError(error: unknown): unknown {
+  if (!(error instanceof Error)) return error;
+
+  const { status, statusCode, error_code, cause } = error as Error & Record<string, unknown>;
+
+  return {
+    name: error.name,
+    message: error.message,
+    ...(status !== undefined && { status }),
+    ...(statusCode !== undefined && { statusCode }),
+    ...(error_code !== undefined && { errorCode: error_code }),
+    ...(cause !== undefined && { cause: serializeError(cause) }),
+    stack: error.stack,
+  };
+}
+
+/**
+ * Formats an entry for humans: `12:00:00.000 ERROR [entries] message key=value ...`
+ */
+function formatPretty(entry: Record<string, unknown>): string {
+  const { time, level, module, msg, error, ...context } = entry;
+  const contextText = Object.entries(context)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+    .join(' ');
+  const errorText =
+    error && typeof error === 'object' && 'stack' in error && error.stack
+      ? `\n${error.stack}`
+      : error
+        ? ` error=${JSON.stringify(error)}`
+        : '';
+
+  return `${String(time).slice(11, 23)} ${String(level).toUpperCase().padEnd(5)} [${module}] ${msg}${contextText ? ` ${contextText}` : ''}${errorText}`;
+}
+
+/**
+ * Writes one log entry
+ */
+function write(level: LogLevel, module: string, message: string, context: LogContext): void {
+  if (LEVEL_PRIORITY[level] < LEVEL_PRIORITY[getMinimumLevel()]) return;
+
+  const { error, ...rest } = context;
+  const entry: Record<string, unknown> = {
+    time: new Date().toISOString(),
+    level,
+    module,
+    msg: message,
+    requestId: getRequestId(),
+    ...rest,
+    ...(error !== undefined && { error: serializeError(error) }),
+  };
+
+  const line = isPrettyFormat() ? formatPretty(entry) : JSON.stringify(entry);
+
+  if (level === 'error') {
+    console.error(line);
+  } else if (level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * Creates a logger for a module
+ * @param module - Name of the module writing the entries (e.g. 'entries', 'sitemap')
+ * @param baseContext - Context added to every entry
+ * @returns The logger
+ */
+export function createLogger(module: string, baseContext: LogContext = {}): Logger {
+  const log = (level: LogLevel) => (message: string, context: LogContext = {}) =>
+    write(level, module, message, { ...baseContext, ...context });
+
+  return {
+    debug: log('debug'),
+    info: log('info'),
+    warn: log('warn'),
+    error: log('error'),
+    child: (context) => createLogger(module, { ...baseContext, ...context }),
+  };
+}
@@ -0,0 +1,90 @@
+// Global
+import type { AsyncLocalStorage } from 'async_hooks';
+import { headers } from 'next/headers';
+import { cache } from 'react';
+
+/**
+ * Request header carrying the ID generated by the middleware for each request
+ */
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+interface RequestContext {
+  requestId?: string;
+}
+
+/**
+ * Request-scoped store for the request ID of pages and layouts.
+ * React `cache` creates one store per server request. Outside a React server render
+ * (middleware, route handlers, scripts, client components) every call gets a fresh, empty store.
+ */
+const getRequestContextStore = cache((): RequestContext => ({}));
+
+/**
+ * Store for the request ID of the middleware and route handlers, which run outside a React
+ * render. Next.js provides AsyncLocalStorage globally on the server and in the edge runtime;
+ * it is undefined in the browser.
+ */
+const AsyncLocalStorageClass = (
+  globalThis as { AsyncLocalStorage?: typeof AsyncLocalStorage }
+).AsyncLocalStorage;
+const requestContextStorage = AsyncLocalStorageClass
+  ? new AsyncLocalStorageClass<RequestContext>()
+  : undefined;
+
+/**
+ * Generates a request ID
+ */
+export function createRequestId(): string {
+  return crypto.randomUUID();
+}
+
+/**
+ * Get the ID of the request being handled
+ * @returns The request ID, or undefined outside a request
+ */
+export function getRequestId(): string | undefined {
+  return requestContextStorage?.getStore()?.requestId || getRequestContextStore().requestId;
+}
+
+/**
+ * Reads the request ID set by the middleware (or generates one for routes the middleware
+ * skips) and stores it for the loggers of the current request.
+ * Call once at the top of pages and layouts.
+ * @param requestHeaders - The request headers
+ * @returns The request ID
+ */
+export function initRequestContext(requestHeaders: Pick<Headers, 'get'>): string {
+  const store = getRequestContextStore();
+
+  if (!store.requestId) {
+    store.requestId = requestHeaders.get(REQUEST_ID_HEADER) || createRequestId();
+  }
+
+  return store.requestId;
+}
+
+/**
+ * Runs a callback with a request ID for the loggers it calls, e.g. the middleware
+ * @param requestId - The request ID
+ * @param callback - The code handling the request
+ * @returns The result of the callback
+ */
+export function runWithRequestContext<T>(requestId: string, callback: () => T): T {
+  return requestContextStorage ? requestContextStorage.run({ requestId }, callback) : callback();
+}
+
+/**
+ * Wraps a route handler (or a metadata route such as sitemap.xml) so its loggers use the
+ * request ID set by the middleware, or a new one for the routes the middleware skips
+ * @param handler - The route handler
+ * @returns The route handler running with the request ID
+ */
+export function withRequestContext<Args extends Array<any>, Result>(
+  handler: (...args: Args) => Promise<Result>
+): (...args: Args) => Promise<Result> {
+  return async (...args: Args) => {
+    const requestId = (await headers()).get(REQUEST_ID_HEADER) || createRequestId();
+
+    return runWithRequestContext(requestId, () => handler(...args));
+  };
+}
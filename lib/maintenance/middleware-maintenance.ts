@@ -0,0 +1,115 @@
+/**
+ * Middleware Maintenance
+ *
+ * Enforces the maintenance mode of the site settings in middleware.ts
+ * (ENABLE_MAINTENANCE_MODE=true): while it is enabled, requests get a 503 maintenance page
+ * with Retry-After, except from allowed IPs and browsers holding the bypass cookie. Opening
+ * any page with `?maintenance_bypass=<MAINTENANCE_BYPASS_SECRET>` sets the cookie, holding an
+ * HMAC of the secret (see MaintenanceService.getBypassToken).
+ *
+ * The maintenance mode of each site is polled from /api/maintenance and refreshed in the
+ * background (MAINTENANCE_REFRESH_MS, default 30s, see lib/middleware/site-state.ts). When it
+ * cannot be fetched, the last state is kept. The maintenance fails closed: a site whose state
+ * was never fetched is down for maintenance, so an unreachable API never lets requests through.
+ */
+
+// Global
+import { NextRequest, NextResponse } from 'next/server';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { createLogger } from '../logger/logger';
+import { createSiteState } from '../middleware/site-state';
+import {
+  MAINTENANCE_BYPASS_COOKIE,
+  MAINTENANCE_BYPASS_PARAM,
+  MaintenanceService,
+  type MaintenanceMode,
+} from '../services/maintenance-service';
+import { SiteService } from '../services/site-service';
+
+const logger = createLogger('middleware-maintenance');
+
+// Maintenance mode of each site
+const maintenanceModes = createSiteState<MaintenanceMode>({
+  name: 'maintenance mode',
+  apiPath: '/api/maintenance',
+  refreshMsVariable: 'MAINTENANCE_REFRESH_MS',
+  defaultRefreshMs: 30 * 1000,
+  parse: (data) => data as MaintenanceMode,
+  getFallback: () => MaintenanceService.fromSettings({ enabled: true }),
+  onLoad: (maintenance, previous, site) => {
+    if (maintenance.enabled !== previous?.enabled) {
+      logger.info(maintenance.enabled ? 'Maintenance mode enabled' : 'Maintenance mode disabled', { site: site.name });
+    }
+  },
+  logger,
+});
+
+/**
+ * Result of the maintenance check of a request
+ */
+export interface MaintenanceCheck {
+  /** The maintenance page, or the redirect setting the bypass cookie */
+  response?: NextResponse;
+  /** The site is down for maintenance but the request is let through */
+  bypassed: boolean;
+}
+
+/**
+ * Check a request against the maintenance mode of its site
+ * @param request - The request
+ * @param site - The site of the request
+ * @param waitUntil - Keeps the middleware alive while the maintenance mode is refreshed
+ * @returns The response to send instead of the page, if any, and whether the request bypasses
+ * the maintenance
+ */
+export async function checkMaintenance(
+  request: NextRequest,
+  site: SiteDefinition,
+  waitUntil: (promise: Promise<unknown>) => void
+): Promise<MaintenanceCheck> {
+  const maintenance = await maintenanceModes.get(site, waitUntil);
+  if (!maintenance.enabled) return { bypassed: false };
+
+  // Opening a page with the bypass secret sets the cookie, then reloads the page without it.
+  // The cookie holds a token derived from the secret, never the secret itself
+  const bypassParam = request.nextUrl.searchParams.get(MAINTENANCE_BYPASS_PARAM);
+  if (MaintenanceService.isBypassSecret(bypassParam)) {
+    const url = request.nextUrl.clone();
+    url.searchParams.delete(MAINTENANCE_BYPASS_PARAM);
+
+    const bypassToken = (await MaintenanceService.getBypassToken()) as string;
+    const response = NextResponse.redirect(url, 307);
+    response.cookies.set(MAINTENANCE_BYPASS_COOKIE, bypassToken, {
+      path: '/',
+      httpOnly: true,
+      secure: request.nextUrl.protocol === 'https:',
+      sameSite: 'lax',
+    });
+    response.headers.set('Cache-Control', 'private, no-store');
+
+    return { response, bypassed: true };
+  }
+
+  if (
+    (await MaintenanceService.isBypassToken(request.cookies.get(MAINTENANCE_BYPASS_COOKIE)?.value)) ||
+    MaintenanceService.isIpAllowed(MaintenanceService.getClientIp(request.headers), maintenance.allowedIps)
+  ) {
+    return { bypassed: true };
+  }
+
+  const firstSegment = request.nextUrl.pathname.split('/')[1];
+  const locale = SiteService.isLocaleSupported(site, firstSegment) ? firstSegment : site.defaultLocale;
+
+  const response = new NextResponse(MaintenanceService.renderPage(maintenance, locale), {
+    status: 503,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Retry-After': String(MaintenanceService.getRetryAfter(maintenance)),
+      'Cache-Control': 'no-store',
+    },
+  });
+
+  return { response, bypassed: false };
+}
@@ -0,0 +1,113 @@
+/**
+ * Site State
+ *
+ * State polled by the middleware from an API route of the app for each site: redirect rules,
+ * maintenance mode, experiments and content status.
+ *
+ * The API route is called at the internal URL of the site (see SiteService.getInternalApiUrl),
+ * never at the origin of the request, whose host the client controls. States are kept by site
+ * name, so there is at most one per site definition. Only the first request of a process waits
+ * for the state of its site: afterwards requests use the current state while a stale one is
+ * refreshed in the background. When the state cannot be fetched, the last one is kept, and
+ * retried after the refresh interval rather than on every request.
+ */
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import type { Logger } from '../logger/logger';
+import { SiteService } from '../services/site-service';
+
+export interface SiteStateOptions<T> {
+  /** Name of the state in the logs, e.g. 'redirects' */
+  name: string;
+  /** The API route serving the state, e.g. '/api/redirect' */
+  apiPath: string;
+  /** Environment variable with the time a state is used before it is refreshed */
+  refreshMsVariable: string;
+  defaultRefreshMs: number;
+  /** Builds the state from the JSON response of the API route */
+  parse: (data: unknown) => T;
+  /** State of a site whose first load failed */
+  getFallback: (site: SiteDefinition) => T;
+  /** Called with each loaded state and the one it replaces */
+  onLoad?: (state: T, previous: T | undefined, site: SiteDefinition) => void;
+  logger: Logger;
+}
+
+export interface SiteState<T> {
+  /**
+   * Get the state of a site, refreshing a stale one in the background
+   * @param site - The site of the request
+   * @param waitUntil - Keeps the middleware alive until the background refresh is done
+   */
+  get(site: SiteDefinition, waitUntil: (promise: Promise<unknown>) => void): Promise<T>;
+}
+
+interface LoadedState<T> {
+  value: T;
+  loadedAt: number;
+  /** In-flight refresh, shared by the requests finding the state stale */
+  refreshing?: Promise<LoadedState<T>>;
+}
+
+/**
+ * Creates the per-site state of an API route polled by the middleware
+ * @param options - The API route, refresh interval, parser and fallback of the state
+ */
+export function createSiteState<T>({
+  name,
+  apiPath,
+  refreshMsVariable,
+  defaultRefreshMs,
+  parse,
+  getFallback,
+  onLoad,
+  logger,
+}: SiteStateOptions<T>): SiteState<T> {
+  const states = new Map<string, LoadedState<T>>();
+
+  const getRefreshMs = () => {
+    const value = Number(process.env[refreshMsVariable]);
+    return process.env[refreshMsVariable] && Number.isFinite(value) && value >= 0 ? value : defaultRefreshMs;
+  };
+
+  const load = async (site: SiteDefinition): Promise<LoadedState<T>> => {
+    const current = states.get(site.name);
+
+    try {
+      const response = await fetch(SiteService.getInternalApiUrl(site, apiPath), { cache: 'no-store' });
+      if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+      const state = { value: parse(await response.json()), loadedAt: Date.now() };
+      onLoad?.(state.value, current?.value, site);
+      states.set(site.name, state);
+
+      return state;
+    } catch (error) {
+      logger.error(`Failed to fetch ${name}`, { site: site.name, stale: !!current, error });
+
+      const state = { value: current ? current.value : getFallback(site), loadedAt: Date.now() };
+      states.set(site.name, state);
+
+      return state;
+    }
+  };
+
+  return {
+    async get(site, waitUntil) {
+      const state = states.get(site.name);
+
+      // First request of the process for the site: wait for the state
+      if (!state) {
+        return (await load(site)).value;
+      }
+
+      if (!state.refreshing && Date.now() - state.loadedAt >= getRefreshMs()) {
+        state.refreshing = load(site);
+        waitUntil(state.refreshing);
+      }
+
+      return state.value;
+    },
+  };
+}
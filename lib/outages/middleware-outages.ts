@@ -0,0 +1,117 @@
+/**
+ * Middleware Outages
+ *
+ * Answers 503 with Retry-After, instead of the 500 of the error boundary, for the pages that
+ * cannot be rendered while Contentstack is failing (delivery content source only).
+ *
+ * The availability of each site is polled from /api/content-status and refreshed in the
+ * background (CONTENT_STATUS_REFRESH_MS, default 10s, see lib/middleware/site-state.ts). From
+ * the first failed call to the delivery API until a call succeeds, each page is checked with
+ * /api/content-status before it is rendered: pages served from the data cache or the
+ * last-known-good responses render as usual.
+ */
+
+// Global
+import { NextResponse } from 'next/server';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { createLogger } from '../logger/logger';
+import { createSiteState } from '../middleware/site-state';
+import { MaintenanceService } from '../services/maintenance-service';
+import { SiteService } from '../services/site-service';
+
+const logger = createLogger('middleware-outages');
+
+/**
+ * Availability of the content of a site
+ */
+interface ContentStatus {
+  available: boolean;
+  /** Seconds until Contentstack is called again, while unavailable */
+  retryAfter?: number;
+}
+
+/**
+ * Status of a page, answered by /api/content-status while the content is unavailable
+ */
+interface PageStatus extends ContentStatus {
+  page: 'found' | 'not-found' | 'error';
+  retryable?: boolean;
+}
+
+// Availability of the content of each site
+const contentStatuses = createSiteState<ContentStatus>({
+  name: 'content status',
+  apiPath: '/api/content-status',
+  refreshMsVariable: 'CONTENT_STATUS_REFRESH_MS',
+  defaultRefreshMs: 10 * 1000,
+  parse: (status) => status as ContentStatus,
+  getFallback: () => ({ available: true }),
+  onLoad: (status, previous, site) => {
+    if (status.available !== (previous?.available ?? true)) {
+      logger.info(status.available ? 'Content available again' : 'Content unavailable', { site: site.name });
+    }
+  },
+  logger,
+});
+
+// Retry-After when the status of the page does not tell when Contentstack is called again
+const DEFAULT_RETRY_AFTER = 30;
+
+/**
+ * Checks if the pages render from the delivery API, the only content source that can fail
+ */
+export function isOutageCheckEnabled(): boolean {
+  return (process.env.CONTENTSTACK_CONTENT_SOURCE || 'delivery').toLowerCase() === 'delivery';
+}
+
+/**
+ * Check that a page can be rendered while Contentstack is failing
+ * @param site - The site of the request
+ * @param locale - The locale of the page
+ * @param urlPath - The path of the page, without locale prefix
+ * @param waitUntil - Keeps the middleware alive while the content status is refreshed
+ * @returns The 503 response to send instead of the page, if it cannot be rendered
+ */
+export async function checkContentOutage(
+  site: SiteDefinition,
+  locale: string,
+  urlPath: string,
+  waitUntil: (promise: Promise<unknown>) => void
+): Promise<NextResponse | undefined> {
+  const status = await contentStatuses.get(site, waitUntil);
+  if (status.available) return undefined;
+
+  let pageStatus: PageStatus;
+
+  try {
+    const pageStatusUrl = SiteService.getInternalApiUrl(site, '/api/content-status', { locale, path: urlPath });
+    const response = await fetch(pageStatusUrl, { cache: 'no-store' });
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+
+    pageStatus = (await response.json()) as PageStatus;
+  } catch (error) {
+    // Let the page render, its error boundary handles the failure
+    logger.error('Failed to fetch page status', { site: site.name, locale, urlPath, error });
+    return undefined;
+  }
+
+  if (pageStatus.page !== 'error' || !pageStatus.retryable) return undefined;
+
+  const maintenance = {
+    enabled: true,
+    title: 'This page is temporarily unavailable',
+    message: 'We could not load this page right now. Please try again in a few moments.',
+    allowedIps: [],
+  };
+
+  return new NextResponse(MaintenanceService.renderPage(maintenance, locale), {
+    status: 503,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Retry-After': String(pageStatus.retryAfter || status.retryAfter || DEFAULT_RETRY_AFTER),
+      'Cache-Control': 'no-store',
+    },
+  });
+}
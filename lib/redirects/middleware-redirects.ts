@@ -0,0 +1,138 @@
+/**
+ * Middleware Redirects
+ *
+ * Applies the rules of /api/redirect in middleware.ts, like the edge function
+ * (functions/[proxy].edge.js) does, so self-hosted and Vercel deployments get redirects
+ * without the edge proxy:
+ * - 301, 302, 307 and 308 rules redirect
+ * - 410 and 451 rules render the gone page (GONE_PAGE_PATH) of the locale with their status
+ *
+ * The rules of each site are compiled into an in-process table, refreshed in the background
+ * (REDIRECTS_REFRESH_MS, default 60s, see lib/middleware/site-state.ts). When the rules cannot
+ * be fetched, the last table is kept.
+ *
+ * Requests redirected by the edge function never reach the middleware, so deployments running
+ * both only evaluate the rules once.
+ *
+ * With REDIRECT_ANALYTICS=true, the hits of the rules are batched to /api/redirect/hits.
+ */
+
+// Global
+import { NextRequest, NextResponse } from 'next/server';
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { createLogger } from '../logger/logger';
+import { createSiteState } from '../middleware/site-state';
+import { SiteService } from '../services/site-service';
+import {
+  createHitReporter,
+  getRuleKey,
+  isRedirectAnalyticsEnabled,
+  normalizeReferrer,
+  type HitReporter,
+} from './redirect-hits';
+import {
+  createRedirectMatcher,
+  GONE_PAGE_PATH,
+  type RedirectMatch,
+  type RedirectMatcher,
+  type RedirectRule,
+} from './redirect-matcher';
+
+const logger = createLogger('middleware-redirects');
+
+// Compiled rules of each site
+const redirectMatchers = createSiteState<RedirectMatcher>({
+  name: 'redirects',
+  apiPath: '/api/redirect',
+  refreshMsVariable: 'REDIRECTS_REFRESH_MS',
+  defaultRefreshMs: 60 * 1000,
+  parse: (rules) => createRedirectMatcher(rules as Array<RedirectRule>),
+  getFallback: () => createRedirectMatcher([]),
+  onLoad: (matcher, _previous, site) =>
+    logger.debug('Loaded redirect table', { site: site.name, rules: matcher.size }),
+  logger,
+});
+
+let hitReporter: HitReporter | undefined;
+
+/**
+ * Checks if redirects are enabled (ENABLE_REDIRECTS=true)
+ */
+export function isRedirectsEnabled(): boolean {
+  return process.env.ENABLE_REDIRECTS === 'true';
+}
+
+/**
+ * Record the hit of a rule, when redirect analytics are enabled
+ * @param request - The redirected request
+ * @param site - The site of the request
+ * @param redirect - The matching rule
+ * @param waitUntil - Keeps the middleware alive while a batch of hits is posted
+ */
+function recordHit(
+  request: NextRequest,
+  site: SiteDefinition,
+  redirect: RedirectMatch,
+  waitUntil: (promise: Promise<unknown>) => void
+) {
+  const secret = process.env.REDIRECT_ANALYTICS_SECRET;
+  if (!isRedirectAnalyticsEnabled() || !secret) return;
+
+  if (!hitReporter) {
+    hitReporter = createHitReporter({
+      secret,
+      onError: (error) => logger.warn('Failed to report redirect hits', { error }),
+    });
+  }
+
+  hitReporter.record(
+    site,
+    {
+      ruleKey: getRuleKey(redirect.rule),
+      ruleSource: redirect.rule.source,
+      path: request.nextUrl.pathname,
+      status: redirect.rule.status,
+      referrer: normalizeReferrer(request.headers.get('referer')),
+      at: new Date().toISOString(),
+    },
+    waitUntil
+  );
+}
+
+/**
+ * Get the response of the redirect rule matching a request
+ * @param request - The request
+ * @param site - The site of the request
+ * @param requestHeaders - The headers forwarded to the gone page
+ * @param waitUntil - Keeps the middleware alive while the rules are refreshed
+ * @returns The redirect or gone page response, or undefined when no rule matches
+ */
+export async function getRedirectResponse(
+  request: NextRequest,
+  site: SiteDefinition,
+  requestHeaders: Headers,
+  waitUntil: (promise: Promise<unknown>) => void
+): Promise<NextResponse | undefined> {
+  const { pathname, search } = request.nextUrl;
+
+  const firstSegment = pathname.split('/')[1];
+  const locale = SiteService.isLocaleSupported(site, firstSegment) ? firstSegment : site.defaultLocale;
+
+  const matcher = await redirectMatchers.get(site, waitUntil);
+  const redirect = matcher.match(pathname, { search, locale });
+  if (!redirect) return undefined;
+
+  recordHit(request, site, redirect, waitUntil);
+
+  if (!redirect.location) {
+    // Gone: render the gone page of the locale with the status of the rule
+    const url = request.nextUrl.clone();
+    url.pathname = `/${locale}${GONE_PAGE_PATH}`;
+    url.search = '';
+    return NextResponse.rewrite(url, { status: redirect.rule.status, request: { headers: requestHeaders } });
+  }
+
+  return NextResponse.redirect(new URL(redirect.location, request.url), redirect.rule.status);
+}
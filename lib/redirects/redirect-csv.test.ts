@@ -0,0 +1,76 @@
+/**
+ * Checks the reading and writing of redirect mappings as CSV
+ */
+
+// Global
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+// Local
+import { parseRedirectCsv, RedirectCsvError, toRedirectCsv } from './redirect-csv';
+
+test('rows map to mappings, with the columns of the header in any order and case', () => {
+  const mappings = parseRedirectCsv(
+    'Destination,SOURCE,redirect_type,preserve_query_string,locales\n' +
+      '/new-page,/old-page,308,TRUE,es | en-us\n' +
+      ',/retired,410,,\n'
+  );
+
+  assert.deepEqual(mappings, [
+    {
+      source: '/old-page',
+      destination: '/new-page',
+      redirect_type: '308',
+      preserve_query_string: true,
+      locales: ['es', 'en-us'],
+      status: 'Active',
+    },
+    { source: '/retired', redirect_type: '410', status: 'Active' },
+  ]);
+});
+
+test('quoted cells keep their commas, quotes and line breaks', () => {
+  const [mapping] = parseRedirectCsv('source,destination\n"/a,b","/say ""hi""\nthere"\n');
+
+  assert.equal(mapping.source, '/a,b');
+  assert.equal(mapping.destination, '/say "hi"\nthere');
+});
+
+test('the byte order mark, CRLF line endings and blank lines are ignored', () => {
+  const mappings = parseRedirectCsv('\uFEFFsource,destination\r\n/a,/b\r\n\r\n,\r\n/c,/d');
+
+  assert.deepEqual(
+    mappings.map(({ source, destination }) => [source, destination]),
+    [
+      ['/a', '/b'],
+      ['/c', '/d'],
+    ]
+  );
+});
+
+test('files without source column, rows without source and unterminated quotes are rejected with their line', () => {
+  assert.throws(() => parseRedirectCsv('destination\n/b\n'), new RedirectCsvError('Missing "source" column', 1));
+  assert.throws(() => parseRedirectCsv('source,destination\n/a,/b\n,/c\n'), /^RedirectCsvError: Line 3: Missing source$/);
+  assert.throws(() => parseRedirectCsv('source,destination\n/a,"/b\n'), /Line 2: Unterminated quoted value/);
+  assert.deepEqual(parseRedirectCsv(''), []);
+});
+
+test('written mappings read back the same', () => {
+  const mappings = [
+    {
+      source: '/blog/*',
+      destination: '/articles/*?from="blog",old',
+      redirect_type: '301',
+      match_type: 'Path',
+      preserve_query_string: true,
+      start_date: '2024-01-01T00:00:00.000Z',
+      locales: ['es', 'en-us'],
+      status: 'Disabled',
+    },
+  ];
+
+  const csv = toRedirectCsv(mappings);
+
+  assert.equal(csv.split('\n')[0], 'source,destination,redirect_type,match_type,preserve_query_string,start_date,end_date,locales,status');
+  assert.deepEqual(parseRedirectCsv(csv), mappings);
+});
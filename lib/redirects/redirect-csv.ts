@@ -0,0 +1,160 @@
+/**
+ * Redirect CSV
+ *
+ * Reads and writes redirect mappings as CSV (RFC 4180), one mapping per row, with the field
+ * UIDs of the mappings group as header. Only `source` is required; locales are separated
+ * with `|`.
+ *
+ * @example
+ * source,destination,redirect_type,match_type,preserve_query_string,start_date,end_date,locales,status
+ * /old-page,/new-page,301,Path,false,,,,Active
+ * /blog/*,/articles/*,308,Path,true,,,es|en-us,Active
+ */
+
+// Local
+import type { RedirectMapping } from './redirect-mappings';
+
+export const REDIRECT_CSV_COLUMNS = [
+  'source',
+  'destination',
+  'redirect_type',
+  'match_type',
+  'preserve_query_string',
+  'start_date',
+  'end_date',
+  'locales',
+  'status',
+] as const;
+
+const LOCALES_SEPARATOR = '|';
+
+/**
+ * Thrown when a CSV file cannot be read as redirect mappings
+ */
+export class RedirectCsvError extends Error {
+  constructor(message: string, line?: number) {
+    super(line ? `Line ${line}: ${message}` : message);
+    this.name = 'RedirectCsvError';
+  }
+}
+
+/**
+ * Split CSV text into rows of cells. Quoted cells can contain commas, quotes and line breaks.
+ */
+function parseRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) throw new RedirectCsvError('Unterminated quoted value', rows.length + 1);
+
+  if (cell || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Skip blank lines
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''));
+}
+
+/**
+ * Quote a CSV cell when it contains a comma, quote or line break
+ */
+function formatCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Parse redirect mappings from CSV
+ * @param text - The CSV text, with a header row
+ * @returns The mappings, in the order of the rows
+ * @throws {RedirectCsvError} If the header has no source column or a row has no source
+ */
+export function parseRedirectCsv(text: string): RedirectMapping[] {
+  const [header, ...rows] = parseRows(text.replace(/^\uFEFF/, ''));
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim().toLowerCase());
+  if (!columns.includes('source')) {
+    throw new RedirectCsvError('Missing "source" column', 1);
+  }
+
+  return rows.map((cells, rowIndex) => {
+    const values: Record<string, string> = {};
+    columns.forEach((column, i) => {
+      values[column] = (cells[i] || '').trim();
+    });
+
+    if (!values.source) throw new RedirectCsvError('Missing source', rowIndex + 2);
+
+    const mapping: RedirectMapping = { source: values.source };
+    if (values.destination) mapping.destination = values.destination;
+    if (values.redirect_type) mapping.redirect_type = values.redirect_type;
+    if (values.match_type) mapping.match_type = values.match_type;
+    if (values.preserve_query_string) {
+      mapping.preserve_query_string = values.preserve_query_string.toLowerCase() === 'true';
+    }
+    if (values.start_date) mapping.start_date = values.start_date;
+    if (values.end_date) mapping.end_date = values.end_date;
+    if (values.locales) {
+      mapping.locales = values.locales.split(LOCALES_SEPARATOR).map((locale) => locale.trim()).filter(Boolean);
+    }
+    mapping.status = values.status || 'Active';
+
+    return mapping;
+  });
+}
+
+/**
+ * Write redirect mappings as CSV
+ * @param mappings - The mappings
+ * @returns The CSV text, with a header row
+ */
+export function toRedirectCsv(mappings: RedirectMapping[]): string {
+  const rows = mappings.map((mapping) => {
+    const values: Record<(typeof REDIRECT_CSV_COLUMNS)[number], string> = {
+      source: mapping.source || '',
+      destination: mapping.destination || '',
+      redirect_type: mapping.redirect_type || '301',
+      match_type: mapping.match_type || 'Path',
+      preserve_query_string: mapping.preserve_query_string ? 'true' : 'false',
+      start_date: mapping.start_date || '',
+      end_date: mapping.end_date || '',
+      locales: (mapping.locales || []).join(LOCALES_SEPARATOR),
+      status: mapping.status || 'Active',
+    };
+
+    return REDIRECT_CSV_COLUMNS.map((column) => formatCell(values[column])).join(',');
+  });
+
+  return [REDIRECT_CSV_COLUMNS.join(','), ...rows].join('\n') + '\n';
+}
@@ -0,0 +1,92 @@
+/**
+ * Checks the counting of redirect hits and 404s by the file hit sink
+ */
+
+// Global
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { after, before, test } from 'node:test';
+
+// Local
+import { createFileHitSink, isValidRedirectAnalyticsSecret } from './redirect-hit-sink';
+import type { RedirectHit } from './redirect-hits';
+
+let statsDirectory: string;
+
+/**
+ * Hit of the `/old` rule
+ */
+function hit(at: string, { path = '/old', referrer }: { path?: string; referrer?: string } = {}): RedirectHit {
+  return { ruleKey: 'path::/old', ruleSource: '/old', path, status: 301, referrer, at };
+}
+
+before(() => {
+  statsDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'redirect-hit-sink-'));
+});
+
+after(() => {
+  fs.rmSync(statsDirectory, { recursive: true, force: true });
+});
+
+test('redirect hits are counted by rule, path and referrer', async () => {
+  const sink = createFileHitSink(statsDirectory);
+
+  await sink.recordRedirectHits('counts', [
+    hit('2024-01-02T00:00:00.000Z', { referrer: 'https://search.example.com/results' }),
+    hit('2024-01-01T00:00:00.000Z', { path: '/old/' }),
+    hit('2024-01-03T00:00:00.000Z', { referrer: 'https://search.example.com/results' }),
+  ]);
+
+  const { trackedSince, rules } = await sink.readStats('counts');
+  assert.equal(trackedSince, '2024-01-01T00:00:00.000Z');
+  assert.deepEqual(rules['path::/old'], {
+    ruleSource: '/old',
+    count: 3,
+    firstHitAt: '2024-01-01T00:00:00.000Z',
+    lastHitAt: '2024-01-03T00:00:00.000Z',
+    referrers: { 'https://search.example.com/results': 2, direct: 1 },
+    paths: { '/old': 2, '/old/': 1 },
+  });
+});
+
+test('writes of concurrent batches are merged, and sites are kept apart', async () => {
+  const sink = createFileHitSink(statsDirectory);
+  const at = '2024-01-01T00:00:00.000Z';
+
+  await Promise.all([
+    sink.recordRedirectHits('brand-a', [hit(at)]),
+    sink.recordRedirectHits('brand-a', [hit(at), hit(at)]),
+    sink.recordNotFound('brand-a', [{ path: '/missing', at }]),
+    sink.recordRedirectHits('brand-b', [hit(at)]),
+  ]);
+
+  const stats = await sink.readStats('brand-a');
+  assert.equal(stats.rules['path::/old'].count, 3);
+  assert.equal(stats.notFound['/missing'].count, 1);
+  assert.equal((await sink.readStats('brand-b')).rules['path::/old'].count, 1);
+
+  // A new process reads the counts back from the file
+  assert.deepEqual(await createFileHitSink(statsDirectory).readStats('brand-a'), stats);
+});
+
+test('sites without hits have empty stats', async () => {
+  assert.deepEqual(await createFileHitSink(statsDirectory).readStats('unknown'), { rules: {}, notFound: {} });
+});
+
+test('batches are only accepted with the configured secret', () => {
+  const secret = process.env.REDIRECT_ANALYTICS_SECRET;
+
+  try {
+    delete process.env.REDIRECT_ANALYTICS_SECRET;
+    assert.equal(isValidRedirectAnalyticsSecret(''), false);
+
+    process.env.REDIRECT_ANALYTICS_SECRET = 'secret';
+    assert.equal(isValidRedirectAnalyticsSecret('secret'), true);
+    assert.equal(isValidRedirectAnalyticsSecret('secret2'), false);
+    assert.equal(isValidRedirectAnalyticsSecret(null), false);
+  } finally {
+    process.env.REDIRECT_ANALYTICS_SECRET = secret;
+  }
+});
@@ -0,0 +1,228 @@
+/**
+ * Redirect Hit Sink
+ *
+ * Stores the counts of redirect hits and 404s (see redirect-hits.ts). The default sink keeps
+ * one JSON file per site on disk:
+ *
+ *   <REDIRECT_ANALYTICS_DIR>/<site>/redirect-hits.json
+ *
+ * The file is only consistent for a single server process. Deployments running several
+ * instances plug a shared store (database, analytics pipeline) with setRedirectHitSink.
+ *
+ * @security This module writes to the file system and must only run on the server.
+ */
+
+// Global
+import { timingSafeEqual } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Local
+import { createLogger } from '../logger/logger';
+import type { NotFoundHit, RedirectHit } from './redirect-hits';
+
+const logger = createLogger('redirect-hit-sink');
+
+/**
+ * Hit count of a rule or 404 URL
+ */
+export interface HitCounter {
+  count: number;
+  firstHitAt: string;
+  lastHitAt: string;
+  /** Counts by referrer (`direct` without referrer), most frequent only */
+  referrers: Record<string, number>;
+}
+
+export interface RuleHitCounter extends HitCounter {
+  ruleSource: string;
+  /** Counts by request path, most frequent only */
+  paths: Record<string, number>;
+}
+
+export interface RedirectHitStats {
+  /** ISO date of the first recorded hit */
+  trackedSince?: string;
+  rules: Record<string, RuleHitCounter>;
+  notFound: Record<string, HitCounter>;
+}
+
+/**
+ * Stores redirect hits and 404s of each site
+ */
+export interface RedirectHitSink {
+  recordRedirectHits(siteName: string, hits: RedirectHit[]): Promise<void>;
+  recordNotFound(siteName: string, hits: NotFoundHit[]): Promise<void>;
+  readStats(siteName: string): Promise<RedirectHitStats>;
+}
+
+const STATS_FILE = 'redirect-hits.json';
+
+// Bounds of the stats file: most frequent referrers and paths of each rule, and 404 URLs
+const MAX_BREAKDOWN_ENTRIES = 50;
+const MAX_NOT_FOUND_URLS = 5000;
+
+const DIRECT_REFERRER = 'direct';
+
+let sink: RedirectHitSink | undefined;
+
+/**
+ * Keep the largest counts of a breakdown
+ */
+function pruneCounts(counts: Record<string, number>, max: number): Record<string, number> {
+  const entries = Object.entries(counts);
+  if (entries.length <= max) return counts;
+
+  return Object.fromEntries(entries.sort(([, a], [, b]) => b - a).slice(0, max));
+}
+
+/**
+ * Add a hit to a counter
+ */
+function countHit<T extends HitCounter>(counter: T | undefined, at: string, referrer: string | undefined, init: Omit<T, keyof HitCounter>): T {
+  const updated = counter || ({ ...init, count: 0, firstHitAt: at, lastHitAt: at, referrers: {} } as T);
+  const referrerKey = referrer || DIRECT_REFERRER;
+
+  updated.count++;
+  if (at > updated.lastHitAt) updated.lastHitAt = at;
+  if (at < updated.firstHitAt) updated.firstHitAt = at;
+  updated.referrers[referrerKey] = (updated.referrers[referrerKey] || 0) + 1;
+
+  return updated;
+}
+
+/**
+ * Create a sink keeping the stats of each site in a JSON file.
+ * Writes are serialized per site: hits arriving during a write are merged into the next one.
+ * @param directory - The directory of the stats files
+ */
+export function createFileHitSink(directory: string): RedirectHitSink {
+  const pending = new Map<string, { hits: RedirectHit[]; notFound: NotFoundHit[] }>();
+  const writing = new Map<string, Promise<void>>();
+
+  const statsPath = (siteName: string) => path.join(directory, siteName, STATS_FILE);
+
+  const read = (siteName: string): RedirectHitStats => {
+    const filePath = statsPath(siteName);
+    if (!fs.existsSync(filePath)) return { rules: {}, notFound: {} };
+
+    return JSON.parse(fs.readFileSync(filePath, 'utf-8')) as RedirectHitStats;
+  };
+
+  const write = (siteName: string) => {
+    const batch = pending.get(siteName);
+    pending.delete(siteName);
+    if (!batch) return;
+
+    const stats = read(siteName);
+
+    for (const hit of batch.hits) {
+      const counter = countHit(stats.rules[hit.ruleKey], hit.at, hit.referrer, { ruleSource: hit.ruleSource, paths: {} });
+      counter.ruleSource = hit.ruleSource;
+      counter.paths[hit.path] = (counter.paths[hit.path] || 0) + 1;
+      counter.paths = pruneCounts(counter.paths, MAX_BREAKDOWN_ENTRIES);
+      counter.referrers = pruneCounts(counter.referrers, MAX_BREAKDOWN_ENTRIES);
+      stats.rules[hit.ruleKey] = counter;
+    }
+
+    for (const hit of batch.notFound) {
+      const counter = countHit(stats.notFound[hit.path], hit.at, hit.referrer, {});
+      counter.referrers = pruneCounts(counter.referrers, MAX_BREAKDOWN_ENTRIES);
+      stats.notFound[hit.path] = counter;
+    }
+
+    // Keep the most requested 404 URLs
+    const notFoundUrls = Object.entries(stats.notFound);
+    if (notFoundUrls.length > MAX_NOT_FOUND_URLS) {
+      stats.notFound = Object.fromEntries(
+        notFoundUrls.sort(([, a], [, b]) => b.count - a.count).slice(0, MAX_NOT_FOUND_URLS)
+      );
+    }
+
+    const firstHitAt = [...batch.hits, ...batch.notFound].map(({ at }) => at).sort()[0];
+    if (!stats.trackedSince || (firstHitAt && firstHitAt < stats.trackedSince)) {
+      stats.trackedSince = firstHitAt;
+    }
+
+    // Written through a temporary file, so readers never see a partial file
+    const filePath = statsPath(siteName);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const temporaryPath = `${filePath}.${process.pid}.tmp`;
+    fs.writeFileSync(temporaryPath, JSON.stringify(stats));
+    fs.renameSync(temporaryPath, filePath);
+  };
+
+  const enqueue = (siteName: string, hits: RedirectHit[], notFound: NotFoundHit[]) => {
+    const batch = pending.get(siteName) || { hits: [], notFound: [] };
+    batch.hits.push(...hits);
+    batch.notFound.push(...notFound);
+    pending.set(siteName, batch);
+
+    // Chain after the running write, which leaves the new hits for this one
+    const previous = writing.get(siteName) || Promise.resolve();
+    const next = previous.then(() => write(siteName));
+    writing.set(siteName, next.catch(() => undefined));
+
+    return next;
+  };
+
+  return {
+    recordRedirectHits: (siteName, hits) => enqueue(siteName, hits, []),
+    recordNotFound: (siteName, hits) => enqueue(siteName, [], hits),
+    async readStats(siteName) {
+      await writing.get(siteName);
+      return read(siteName);
+    },
+  };
+}
+
+/**
+ * Get the hit sink: the one plugged with setRedirectHitSink, or the file sink in
+ * REDIRECT_ANALYTICS_DIR (default .redirect-analytics)
+ */
+export function getRedirectHitSink(): RedirectHitSink {
+  if (!sink) {
+    sink = createFileHitSink(path.resolve(process.env.REDIRECT_ANALYTICS_DIR || '.redirect-analytics'));
+  }
+
+  return sink;
+}
+
+/**
+ * Plug another hit sink, e.g. from instrumentation.ts
+ * @param hitSink - The sink storing the hits of every site
+ */
+export function setRedirectHitSink(hitSink: RedirectHitSink): void {
+  sink = hitSink;
+}
+
+/**
+ * Compares the secret of a hit batch with REDIRECT_ANALYTICS_SECRET without leaking timing
+ * information
+ * @param received - The secret sent with the request
+ */
+export function isValidRedirectAnalyticsSecret(received: string | null): boolean {
+  const expected = process.env.REDIRECT_ANALYTICS_SECRET;
+  if (!expected || !received) return false;
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received);
+
+  return (
+    expectedBuffer.length === receivedBuffer.length &&
+    timingSafeEqual(expectedBuffer, receivedBuffer)
+  );
+}
+
+/**
+ * Record a request for a URL without page nor redirect. Never throws: failures are logged.
+ * @param siteName - The site of the request
+ * @param hit - The 404
+ */
+export async function recordNotFoundHit(siteName: string, hit: NotFoundHit): Promise<void> {
+  try {
+    await getRedirectHitSink().recordNotFound(siteName, [hit]);
+  } catch (error) {
+    logger.error('Failed to record 404', { path: hit.path, error });
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Checks the batching of redirect hits by the edge function and middleware reporter
+ */
+
+// Global
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, mock, test } from 'node:test';
+
+// Local
+import { SITES, type SiteDefinition } from '../../constants/sites';
+import {
+  createHitReporter,
+  getRuleKey,
+  MAX_BATCH_AGE_MS,
+  MAX_BATCH_SIZE,
+  normalizeReferrer,
+  REDIRECT_ANALYTICS_SECRET_HEADER,
+  type RedirectHit,
+} from './redirect-hits';
+
+const site: SiteDefinition = { ...SITES[0], name: 'brand-a', baseUrl: 'https://www.brand-a.com' };
+const otherSite: SiteDefinition = { ...SITES[0], name: 'brand-b', baseUrl: 'https://www.brand-b.com' };
+
+interface PostedBatch {
+  url: string;
+  secret: string | null;
+  hits: RedirectHit[];
+}
+
+let posted: PostedBatch[];
+
+/**
+ * Hit of the n-th request
+ */
+function hit(n: number): RedirectHit {
+  return { ruleKey: 'path::/old', ruleSource: '/old', path: `/old/${n}`, status: 301, at: '2024-01-01T00:00:00.000Z' };
+}
+
+/**
+ * Let the posts of closed batches run
+ */
+async function settle(): Promise<void> {
+  await new Promise((resolve) => setImmediate(resolve));
+}
+
+beforeEach(() => {
+  posted = [];
+  delete process.env.INTERNAL_API_URL;
+
+  mock.timers.enable({ apis: ['setTimeout'] });
+  mock.method(globalThis, 'fetch', async (url: string, init: RequestInit) => {
+    const headers = new Headers(init.headers);
+    posted.push({ url, secret: headers.get(REDIRECT_ANALYTICS_SECRET_HEADER), hits: JSON.parse(String(init.body)).hits });
+    return new Response(null, { status: 204 });
+  });
+});
+
+afterEach(() => {
+  mock.timers.reset();
+  mock.restoreAll();
+});
+
+test('full batches are posted at once to the internal URL of their site', async () => {
+  const reporter = createHitReporter({ secret: 'secret' });
+
+  for (let n = 0; n < MAX_BATCH_SIZE; n++) reporter.record(site, hit(n));
+  reporter.record(otherSite, hit(0));
+  await settle();
+
+  assert.equal(posted.length, 1);
+  assert.equal(posted[0].url, 'https://www.brand-a.com/api/redirect/hits?site=brand-a');
+  assert.equal(posted[0].secret, 'secret');
+  assert.equal(posted[0].hits.length, MAX_BATCH_SIZE);
+});
+
+test('batches are posted when they get old, without waiting for another hit', async () => {
+  process.env.INTERNAL_API_URL = 'http://127.0.0.1:3000';
+  const reporter = createHitReporter({ secret: 'secret' });
+  const waitedFor: Promise<unknown>[] = [];
+
+  reporter.record(site, hit(0), (promise) => waitedFor.push(promise));
+  reporter.record(site, hit(1), (promise) => waitedFor.push(promise));
+
+  mock.timers.tick(MAX_BATCH_AGE_MS - 1);
+  await settle();
+  assert.equal(posted.length, 0);
+
+  mock.timers.tick(1);
+  await Promise.all(waitedFor);
+
+  // The runtime is kept alive once per batch
+  assert.equal(waitedFor.length, 1);
+  assert.deepEqual(posted.map(({ url, hits }) => [url, hits.length]), [
+    ['http://127.0.0.1:3000/api/redirect/hits?site=brand-a', 2],
+  ]);
+});
+
+test('hits after a full batch start the next one', async () => {
+  const reporter = createHitReporter({ secret: 'secret' });
+
+  for (let n = 0; n <= MAX_BATCH_SIZE; n++) reporter.record(site, hit(n));
+  mock.timers.tick(MAX_BATCH_AGE_MS);
+  await settle();
+
+  assert.deepEqual(posted.map(({ hits }) => hits.length), [MAX_BATCH_SIZE, 1]);
+});
+
+test('batches that cannot be posted are reported and dropped', async () => {
+  mock.method(globalThis, 'fetch', async () => new Response(null, { status: 401, statusText: 'Unauthorized' }));
+  const errors: unknown[] = [];
+  const reporter = createHitReporter({ secret: 'wrong', onError: (error) => errors.push(error) });
+
+  reporter.record(site, hit(0));
+  mock.timers.tick(MAX_BATCH_AGE_MS);
+  await settle();
+
+  assert.equal(errors.length, 1);
+  assert.match(String(errors[0]), /401 Unauthorized/);
+});
+
+test('rules are keyed by how they match, and referrers lose their query string', () => {
+  assert.equal(
+    getRuleKey({ source: ' /old ', destination: '/new', permanent: true, status: 301, locales: ['fr', 'de'] }),
+    'path:de|fr:/old'
+  );
+  assert.equal(normalizeReferrer('https://search.example.com/results?q=old'), 'https://search.example.com/results');
+  assert.equal(normalizeReferrer('not a URL'), undefined);
+});
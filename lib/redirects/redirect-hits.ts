@@ -0,0 +1,158 @@
+/**
+ * Redirect Hits
+ *
+ * Counts which redirect rules fire, so dead mappings can be retired, and which URLs end in a
+ * 404 without redirect, so missing mappings can be added (REDIRECT_ANALYTICS=true).
+ *
+ * The edge function and the middleware cannot write to disk: they batch their hits and post
+ * them to /api/redirect/hits at the internal URL of the site (REDIRECT_ANALYTICS_SECRET), which
+ * records them in the hit sink (redirect-hit-sink.ts). 404s are recorded by the page itself.
+ *
+ * No Next.js or Node.js dependency: the edge function (functions/[proxy].edge.js) imports it.
+ */
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { SiteService } from '../services/site-service';
+import type { RedirectRule } from './redirect-matcher';
+
+/**
+ * A request redirected by a rule
+ */
+export interface RedirectHit {
+  /** Identifies the rule across rule changes (see getRuleKey) */
+  ruleKey: string;
+  /** Source of the rule */
+  ruleSource: string;
+  /** Path of the request */
+  path: string;
+  status: number;
+  /** Origin and path of the referring page, without query string */
+  referrer?: string;
+  /** ISO 8601 date-time */
+  at: string;
+}
+
+/**
+ * A request for a URL without page nor redirect
+ */
+export interface NotFoundHit {
+  path: string;
+  referrer?: string;
+  at: string;
+}
+
+export const REDIRECT_HITS_PATH = '/api/redirect/hits';
+
+export const REDIRECT_ANALYTICS_SECRET_HEADER = 'x-redirect-analytics-secret';
+
+// Hits are posted once a batch is full, or when it gets old
+export const MAX_BATCH_SIZE = 20;
+export const MAX_BATCH_AGE_MS = 10 * 1000;
+
+/**
+ * Checks if redirect hits and 404s are recorded (REDIRECT_ANALYTICS=true)
+ */
+export function isRedirectAnalyticsEnabled(): boolean {
+  return process.env.REDIRECT_ANALYTICS === 'true';
+}
+
+/**
+ * Identify a rule by how it matches: its match type, locales and source
+ */
+export function getRuleKey(rule: RedirectRule): string {
+  const locales = (rule.locales || []).slice().sort().join('|');
+  return `${rule.matchType || 'path'}:${locales}:${rule.source.trim()}`;
+}
+
+/**
+ * Keep the origin and path of a referrer, so query strings neither leak into the reports nor
+ * split the counts
+ * @param referrer - The Referer header
+ */
+export function normalizeReferrer(referrer?: string | null): string | undefined {
+  if (!referrer) return undefined;
+
+  try {
+    const url = new URL(referrer);
+    return `${url.origin}${url.pathname}`;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create a reporter batching the hits of the edge function or middleware, per site.
+ *
+ * Batches are posted to the internal URL of their site (see SiteService.getInternalApiUrl),
+ * never to the origin of the request, whose host the client controls. Each batch is posted
+ * once full, or MAX_BATCH_AGE_MS after its first hit, which passes the post to `waitUntil`
+ * so the runtime stays alive until then.
+ * @param options.secret - The REDIRECT_ANALYTICS_SECRET sent with the batches
+ * @param options.onError - Called when a batch cannot be posted; the batch is dropped
+ */
+export function createHitReporter({
+  secret,
+  onError,
+}: {
+  secret: string;
+  onError?: (error: unknown) => void;
+}) {
+  const batches = new Map<string, { hits: RedirectHit[]; close: () => void }>();
+
+  const post = async (site: SiteDefinition, hits: RedirectHit[]) => {
+    const response = await fetch(SiteService.getInternalApiUrl(site, REDIRECT_HITS_PATH), {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [REDIRECT_ANALYTICS_SECRET_HEADER]: secret,
+      },
+      body: JSON.stringify({ hits }),
+    });
+
+    if (!response.ok) throw new Error(`${response.status} ${response.statusText}`);
+  };
+
+  /**
+   * Start the batch of a site, posted once closed by the timer or by a full batch
+   */
+  const startBatch = (site: SiteDefinition, waitUntil?: (promise: Promise<unknown>) => void) => {
+    let resolveClosed!: () => void;
+    const closed = new Promise<void>((resolve) => {
+      resolveClosed = resolve;
+    });
+
+    const timer = setTimeout(() => batch.close(), MAX_BATCH_AGE_MS);
+    const batch = {
+      hits: [] as RedirectHit[],
+      close: () => {
+        clearTimeout(timer);
+        if (batches.get(site.name) === batch) batches.delete(site.name);
+        resolveClosed();
+      },
+    };
+    batches.set(site.name, batch);
+
+    const posting = closed.then(() => post(site, batch.hits)).catch((error) => onError?.(error));
+    waitUntil?.(posting);
+
+    return batch;
+  };
+
+  return {
+    /**
+     * Queue a hit, posting the batch of the site when it is full
+     * @param site - The site of the request
+     * @param hit - The hit
+     * @param waitUntil - Optional, keeps the runtime alive until the batch is posted
+     */
+    record(site: SiteDefinition, hit: RedirectHit, waitUntil?: (promise: Promise<unknown>) => void) {
+      const batch = batches.get(site.name) || startBatch(site, waitUntil);
+      batch.hits.push(hit);
+
+      if (batch.hits.length >= MAX_BATCH_SIZE) batch.close();
+    },
+  };
+}
+
+export type HitReporter = ReturnType<typeof createHitReporter>;
@@ -0,0 +1,57 @@
+/**
+ * Redirect Mappings
+ *
+ * The redirect rules are edited as the `mappings` group of the `redirect_mappings` entry.
+ * These helpers map the fields of a mapping to the rules of the redirect matcher, for
+ * /api/redirect and the redirects CLI (scripts/redirects.ts).
+ */
+
+// Local
+import type { RedirectRule, RedirectStatus } from './redirect-matcher';
+
+export const REDIRECT_MAPPINGS_CONTENT_TYPE = 'redirect_mappings';
+
+/**
+ * Fields of a mapping of the redirect_mappings entry
+ */
+export interface RedirectMapping {
+  source: string;
+  destination?: string;
+  /** `Path` (default) or `Regex` */
+  match_type?: string;
+  preserve_query_string?: boolean;
+  /** Status code as text (default `301`) */
+  redirect_type?: string;
+  start_date?: string;
+  end_date?: string;
+  locales?: string[];
+  /** `Active` (default) or `Disabled` */
+  status?: string;
+}
+
+/**
+ * Checks if a mapping is applied. Mappings without status are active.
+ */
+export function isActiveMapping(mapping: RedirectMapping): boolean {
+  return !mapping.status || mapping.status === 'Active';
+}
+
+/**
+ * Map a mapping of the redirect_mappings entry to a redirect rule.
+ * Mappings without redirect type are permanent redirects (301).
+ */
+export function toRedirectRule(mapping: RedirectMapping): RedirectRule {
+  const status = (Number(mapping.redirect_type) || 301) as RedirectStatus;
+
+  return {
+    source: mapping.source,
+    destination: mapping.destination || '',
+    permanent: status === 301 || status === 308,
+    status,
+    matchType: mapping.match_type === 'Regex' ? 'regex' : 'path',
+    preserveQuery: !!mapping.preserve_query_string,
+    startDate: mapping.start_date || undefined,
+    endDate: mapping.end_date || undefined,
+    locales: mapping.locales?.length ? mapping.locales : undefined,
+  };
+}
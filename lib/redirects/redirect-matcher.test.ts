@@ -0,0 +1,106 @@
+/**
+ * Checks the lookup of redirect rules: exact paths, patterns, regexes, locales and date windows
+ */
+
+// Global
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+// Local
+import { createRedirectMatcher, type RedirectRule } from './redirect-matcher';
+
+/**
+ * Permanent rule with the defaults of the content type
+ */
+function rule(source: string, destination: string, options: Partial<RedirectRule> = {}): RedirectRule {
+  return { source, destination, permanent: true, status: 301, ...options };
+}
+
+test('exact sources win over patterns and ignore trailing slashes', () => {
+  const matcher = createRedirectMatcher([
+    rule('/products/:slug', '/shop/:slug'),
+    rule('/products/sale/', '/deals'),
+  ]);
+
+  assert.equal(matcher.match('/products/sale')?.location, '/deals');
+  assert.equal(matcher.match('/products/sale/')?.location, '/deals');
+  assert.equal(matcher.match('/products/shoes')?.location, '/shop/shoes');
+  assert.equal(matcher.match('/products/shoes/red'), undefined);
+});
+
+test('splats capture the rest of the path, and their bare prefix', () => {
+  const matcher = createRedirectMatcher([rule('/blog/*', '/articles/*')]);
+
+  assert.equal(matcher.match('/blog/2024/hello')?.location, '/articles/2024/hello');
+  assert.equal(matcher.match('/blog')?.location, '/articles');
+  assert.equal(matcher.match('/blogger'), undefined);
+});
+
+test('regex rules substitute their groups', () => {
+  const matcher = createRedirectMatcher([
+    rule('/news/(\\d{4})/(?<slug>[a-z-]+)', '/press/$1/$<slug>', { matchType: 'regex' }),
+  ]);
+
+  assert.equal(matcher.match('/news/2024/launch-day')?.location, '/press/2024/launch-day');
+  assert.equal(matcher.match('/news/latest/launch-day'), undefined);
+});
+
+test('rules with locales match without the locale prefix and keep it in the location', () => {
+  const matcher = createRedirectMatcher([
+    rule('/about', '/company', { locales: ['fr'] }),
+    rule('/about', '/about-us'),
+  ]);
+
+  assert.equal(matcher.match('/fr/about', { locale: 'fr' })?.location, '/fr/company');
+  assert.equal(matcher.match('/about', { locale: 'en-us' })?.location, '/about-us');
+});
+
+test('rules apply only within their date window', () => {
+  const matcher = createRedirectMatcher([
+    rule('/sale', '/summer-sale', { startDate: '2024-06-01T00:00:00Z', endDate: '2024-09-01T00:00:00Z' }),
+  ]);
+
+  assert.equal(matcher.match('/sale', { now: Date.parse('2024-05-31T23:59:59Z') }), undefined);
+  assert.equal(matcher.match('/sale', { now: Date.parse('2024-07-01T00:00:00Z') })?.location, '/summer-sale');
+  assert.equal(matcher.match('/sale', { now: Date.parse('2024-09-01T00:00:00Z') }), undefined);
+});
+
+test('the query string is only passed on by rules preserving it, after the parameters of the destination', () => {
+  const matcher = createRedirectMatcher([
+    rule('/old', '/new?ref=old#top', { preserveQuery: true }),
+    rule('/dropped', '/kept'),
+  ]);
+
+  assert.equal(matcher.match('/old', { search: '?ref=ad&page=2' })?.location, '/new?ref=old&page=2#top');
+  assert.equal(matcher.match('/dropped', { search: '?page=2' })?.location, '/kept');
+});
+
+test('gone rules have no location, and invalid rules are left out', () => {
+  const invalidRule = rule('/broken', '', { status: 302, permanent: false });
+  const matcher = createRedirectMatcher([rule('/retired', '', { status: 410, permanent: false }), invalidRule]);
+
+  const gone = matcher.match('/retired');
+  assert.equal(gone?.rule.status, 410);
+  assert.equal('location' in (gone || {}), false);
+  assert.equal(matcher.size, 1);
+  assert.deepEqual(matcher.invalidRules, [invalidRule]);
+});
+
+test('captures cannot turn a path destination into another host', () => {
+  const matcher = createRedirectMatcher([
+    rule('/legacy/*', '/*'),
+    rule('/files/*', '*'),
+    rule('/go/(.*)', '/$1', { matchType: 'regex' }),
+  ]);
+
+  assert.equal(matcher.match('/legacy//evil.com')?.location, '/evil.com');
+  assert.equal(matcher.match('/legacy/\\evil.com')?.location, '/evil.com');
+  assert.equal(matcher.match('/files/https://evil.com')?.location, '/https://evil.com');
+  assert.equal(matcher.match('/go//evil.com/path')?.location, '/evil.com/path');
+});
+
+test('rules redirecting to another host keep their destination', () => {
+  const matcher = createRedirectMatcher([rule('/docs/*', 'https://docs.example.com/*')]);
+
+  assert.equal(matcher.match('/docs/setup')?.location, 'https://docs.example.com/setup');
+});
@@ -0,0 +1,407 @@
+/**
+ * Redirect Matcher
+ *
+ * Compiles the rules of the `redirect_mappings` content type into a matcher, so looking up
+ * the redirect of a path stays fast with thousands of rules. Sources are either:
+ * - paths (default), matched exactly or with patterns:
+ *   - `:name` captures one path segment (`/products/:slug`)
+ *   - `*` captures the rest of the path (`/blog/*` also matches `/blog`)
+ *   Captures are substituted into the destination (`/shop/:slug`, `/articles/*`)
+ * - regular expressions, matched against the whole path, with `$1` or `$<name>` in the destination
+ *
+ * Exact sources win over patterns; patterns and regexes are tried in the order of the rules.
+ * Trailing slashes are ignored. The query string of the request is only passed on to rules
+ * that preserve it.
+ *
+ * Rules can be limited to a date window (outside it they are skipped) and to locales. Rules
+ * with locales match the path without locale prefix, only for requests in those locales, and
+ * redirect to the destination in the locale of the request. Rules with a 410 or 451 status
+ * have no destination: the gone page is rendered instead.
+ *
+ * No Next.js or Node.js dependency: the edge function (functions/[proxy].edge.js) imports it.
+ */
+
+export type RedirectMatchType = 'path' | 'regex';
+
+export const REDIRECT_STATUSES = [301, 302, 307, 308, 410, 451] as const;
+
+export type RedirectStatus = (typeof REDIRECT_STATUSES)[number];
+
+/**
+ * Path of the CMS page rendered, in the locale of the request, for 410 and 451 rules
+ */
+export const GONE_PAGE_PATH = '/410';
+
+export interface RedirectRule {
+  source: string;
+  /** Unused by 410 and 451 rules */
+  destination: string;
+  permanent: boolean;
+  status: RedirectStatus;
+  /** How the source is matched (default path) */
+  matchType?: RedirectMatchType;
+  /** Pass the query string of the request on to the destination */
+  preserveQuery?: boolean;
+  /** ISO 8601 date-time the rule starts to apply */
+  startDate?: string;
+  /** ISO 8601 date-time the rule stops to apply */
+  endDate?: string;
+  /** Locales the rule applies to (default every locale) */
+  locales?: string[];
+}
+
+export interface RedirectMatch {
+  rule: RedirectRule;
+  /**
+   * Destination with captures substituted, the locale prefix of the request for rules with
+   * locales and, if preserved, the query string. Undefined for 410 and 451 rules.
+   */
+  location?: string;
+}
+
+export interface RedirectMatchOptions {
+  /** Query string of the request (with or without `?`) */
+  search?: string;
+  /** Locale of the request, for rules with locales */
+  locale?: string;
+  /** Time of the request, for rules with dates (default now) */
+  now?: number;
+}
+
+export interface RedirectMatcher {
+  /**
+   * Find the redirect of a path
+   * @param pathname - The path of the request
+   * @param options - Optional query string, locale and time of the request
+   * @returns The matching rule and its location, or undefined when no rule matches
+   */
+  match(pathname: string, options?: RedirectMatchOptions): RedirectMatch | undefined;
+  /** Number of compiled rules */
+  size: number;
+  /** Rules left out because their source, destination, status or dates are not valid */
+  invalidRules: RedirectRule[];
+}
+
+interface CompiledRule {
+  rule: RedirectRule;
+  /** Position of the rule, to try candidates of several buckets in the order of the rules */
+  index: number;
+  /** Unset for exact sources */
+  regex?: RegExp;
+  /** Names of the captures of path patterns, in order (`*` captures are named `*`) */
+  captureNames?: string[];
+  startsAt?: number;
+  endsAt?: number;
+}
+
+/**
+ * Rules of one locale, or of every locale, indexed for lookup
+ */
+interface RuleTable {
+  exactRules: Map<string, CompiledRule[]>;
+  /** Pattern and regex rules by first path segment, each including the dynamic rules */
+  buckets: Map<string, CompiledRule[]>;
+  dynamicRules: CompiledRule[];
+}
+
+// Bucket of the rules that cannot be indexed by their first path segment
+const DYNAMIC_BUCKET = '';
+
+const PATTERN_TOKEN = /:([A-Za-z_]\w*)|\/\*$|\*|[.+?^${}()|[\]\\]/g;
+
+// Full URLs, and protocol-relative URLs browsers resolve against another host
+const ABSOLUTE_URL = /^([a-z][a-z\d+.-]*:|[/\\]{2})/i;
+
+/**
+ * Remove the trailing slash of a path, except for the root path
+ */
+function normalizePath(pathname: string): string {
+  return pathname.length > 1 ? pathname.replace(/\/+$/, '') || '/' : pathname;
+}
+
+/**
+ * Checks if a path source has `*` or `:param` patterns
+ */
+function isPattern(source: string): boolean {
+  return source.includes('*') || /:[A-Za-z_]/.test(source);
+}
+
+/**
+ * Get the bucket of a path: its first segment, or the dynamic bucket when it is a pattern
+ */
+function getBucketKey(pathname: string): string {
+  const firstSegment = pathname.split('/')[1] || '';
+  return isPattern(firstSegment) ? DYNAMIC_BUCKET : firstSegment;
+}
+
+/**
+ * Compile a path pattern into a regular expression
+ * @returns The regular expression and the names of its captures
+ */
+function compilePattern(source: string): { regex: RegExp; captureNames: string[] } {
+  const captureNames: string[] = [];
+
+  const pattern = source.replace(PATTERN_TOKEN, (token: string, name?: string) => {
+    if (name) {
+      captureNames.push(name);
+      return '([^/]+)';
+    }
+    if (token === '/*') {
+      captureNames.push('*');
+      return '(?:/(.*))?';
+    }
+    if (token === '*') {
+      captureNames.push('*');
+      return '(.*)';
+    }
+    return `\\${token}`;
+  });
+
+  return { regex: new RegExp(`^${pattern}$`), captureNames };
+}
+
+/**
+ * Compile a regular expression source, anchored to the whole path
+ */
+function compileRegex(source: string): RegExp {
+  const anchored = `${source.startsWith('^') ? '' : '^'}${source}${source.endsWith('$') ? '' : '$'}`;
+  return new RegExp(anchored);
+}
+
+/**
+ * Substitute the captures of a path pattern into the destination
+ */
+function substituteCaptures(destination: string, captureNames: string[], values: string[]): string {
+  const params: Record<string, string> = {};
+  const splats: string[] = [];
+
+  captureNames.forEach((name, i) => {
+    const value = values[i] || '';
+    if (name === '*') {
+      splats.push(value);
+    } else {
+      params[name] = value;
+    }
+  });
+
+  let splatIndex = 0;
+  return destination.replace(/:([A-Za-z_]\w*)|\/\*$|\*/g, (token: string, name?: string) => {
+    if (name) return name in params ? params[name] : token;
+
+    const splat = splatIndex < splats.length ? splats[splatIndex++] : '';
+    // `/blog/*` to `/articles/*` redirects `/blog` to `/articles`
+    if (token === '/*') return splat ? `/${splat}` : '';
+    return splat;
+  });
+}
+
+/**
+ * Keep the destination of a rule redirecting to a path on the site. Captures are taken from the
+ * request path, so `/legacy//evil.com` would turn the `/*` destination of a `/legacy/*` rule
+ * into `//evil.com`, which browsers resolve to another host.
+ * @param template - The destination of the rule
+ * @param destination - The destination with captures substituted
+ */
+function keepOnSite(template: string, destination: string): string {
+  if (ABSOLUTE_URL.test(template)) return destination;
+
+  const path = destination.replace(/^[/\\]+/, '/');
+  return ABSOLUTE_URL.test(path) ? `/${path}` : path;
+}
+
+/**
+ * Append the query string of the request to a destination. Parameters of the destination win.
+ */
+function appendQuery(destination: string, search: string): string {
+  const hashIndex = destination.indexOf('#');
+  const hash = hashIndex >= 0 ? destination.slice(hashIndex) : '';
+  const withoutHash = hashIndex >= 0 ? destination.slice(0, hashIndex) : destination;
+
+  const queryIndex = withoutHash.indexOf('?');
+  const path = queryIndex >= 0 ? withoutHash.slice(0, queryIndex) : withoutHash;
+  const destinationParams = new URLSearchParams(queryIndex >= 0 ? withoutHash.slice(queryIndex + 1) : '');
+  const params = new URLSearchParams(destinationParams.toString());
+
+  new URLSearchParams(search).forEach((value, key) => {
+    if (!destinationParams.has(key)) params.append(key, value);
+  });
+
+  const query = params.toString();
+  return `${path}${query ? `?${query}` : ''}${hash}`;
+}
+
+/**
+ * Checks if a status renders the gone page instead of redirecting
+ */
+export function isGoneStatus(status: number): boolean {
+  return status === 410 || status === 451;
+}
+
+/**
+ * Parse an optional date of a rule
+ * @returns The time, undefined when unset, or NaN when invalid
+ */
+function parseRuleDate(value?: string): number | undefined {
+  return value ? new Date(value).getTime() : undefined;
+}
+
+/**
+ * Compile a rule, or return undefined when it is not valid
+ */
+function compileRule(rule: RedirectRule, index: number): CompiledRule | undefined {
+  if (!rule.source || !REDIRECT_STATUSES.includes(rule.status)) return undefined;
+  if (!rule.destination && !isGoneStatus(rule.status)) return undefined;
+
+  const startsAt = parseRuleDate(rule.startDate);
+  const endsAt = parseRuleDate(rule.endDate);
+  if (Number.isNaN(startsAt) || Number.isNaN(endsAt)) return undefined;
+
+  // Regular expressions are used as written
+  const source = rule.matchType === 'regex' ? rule.source.trim() : normalizePath(rule.source.trim());
+
+  try {
+    if (rule.matchType === 'regex') {
+      return { rule, index, startsAt, endsAt, regex: compileRegex(source) };
+    }
+    if (isPattern(source)) {
+      return { rule, index, startsAt, endsAt, ...compilePattern(source) };
+    }
+    return { rule, index, startsAt, endsAt };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Index compiled rules for lookup
+ */
+function createRuleTable(compiledRules: CompiledRule[]): RuleTable {
+  const exactRules = new Map<string, CompiledRule[]>();
+  const buckets = new Map<string, CompiledRule[]>();
+
+  for (const compiled of compiledRules) {
+    const { rule } = compiled;
+
+    if (!compiled.regex) {
+      const source = normalizePath(rule.source.trim());
+      exactRules.set(source, (exactRules.get(source) || []).concat(compiled));
+      continue;
+    }
+
+    const bucketKey = rule.matchType === 'regex' ? DYNAMIC_BUCKET : getBucketKey(normalizePath(rule.source.trim()));
+    buckets.set(bucketKey, (buckets.get(bucketKey) || []).concat(compiled));
+  }
+
+  // Merge the rules starting with a pattern into every bucket once, in rule order
+  const dynamicRules = buckets.get(DYNAMIC_BUCKET) || [];
+  buckets.forEach((bucket, key) => {
+    if (key !== DYNAMIC_BUCKET && dynamicRules.length > 0) {
+      buckets.set(key, bucket.concat(dynamicRules).sort((a, b) => a.index - b.index));
+    }
+  });
+
+  return { exactRules, buckets, dynamicRules };
+}
+
+/**
+ * Checks if a rule applies at a time
+ */
+function isActive(compiled: CompiledRule, now: number): boolean {
+  return (compiled.startsAt === undefined || compiled.startsAt <= now) &&
+    (compiled.endsAt === undefined || now < compiled.endsAt);
+}
+
+/**
+ * Find the first active rule of a table matching a path
+ * @returns The rule and its destination with captures substituted
+ */
+function lookup(
+  table: RuleTable,
+  path: string,
+  now: number
+): { rule: RedirectRule; destination: string } | undefined {
+  const exactRule = (table.exactRules.get(path) || []).find((compiled) => isActive(compiled, now));
+  if (exactRule) return { rule: exactRule.rule, destination: exactRule.rule.destination };
+
+  // Rules of the first segment of the path, then rules starting with a pattern
+  const bucketKey = getBucketKey(path);
+  const candidates = (bucketKey !== DYNAMIC_BUCKET && table.buckets.get(bucketKey)) || table.dynamicRules;
+
+  for (const candidate of candidates) {
+    if (!candidate.regex || !isActive(candidate, now)) continue;
+
+    const result = candidate.regex.exec(path);
+    if (!result) continue;
+
+    const { rule } = candidate;
+    const destination = candidate.captureNames
+      ? substituteCaptures(rule.destination || '', candidate.captureNames, result.slice(1))
+      : path.replace(candidate.regex, rule.destination || '');
+
+    return { rule, destination: keepOnSite(rule.destination || '', destination) };
+  }
+
+  return undefined;
+}
+
+/**
+ * Compile redirect rules into a matcher
+ * @param rules - The redirect rules, in priority order
+ * @returns The matcher
+ */
+export function createRedirectMatcher(rules: RedirectRule[]): RedirectMatcher {
+  const invalidRules: RedirectRule[] = [];
+  const globalRules: CompiledRule[] = [];
+  const rulesByLocale = new Map<string, CompiledRule[]>();
+
+  rules.forEach((rule, index) => {
+    const compiled = compileRule(rule, index);
+    if (!compiled) {
+      invalidRules.push(rule);
+      return;
+    }
+
+    if (rule.locales && rule.locales.length > 0) {
+      rule.locales.forEach((locale) => {
+        rulesByLocale.set(locale, (rulesByLocale.get(locale) || []).concat(compiled));
+      });
+    } else {
+      globalRules.push(compiled);
+    }
+  });
+
+  const globalTable = createRuleTable(globalRules);
+  const localeTables = new Map<string, RuleTable>();
+  rulesByLocale.forEach((localeRules, locale) => localeTables.set(locale, createRuleTable(localeRules)));
+
+  return {
+    match(pathname: string, options: RedirectMatchOptions = {}): RedirectMatch | undefined {
+      const { search, locale, now = Date.now() } = options;
+      const path = normalizePath(pathname);
+
+      // Rules of the locale of the request first, against the path without locale prefix
+      const localeTable = locale ? localeTables.get(locale) : undefined;
+      const localePrefix = locale && (path === `/${locale}` || path.startsWith(`/${locale}/`)) ? `/${locale}` : '';
+      const localeMatch = localeTable ? lookup(localeTable, path.slice(localePrefix.length) || '/', now) : undefined;
+
+      const found = localeMatch || lookup(globalTable, path, now);
+      if (!found) return undefined;
+
+      const { rule } = found;
+      if (isGoneStatus(rule.status)) return { rule };
+
+      // Paths of rules with locales stay in the locale of the request
+      let location = found.destination;
+      if (localeMatch && localePrefix && location.startsWith('/') && !location.startsWith('//')) {
+        location = location === '/' ? localePrefix : `${localePrefix}${location}`;
+      }
+
+      return {
+        rule,
+        location: rule.preserveQuery && search && search !== '?' ? appendQuery(location, search) : location,
+      };
+    },
+    size: rules.length - invalidRules.length,
+    invalidRules,
+  };
+}
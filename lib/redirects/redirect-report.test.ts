@@ -0,0 +1,97 @@
+/**
+ * Checks the report of hot, stale and missing redirects built from the recorded hits
+ */
+
+// Global
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+// Local
+import { SITES, type SiteDefinition } from '../../constants/sites';
+import type { HitCounter, RedirectHitStats } from './redirect-hit-sink';
+import { getRuleKey } from './redirect-hits';
+import type { RedirectRule } from './redirect-matcher';
+import { buildRedirectReport } from './redirect-report';
+
+const site: SiteDefinition = { ...SITES[0], defaultLocale: 'en-us', supportedLocales: ['en-us', 'es'] };
+
+const now = Date.parse('2024-06-01T00:00:00.000Z');
+
+const rules: RedirectRule[] = [
+  { source: '/hot', destination: '/new-hot', permanent: true, status: 301 },
+  { source: '/warm', destination: '/new-warm', permanent: true, status: 301 },
+  { source: '/cold', destination: '/new-cold', permanent: true, status: 301 },
+  { source: '/never', destination: '/new-never', permanent: true, status: 301 },
+  { source: '/about', destination: '/company', permanent: true, status: 301, locales: ['es'] },
+];
+
+/**
+ * Hit counter last hit at a date
+ */
+function counter(count: number, lastHitAt: string, referrers: Record<string, number> = {}): HitCounter {
+  return { count, firstHitAt: '2024-01-01T00:00:00.000Z', lastHitAt, referrers };
+}
+
+/**
+ * Stats of the rules and 404s, tracked since a date
+ */
+function stats(trackedSince: string): RedirectHitStats {
+  return {
+    trackedSince,
+    rules: {
+      [getRuleKey(rules[0])]: { ...counter(50, '2024-05-31T00:00:00.000Z', { direct: 40, 'https://a.example.com/': 10 }), ruleSource: '/hot', paths: {} },
+      [getRuleKey(rules[1])]: { ...counter(5, '2024-05-01T00:00:00.000Z'), ruleSource: '/warm', paths: {} },
+      [getRuleKey(rules[2])]: { ...counter(1, '2024-01-15T00:00:00.000Z'), ruleSource: '/cold', paths: {} },
+    },
+    notFound: {
+      '/missing': counter(3, '2024-05-30T00:00:00.000Z'),
+      '/often-missing': counter(8, '2024-05-30T00:00:00.000Z'),
+      // Redirected by rules added since the 404s
+      '/hot': counter(2, '2024-01-01T00:00:00.000Z'),
+      '/es/about': counter(4, '2024-01-01T00:00:00.000Z'),
+    },
+  };
+}
+
+test('hot rules are listed by hit count with their top referrers', () => {
+  const report = buildRedirectReport(rules, stats('2024-01-01T00:00:00.000Z'), { site, now });
+
+  assert.deepEqual(report.hotRules.map(({ source, hits }) => [source, hits]), [
+    ['/hot', 50],
+    ['/warm', 5],
+    ['/cold', 1],
+  ]);
+  assert.deepEqual(report.hotRules[0].topReferrers, [
+    { referrer: 'direct', hits: 40 },
+    { referrer: 'https://a.example.com/', hits: 10 },
+  ]);
+});
+
+test('rules without hit for the stale window are stale, least recently hit first', () => {
+  const report = buildRedirectReport(rules, stats('2024-01-01T00:00:00.000Z'), { site, now, staleDays: 60 });
+
+  assert.deepEqual(report.staleRules.map(({ source }) => source), ['/never', '/about', '/cold']);
+});
+
+test('no rule is stale before hits are tracked for the whole window', () => {
+  const report = buildRedirectReport(rules, stats('2024-05-01T00:00:00.000Z'), { site, now, staleDays: 60 });
+
+  assert.deepEqual(report.staleRules, []);
+});
+
+test('404s no rule matches are missing redirects, by hit count', () => {
+  const report = buildRedirectReport(rules, stats('2024-01-01T00:00:00.000Z'), { site, now, limit: 10 });
+
+  assert.deepEqual(report.missingRedirects.map(({ path, hits }) => [path, hits]), [
+    ['/often-missing', 8],
+    ['/missing', 3],
+  ]);
+});
+
+test('every list is limited', () => {
+  const report = buildRedirectReport(rules, stats('2024-01-01T00:00:00.000Z'), { site, now, staleDays: 60, limit: 1 });
+
+  assert.equal(report.hotRules.length, 1);
+  assert.equal(report.staleRules.length, 1);
+  assert.equal(report.missingRedirects.length, 1);
+});
@@ -0,0 +1,141 @@
+/**
+ * Redirect Report
+ *
+ * Reports the recorded redirect hits and 404s (see redirect-hit-sink.ts) against the current
+ * rules, for the SEO team:
+ * - hot rules, by hit count
+ * - stale rules, without hit for a number of days: candidates to retire
+ * - missing redirects, 404 URLs no rule matches: candidates to add
+ */
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { SiteService } from '../services/site-service';
+import type { RedirectHitStats } from './redirect-hit-sink';
+import { getRuleKey } from './redirect-hits';
+import { createRedirectMatcher, type RedirectRule } from './redirect-matcher';
+
+export interface RedirectReportOptions {
+  site: SiteDefinition;
+  /** Days without hit after which a rule is stale (default 90) */
+  staleDays?: number;
+  /** Maximum entries of each list (default 50) */
+  limit?: number;
+  /** Time of the report (default now) */
+  now?: number;
+}
+
+export interface RuleReport {
+  source: string;
+  destination: string;
+  status: number;
+  hits: number;
+  lastHitAt?: string;
+  /** Most frequent referrers, `direct` without referrer */
+  topReferrers: Array<{ referrer: string; hits: number }>;
+}
+
+export interface MissingRedirectReport {
+  path: string;
+  hits: number;
+  lastHitAt: string;
+  topReferrers: Array<{ referrer: string; hits: number }>;
+}
+
+export interface RedirectReport {
+  site: string;
+  /** ISO date of the first recorded hit: rules younger than the tracking never count as stale */
+  trackedSince?: string;
+  staleDays: number;
+  hotRules: RuleReport[];
+  staleRules: RuleReport[];
+  missingRedirects: MissingRedirectReport[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Referrers listed per rule or URL
+const TOP_REFERRERS = 5;
+
+/**
+ * List the most frequent referrers of a breakdown
+ */
+function getTopReferrers(referrers: Record<string, number> = {}) {
+  return Object.entries(referrers)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, TOP_REFERRERS)
+    .map(([referrer, hits]) => ({ referrer, hits }));
+}
+
+/**
+ * Get the locale of a path on a site: its locale prefix, or the default locale
+ */
+function getPathLocale(site: SiteDefinition, path: string): string {
+  const firstSegment = path.split('/')[1];
+  return SiteService.isLocaleSupported(site, firstSegment) ? firstSegment : site.defaultLocale;
+}
+
+/**
+ * Build the redirect report of a site
+ * @param rules - The active redirect rules
+ * @param stats - The recorded hits of the site
+ * @param options - The site, stale threshold and list size
+ * @returns The hot, stale and missing redirects
+ */
+export function buildRedirectReport(
+  rules: RedirectRule[],
+  stats: RedirectHitStats,
+  options: RedirectReportOptions
+): RedirectReport {
+  const { site, staleDays = 90, limit = 50, now = Date.now() } = options;
+  const staleBefore = new Date(now - staleDays * DAY_MS).toISOString();
+
+  const ruleReports = rules.map((rule): RuleReport => {
+    const counter = stats.rules[getRuleKey(rule)];
+
+    return {
+      source: rule.source,
+      destination: rule.destination,
+      status: rule.status,
+      hits: counter?.count ?? 0,
+      lastHitAt: counter?.lastHitAt,
+      topReferrers: getTopReferrers(counter?.referrers),
+    };
+  });
+
+  const hotRules = ruleReports
+    .filter(({ hits }) => hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .slice(0, limit);
+
+  // Only rules tracked for the whole window can be stale
+  const trackedLongEnough = !!stats.trackedSince && stats.trackedSince <= staleBefore;
+  const staleRules = trackedLongEnough
+    ? ruleReports
+        .filter(({ lastHitAt }) => !lastHitAt || lastHitAt < staleBefore)
+        .sort((a, b) => (a.lastHitAt || '').localeCompare(b.lastHitAt || ''))
+        .slice(0, limit)
+    : [];
+
+  // 404s that a rule added since would redirect are no longer missing
+  const matcher = createRedirectMatcher(rules);
+  const missingRedirects = Object.entries(stats.notFound)
+    .filter(([path]) => !matcher.match(path, { locale: getPathLocale(site, path), now }))
+    .sort(([, a], [, b]) => b.count - a.count)
+    .slice(0, limit)
+    .map(([path, counter]) => ({
+      path,
+      hits: counter.count,
+      lastHitAt: counter.lastHitAt,
+      topReferrers: getTopReferrers(counter.referrers),
+    }));
+
+  return {
+    site: site.name,
+    trackedSince: stats.trackedSince,
+    staleDays,
+    hotRules,
+    staleRules,
+    missingRedirects,
+  };
+}
@@ -0,0 +1,37 @@
+/**
+ * Redirect Rules
+ *
+ * Fetches the active rules of the redirect_mappings entry through the content source, for
+ * /api/redirect and the redirect report.
+ */
+
+// Local
+import { getEntries } from '../contentstack/entries';
+import {
+  isActiveMapping,
+  REDIRECT_MAPPINGS_CONTENT_TYPE,
+  toRedirectRule,
+  type RedirectMapping,
+} from './redirect-mappings';
+import type { RedirectRule } from './redirect-matcher';
+
+/**
+ * Fetch the active redirect rules
+ * @param siteName - Optional, the site of the rules (default the site of the request)
+ * @returns The rules, in priority order; empty without redirect_mappings entry
+ * @throws The error of the content source, so callers can keep their last rules
+ */
+export async function fetchRedirectRules(siteName?: string): Promise<RedirectRule[]> {
+  const result = await getEntries<{ mappings?: RedirectMapping[] }>({
+    contentTypeUid: REDIRECT_MAPPINGS_CONTENT_TYPE,
+    siteName,
+  });
+
+  if (result.status === 'error') {
+    throw result.error;
+  }
+
+  const entries = result.status === 'found' ? result.data.entries : undefined;
+
+  return entries?.[0]?.mappings?.filter(isActiveMapping).map(toRedirectRule) || [];
+}
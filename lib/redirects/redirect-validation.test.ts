@@ -0,0 +1,102 @@
+/**
+ * Checks the detection of invalid, duplicate, looping, chained and broken redirect rules
+ */
+
+// Global
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+// Local
+import { SITES, type SiteDefinition } from '../../constants/sites';
+import type { RedirectRule } from './redirect-matcher';
+import { validateRedirects } from './redirect-validation';
+
+const site: SiteDefinition = { ...SITES[0], defaultLocale: 'en-us', supportedLocales: ['en-us', 'es'] };
+
+/**
+ * Permanent rule with the defaults of the content type
+ */
+function rule(source: string, destination: string, options: Partial<RedirectRule> = {}): RedirectRule {
+  return { source, destination, permanent: true, status: 301, ...options };
+}
+
+/**
+ * Validate rules, listing the type and rule position of each issue
+ */
+function getIssues(rules: RedirectRule[], pageUrls?: Set<string>) {
+  return validateRedirects(rules, { site, pageUrls }).map(({ type, index }) => [type, index]);
+}
+
+test('chains are followed to their final destination', () => {
+  const issues = validateRedirects([rule('/a', '/b'), rule('/b/', '/c?ref=b'), rule('/c', '/d')], { site });
+
+  assert.deepEqual(issues.map(({ type, index }) => [type, index]), [
+    ['chain', 0],
+    ['chain', 1],
+  ]);
+  assert.deepEqual(issues[0].hops, ['/b', '/c?ref=b', '/d']);
+  assert.equal(issues[0].finalDestination, '/d');
+});
+
+test('chains ending on a gone rule have no final destination', () => {
+  const [issue] = validateRedirects(
+    [rule('/a', '/b'), rule('/b', '/c'), rule('/c', '', { status: 410, permanent: false })],
+    { site }
+  );
+
+  assert.equal(issue.type, 'chain');
+  assert.equal(issue.finalDestination, undefined);
+  assert.match(issue.message, /\(gone\)$/);
+});
+
+test('loops are errors for every rule leading into them', () => {
+  const issues = validateRedirects([rule('/a', '/b'), rule('/b', '/c'), rule('/c', '/a'), rule('/self', '/self/')], {
+    site,
+  });
+
+  assert.deepEqual(issues.map(({ type, severity, index }) => [type, severity, index]), [
+    ['loop', 'error', 0],
+    ['loop', 'error', 1],
+    ['loop', 'error', 2],
+    ['loop', 'error', 3],
+  ]);
+  assert.deepEqual(issues[0].hops, ['/b', '/c', '/a']);
+});
+
+test('later rules with the same source, match type and locales are duplicates', () => {
+  const rules = [
+    rule('/a', '/x'),
+    rule('/a/', '/y'),
+    rule('/a', '/z', { locales: ['es'] }),
+    rule('/a', '/x', { matchType: 'regex' }),
+  ];
+
+  assert.deepEqual(getIssues(rules), [['duplicate', 1]]);
+});
+
+test('rules the matcher cannot use are invalid', () => {
+  const rules = [
+    rule('/no-destination', ''),
+    rule('/bad-date', '/x', { startDate: 'tomorrow' }),
+    rule('([', '/x', { matchType: 'regex' }),
+  ];
+
+  assert.deepEqual(getIssues(rules), [
+    ['invalid', 0],
+    ['invalid', 1],
+    ['invalid', 2],
+  ]);
+});
+
+test('destinations without page are reported, unless external or with captures', () => {
+  const pageUrls = new Set(['/found', '/es/encontrado']);
+  const rules = [
+    rule('/a', '/found'),
+    rule('/b', '/missing'),
+    rule('/c', 'https://example.com/missing'),
+    rule('/d/*', '/missing/*'),
+    rule('/e', '/es/encontrado?ref=e'),
+  ];
+
+  assert.deepEqual(getIssues(rules, pageUrls), [['broken-destination', 1]]);
+});
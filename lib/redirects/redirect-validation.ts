@@ -0,0 +1,185 @@
+/**
+ * Redirect Validation
+ *
+ * Checks a set of redirect rules before it is published:
+ * - invalid rules (source, destination, status or dates the matcher cannot use)
+ * - duplicate sources, where the later rule never applies
+ * - loops (A → B → A), which take down every URL they match
+ * - chains (A → B → C), which cost visitors and crawlers one request per hop
+ * - destinations that are no page URL (404)
+ *
+ * Chains and loops are followed through the same matcher as requests, ignoring the date
+ * windows of the rules. Only destinations without captures (`*`, `:param`, `$1`) can be
+ * followed.
+ */
+
+// Local
+import type { SiteDefinition } from '../../constants/sites';
+import { SiteService } from '../services/site-service';
+import { createRedirectMatcher, isGoneStatus, type RedirectRule } from './redirect-matcher';
+
+export type RedirectIssueType = 'invalid' | 'duplicate' | 'loop' | 'chain' | 'broken-destination';
+
+export interface RedirectIssue {
+  type: RedirectIssueType;
+  /** Errors block publishing, warnings are reported */
+  severity: 'error' | 'warning';
+  /** Position of the rule in the validated rules */
+  index: number;
+  source: string;
+  message: string;
+  /** Locations followed from the destination, for loops and chains */
+  hops?: string[];
+  /** Final location of a chain that can be redirected to in a single hop */
+  finalDestination?: string;
+}
+
+export interface RedirectValidationOptions {
+  /** Site the rules apply to, for the locale of followed locations */
+  site: SiteDefinition;
+  /** Page URLs with locale prefix (default locale without), to report destinations that 404 */
+  pageUrls?: Set<string>;
+}
+
+// Hops followed before a chain is reported as a loop
+const MAX_HOPS = 20;
+
+const CAPTURE_TOKEN = /\*|:[A-Za-z_]|\$\d|\$</;
+
+/**
+ * Checks if a destination is a URL of another site
+ */
+function isExternal(location: string): boolean {
+  return /^[a-z][a-z\d+.-]*:/i.test(location) || location.startsWith('//');
+}
+
+/**
+ * Get the path of a location, without query string, hash and trailing slash
+ */
+function toPath(location: string): string {
+  const path = location.split(/[?#]/)[0];
+  return path.length > 1 ? path.replace(/\/+$/, '') || '/' : path;
+}
+
+/**
+ * Get the locale of a path on a site: its locale prefix, or the default locale
+ */
+function getPathLocale(site: SiteDefinition, path: string): string {
+  const firstSegment = path.split('/')[1];
+  return SiteService.isLocaleSupported(site, firstSegment) ? firstSegment : site.defaultLocale;
+}
+
+/**
+ * Validate redirect rules
+ * @param rules - The redirect rules, in priority order
+ * @param options - The site and page URLs to validate against
+ * @returns The issues, by rule position
+ */
+export function validateRedirects(
+  rules: RedirectRule[],
+  options: RedirectValidationOptions
+): RedirectIssue[] {
+  const { site, pageUrls } = options;
+  const issues: RedirectIssue[] = [];
+
+  // Follow every rule, whatever its date window
+  const undatedRules = rules.map((rule) => ({ ...rule, startDate: undefined, endDate: undefined }));
+  const matcher = createRedirectMatcher(undatedRules);
+  const invalidRules = new Set(matcher.invalidRules);
+  const firstIndexByKey = new Map<string, number>();
+
+  rules.forEach((rule, index) => {
+    const { source } = rule;
+
+    // Dates are checked on the rule itself
+    if (invalidRules.has(undatedRules[index]) || !createRedirectMatcher([rule]).size) {
+      issues.push({
+        type: 'invalid',
+        severity: 'error',
+        index,
+        source,
+        message: 'Invalid source, destination, status or date',
+      });
+      return;
+    }
+
+    // Duplicate sources: only the first rule applies
+    const locales = (rule.locales || []).slice().sort().join('|');
+    const key = [rule.matchType || 'path', toPath(source.trim()), locales].join(' ');
+    const firstIndex = firstIndexByKey.get(key);
+    if (firstIndex !== undefined) {
+      issues.push({
+        type: 'duplicate',
+        severity: 'warning',
+        index,
+        source,
+        message: `Duplicate of rule ${firstIndex + 1}, never applies`,
+      });
+      return;
+    }
+    firstIndexByKey.set(key, index);
+
+    if (isGoneStatus(rule.status) || isExternal(rule.destination) || CAPTURE_TOKEN.test(rule.destination)) {
+      return;
+    }
+
+    // Follow the destination through the other rules
+    const visited = new Set<string>([toPath(source.trim())]);
+    const hops: string[] = [rule.destination];
+    let location = rule.destination;
+    let endsGone = false;
+
+    while (!isExternal(location)) {
+      const path = toPath(location);
+
+      if (visited.has(path) || hops.length > MAX_HOPS) {
+        issues.push({
+          type: 'loop',
+          severity: 'error',
+          index,
+          source,
+          message: `Redirect loop: ${source} → ${hops.join(' → ')}`,
+          hops,
+        });
+        return;
+      }
+      visited.add(path);
+
+      const next = matcher.match(path, { locale: getPathLocale(site, path) });
+      if (!next) break;
+      if (!next.location) {
+        endsGone = true;
+        break;
+      }
+
+      location = next.location;
+      hops.push(location);
+    }
+
+    if (hops.length > 1) {
+      issues.push({
+        type: 'chain',
+        severity: 'warning',
+        index,
+        source,
+        message: `Redirect chain of ${hops.length} hops: ${source} → ${hops.join(' → ')}${endsGone ? ' (gone)' : ''}`,
+        hops,
+        // Chains ending on a gone page keep their hops: the gone status belongs to the last rule
+        finalDestination: endsGone ? undefined : location,
+      });
+    }
+
+    const finalPath = toPath(location);
+    if (pageUrls && !endsGone && !isExternal(location) && !pageUrls.has(finalPath)) {
+      issues.push({
+        type: 'broken-destination',
+        severity: 'warning',
+        index,
+        source,
+        message: `Destination ${finalPath} is no page URL (404)`,
+      });
+    }
+  });
+
+  return issues;
+}
@@ -0,0 +1,91 @@
+/**
+ * Checks the mapping of experiment entries and the assignment of visitors to variants
+ */
+
+// Global
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+
+// Local
+import { CONTROL_VARIANT, ExperimentService, type Experiment } from './experiment-service';
+
+const experiment: Experiment = {
+  uid: 'experiment_uid',
+  controlUrl: '/pricing',
+  variants: [
+    { key: CONTROL_VARIANT, weight: 50 },
+    { key: 'short-form', weight: 30, entryUid: 'short_uid', contentTypeUid: 'landing_page' },
+    { key: 'paused', weight: 0, entryUid: 'paused_uid', contentTypeUid: 'page' },
+    { key: 'long-form', weight: 20, entryUid: 'long_uid', contentTypeUid: 'page' },
+  ],
+};
+
+test('experiment entries map to their running variants', () => {
+  const mapped = ExperimentService.fromEntry({
+    uid: 'experiment_uid',
+    control_url: '/Pricing/',
+    control_weight: 60,
+    status: 'Active',
+    variants: [
+      { name: 'Short Form', weight: 40, entry: [{ uid: 'short_uid', _content_type_uid: 'landing_page' }] },
+      { name: 'No entry', weight: 10, entry: [] },
+      { name: 'Invalid name!', weight: 10, entry: [{ uid: 'other_uid', _content_type_uid: 'page' }] },
+      { name: 'short form', weight: 10, entry: [{ uid: 'duplicate_uid', _content_type_uid: 'page' }] },
+    ],
+  });
+
+  assert.deepEqual(mapped, {
+    uid: 'experiment_uid',
+    controlUrl: '/pricing',
+    variants: [
+      { key: CONTROL_VARIANT, weight: 60 },
+      { key: 'short-form', weight: 40, entryUid: 'short_uid', contentTypeUid: 'landing_page' },
+    ],
+  });
+});
+
+test('paused experiments and experiments without variant traffic are not run', () => {
+  const variants = [{ name: 'b', weight: 50, entry: [{ uid: 'b_uid', _content_type_uid: 'page' }] }];
+
+  assert.equal(ExperimentService.fromEntry({ uid: 'a', control_url: '/', status: 'Paused', variants }), undefined);
+  assert.equal(
+    ExperimentService.fromEntry({ uid: 'a', control_url: '/', variants: [{ ...variants[0], weight: 0 }] }),
+    undefined
+  );
+});
+
+test('visitors are drawn into the variants by weight, skipping variants without traffic', () => {
+  const assign = (random: number) => ExperimentService.assignVariant(experiment, undefined, random).key;
+
+  assert.equal(assign(0), CONTROL_VARIANT);
+  assert.equal(assign(0.49), CONTROL_VARIANT);
+  assert.equal(assign(0.5), 'short-form');
+  assert.equal(assign(0.79), 'short-form');
+  assert.equal(assign(0.8), 'long-form');
+  assert.equal(assign(0.999999), 'long-form');
+});
+
+test('visitors keep the variant of their cookie while it has traffic', () => {
+  assert.equal(ExperimentService.assignVariant(experiment, 'long-form', 0).key, 'long-form');
+
+  // Variants paused or removed since are drawn again
+  assert.equal(ExperimentService.assignVariant(experiment, 'paused', 0).key, CONTROL_VARIANT);
+  assert.equal(ExperimentService.assignVariant(experiment, 'removed', 0.6).key, 'short-form');
+});
+
+test('experiments are found by their control URL', () => {
+  assert.equal(ExperimentService.findExperiment([experiment], '/Pricing/'), experiment);
+  assert.equal(ExperimentService.findExperiment([experiment], '/pricing/plans'), undefined);
+});
+
+test('assignments survive the request header', () => {
+  const assignment = {
+    experimentUid: experiment.uid,
+    controlUrl: experiment.controlUrl,
+    variant: experiment.variants[1],
+  };
+
+  assert.deepEqual(ExperimentService.parse(ExperimentService.serialize(assignment)), assignment);
+  assert.equal(ExperimentService.parse('not-json'), null);
+  assert.equal(ExperimentService.parse(encodeURIComponent(JSON.stringify({ variant: {} }))), null);
+});
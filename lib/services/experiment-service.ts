@@ -0,0 +1,201 @@
+/**
+ * Variant of an experiment. The control renders the page at the control URL; other variants
+ * render their entry at the same URL.
+ */
+export interface ExperimentVariant {
+  /** `control`, or the name of the variant */
+  key: string;
+  /** Share of the traffic, relative to the other variants */
+  weight: number;
+  entryUid?: string;
+  contentTypeUid?: string;
+}
+
+/**
+ * A/B experiment on the page at a URL
+ */
+export interface Experiment {
+  uid: string;
+  /** URL of the control page, without locale prefix */
+  controlUrl: string;
+  /** The control first */
+  variants: Array<ExperimentVariant>;
+}
+
+/**
+ * Variant of an experiment a request is assigned to
+ */
+export interface ExperimentAssignment {
+  experimentUid: string;
+  controlUrl: string;
+  variant: ExperimentVariant;
+}
+
+/**
+ * Fields of an entry of the `experiment` content type
+ */
+export interface ExperimentEntry {
+  uid: string;
+  control_url?: string;
+  control_weight?: number | null;
+  variants?: Array<{
+    name?: string;
+    weight?: number | null;
+    entry?: Array<{ uid: string; _content_type_uid?: string }>;
+  }>;
+  status?: string;
+}
+
+export const EXPERIMENT_CONTENT_TYPE = 'experiment';
+
+export const CONTROL_VARIANT = 'control';
+
+/**
+ * Prefix of the cookies keeping the variant of each experiment a visitor is assigned to
+ */
+export const EXPERIMENT_COOKIE_PREFIX = 'experiment-';
+
+/**
+ * Request header carrying the experiment assignment resolved by the middleware
+ */
+export const EXPERIMENT_HEADER = 'x-experiment';
+
+const VALID_VARIANT_KEY = /^[\w-]{1,64}$/;
+
+/**
+ * Normalize a URL path: lower case, without trailing slash
+ */
+function normalizePath(path: string): string {
+  const lowerCased = path.trim().toLowerCase();
+  return lowerCased.length > 1 ? lowerCased.replace(/\/+$/, '') || '/' : lowerCased;
+}
+
+/**
+ * ExperimentService class for assigning visitors to A/B experiments
+ * Provides stateless static utility methods, usable in middleware
+ */
+class ExperimentService {
+  private constructor() { }
+
+  /**
+   * Checks if experiments are run (ENABLE_EXPERIMENTS=true)
+   */
+  public static isEnabled(): boolean {
+    return process.env.ENABLE_EXPERIMENTS === 'true';
+  }
+
+  /**
+   * Map an entry of the experiment content type. Variants without entry or with invalid names
+   * are skipped, and negative or missing weights count as 0.
+   * @param entry - The experiment entry
+   * @returns The experiment, or undefined when it is paused or has no variant with traffic
+   */
+  public static fromEntry(entry: ExperimentEntry): Experiment | undefined {
+    if (entry.status && entry.status !== 'Active') return undefined;
+    if (!entry.control_url?.startsWith('/')) return undefined;
+
+    const toWeight = (weight?: number | null) => (typeof weight === 'number' && weight > 0 ? weight : 0);
+
+    const variants: Array<ExperimentVariant> = [
+      { key: CONTROL_VARIANT, weight: toWeight(entry.control_weight ?? 50) },
+    ];
+
+    for (const variant of entry.variants || []) {
+      const reference = variant.entry?.[0];
+      const key = variant.name?.trim().toLowerCase().replace(/\s+/g, '-');
+
+      if (!reference?.uid || !reference._content_type_uid || !key || !VALID_VARIANT_KEY.test(key)) continue;
+      if (variants.some((existing) => existing.key === key)) continue;
+
+      variants.push({
+        key,
+        weight: toWeight(variant.weight),
+        entryUid: reference.uid,
+        contentTypeUid: reference._content_type_uid,
+      });
+    }
+
+    if (!variants.slice(1).some(({ weight }) => weight > 0)) return undefined;
+
+    return { uid: entry.uid, controlUrl: normalizePath(entry.control_url), variants };
+  }
+
+  /**
+   * Find the experiment of a page
+   * @param experiments - The running experiments
+   * @param urlPath - The URL path without locale prefix
+   */
+  public static findExperiment(experiments: Array<Experiment>, urlPath: string): Experiment | undefined {
+    const path = normalizePath(urlPath);
+    return experiments.find(({ controlUrl }) => controlUrl === path);
+  }
+
+  /**
+   * Get the cookie keeping the variant of an experiment
+   * @param experimentUid - The UID of the experiment
+   */
+  public static getCookieName(experimentUid: string): string {
+    return `${EXPERIMENT_COOKIE_PREFIX}${experimentUid}`;
+  }
+
+  /**
+   * Assign a visitor to a variant: the one of their cookie while it still has traffic,
+   * otherwise a variant drawn by weight
+   * @param experiment - The experiment
+   * @param cookieValue - The variant kept in the cookie of the experiment
+   * @param random - A random number in [0, 1)
+   * @returns The variant
+   */
+  public static assignVariant(
+    experiment: Experiment,
+    cookieValue?: string | null,
+    random: number = Math.random()
+  ): ExperimentVariant {
+    const stored = experiment.variants.find(({ key, weight }) => key === cookieValue && weight > 0);
+    if (stored) return stored;
+
+    const total = experiment.variants.reduce((sum, { weight }) => sum + weight, 0);
+    let threshold = random * total;
+
+    for (const variant of experiment.variants) {
+      if (variant.weight <= 0) continue;
+      threshold -= variant.weight;
+      if (threshold < 0) return variant;
+    }
+
+    return experiment.variants.filter(({ weight }) => weight > 0).pop() || experiment.variants[0];
+  }
+
+  /**
+   * Serialize an assignment for the request header, URI-encoded since header values are ASCII
+   * @param assignment - The assignment
+   */
+  public static serialize(assignment: ExperimentAssignment): string {
+    return encodeURIComponent(JSON.stringify(assignment));
+  }
+
+  /**
+   * Parse the assignment of the request header
+   * @param value - The header value
+   * @returns The assignment, or null when the header is missing or invalid
+   */
+  public static parse(value?: string | null): ExperimentAssignment | null {
+    if (!value) return null;
+
+    try {
+      const assignment = JSON.parse(decodeURIComponent(value)) as ExperimentAssignment;
+      const { experimentUid, controlUrl, variant } = assignment;
+
+      if (typeof experimentUid !== 'string' || typeof controlUrl !== 'string' || typeof variant?.key !== 'string') {
+        return null;
+      }
+
+      return assignment;
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Export class for static method access
+export { ExperimentService };
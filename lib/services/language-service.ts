@@ -1,41 +1,40 @@
 import {
+  LANGUAGE_DETAILS,
   SUPPORTED_LOCALES,
-  DEFAULT_LOCALE,
   SupportedLocale,
   LANGUAGES_WITHOUT_URL_PREFIX,
 } from '../../constants/locales';
+import { createLogger } from '../logger/logger';
 
 const LANGUAGE_PREFERENCE_COOKIE = 'language-preference';
 const LANGUAGE_PREFERENCE_STORAGE_KEY = 'language-preference';
 
 /**
- * LanguageService class for managing language-related operations
- * Provides both instance methods for current language state and static utility methods
+ * What the middleware does with the locale negotiated from Accept-Language on a first visit
+ * (LOCALE_NEGOTIATION environment variable):
+ * - `redirect` (default): redirects to the negotiated locale
+ * - `suggest`: serves the default locale and passes the negotiated locale on in the
+ *   x-suggested-locale header, read by the locale layout to suggest switching
+ * - `off`: always serves the default locale
  */
-class LanguageService {
-  private static instance: LanguageService;
-  private currentLanguage: string = DEFAULT_LOCALE;
-
-  private constructor() { }
+export type LocaleNegotiationMode = 'redirect' | 'suggest' | 'off';
 
-  public static getInstance(): LanguageService {
-    if (!LanguageService.instance) {
-      LanguageService.instance = new LanguageService();
-    }
-    return LanguageService.instance;
-  }
+/**
+ * Request and response header carrying the locale suggested by Accept-Language negotiation
+ */
+export const SUGGESTED_LOCALE_HEADER = 'x-suggested-locale';
 
-  // Instance methods for managing current language state
+const logger = createLogger('language-service');
 
-  public setLanguage(language: string): void {
-    this.currentLanguage = language;
-  }
-
-  public getLanguage(): string {
-    return this.currentLanguage;
-  }
+/**
+ * LanguageService class for managing language-related operations
+ * Provides stateless static utility methods. The current language of a request
+ * is request-scoped and lives in lib/contentstack/language.ts
+ */
+class LanguageService {
+  private constructor() { }
 
-  public isLanguageSupported(language: string): boolean {
+  public static isLanguageSupported(language: string): boolean {
     //Need to check if contentstack has the language code api
     //https://www.contentstack.com/docs/developers/multilingual-content/list-of-supported-languages
     // Check if the language or its base language variant is supported
@@ -55,7 +54,7 @@ class LanguageService {
     try {
       localStorage.setItem(LANGUAGE_PREFERENCE_STORAGE_KEY, baseLanguage);
     } catch (error) {
-      console.warn('Failed to save language preference to localStorage:', error);
+      logger.warn('Failed to save language preference to localStorage', { error });
     }
 
     // cookie for server-side is stored in the action for atomicity
@@ -94,7 +93,66 @@ class LanguageService {
         return stored as SupportedLocale;
       }
     } catch (error) {
-      console.warn('Failed to read language preference from localStorage:', error);
+      logger.warn('Failed to read language preference from localStorage', { error });
+    }
+
+    return null;
+  }
+
+  /**
+   * Get the Accept-Language negotiation mode from the LOCALE_NEGOTIATION environment variable
+   */
+  public static getNegotiationMode(): LocaleNegotiationMode {
+    const mode = (process.env.LOCALE_NEGOTIATION || 'redirect').toLowerCase();
+    return mode === 'suggest' || mode === 'off' ? mode : 'redirect';
+  }
+
+  /**
+   * Parse an Accept-Language header
+   * @param acceptLanguage - The header value (e.g. 'es-MX,es;q=0.9,en;q=0.8')
+   * @returns The lowercase language tags, most preferred first. Wildcards and tags with q=0 are left out.
+   */
+  public static parseAcceptLanguage(acceptLanguage?: string | null): Array<string> {
+    if (!acceptLanguage) return [];
+
+    return acceptLanguage
+      .split(',')
+      .map((part, index) => {
+        const [tag, ...params] = part.trim().split(';');
+        const qParam = params.find((param) => param.trim().startsWith('q='));
+        const q = qParam ? Number(qParam.trim().slice(2)) : 1;
+
+        return { tag: tag.trim().toLowerCase(), q: isNaN(q) ? 0 : q, index };
+      })
+      .filter(({ tag, q }) => tag && tag !== '*' && q > 0)
+      // Equal q-values keep the order of the header
+      .sort((a, b) => b.q - a.q || a.index - b.index)
+      .map(({ tag }) => tag);
+  }
+
+  /**
+   * Negotiate the locale to serve from an Accept-Language header.
+   * Each language, most preferred first, matches a locale with the same code, or else a locale
+   * of the same base language (es-MX matches es, en matches en-us).
+   * @param acceptLanguage - The Accept-Language header value
+   * @param locales - The locales to choose from (defaults to every supported locale)
+   * @returns The best matching locale, or null if no language matches
+   */
+  public static negotiateLocale(
+    acceptLanguage: string | null | undefined,
+    locales: ReadonlyArray<SupportedLocale> = SUPPORTED_LOCALES
+  ): SupportedLocale | null {
+    const getBaseLanguage = (locale: string) =>
+      LANGUAGE_DETAILS.find(({ langCode }) => langCode === locale)?.isoCode.toLowerCase() ||
+      locale.split('-')[0];
+
+    for (const tag of LanguageService.parseAcceptLanguage(acceptLanguage)) {
+      const exactMatch = locales.find((locale) => locale.toLowerCase() === tag);
+      if (exactMatch) return exactMatch;
+
+      const baseLanguage = tag.split('-')[0];
+      const baseMatch = locales.find((locale) => getBaseLanguage(locale) === baseLanguage);
+      if (baseMatch) return baseMatch;
     }
 
     return null;
@@ -130,9 +188,11 @@ class LanguageService {
   /**
    * Check if a language should appear in the URL
    * @param baseLanguage - The base language code
+   * @param defaultLocale - Optional default locale of the current site, served without prefix
    * @returns true if the language should have a URL prefix, false otherwise
    */
-  public static shouldShowLanguageInUrl(baseLanguage: string): boolean {
+  public static shouldShowLanguageInUrl(baseLanguage: string, defaultLocale?: string): boolean {
+    if (defaultLocale) return baseLanguage !== defaultLocale;
     return !LANGUAGES_WITHOUT_URL_PREFIX.includes(baseLanguage);
   }
 
@@ -140,12 +200,17 @@ class LanguageService {
    * Get URL path for a language (with or without prefix based on language)
    * @param baseLanguage - The base language code
    * @param pathWithoutLocale - The path without the locale prefix
+   * @param defaultLocale - Optional default locale of the current site, served without prefix
    * @returns The complete URL path with or without language prefix
    */
-  public static getLanguageUrlPath(baseLanguage: string, pathWithoutLocale: string): string {
+  public static getLanguageUrlPath(
+    baseLanguage: string,
+    pathWithoutLocale: string,
+    defaultLocale?: string
+  ): string {
     const basePath = pathWithoutLocale ? `/${pathWithoutLocale}` : '/';
 
-    if (LanguageService.shouldShowLanguageInUrl(baseLanguage)) {
+    if (LanguageService.shouldShowLanguageInUrl(baseLanguage, defaultLocale)) {
       return `/${baseLanguage}${basePath}`;
     }
 
@@ -153,6 +218,30 @@ class LanguageService {
     return basePath;
   }
 
+  /**
+   * Get URL path of the current page in another language. Pages can have a translated URL in
+   * each locale (see lib/contentstack/localized-urls.ts); without one, the current path is kept.
+   * @param baseLanguage - The base language code
+   * @param pathWithoutLocale - The current path without the locale prefix
+   * @param defaultLocale - Optional default locale of the current site, served without prefix
+   * @param localizedUrls - Optional URLs of the current page by locale
+   * @returns The complete URL path with or without language prefix
+   */
+  public static getLocalizedUrlPath(
+    baseLanguage: string,
+    pathWithoutLocale: string,
+    defaultLocale?: string,
+    localizedUrls?: Record<string, string>
+  ): string {
+    const localizedUrl = localizedUrls?.[baseLanguage];
+
+    return LanguageService.getLanguageUrlPath(
+      baseLanguage,
+      localizedUrl ? localizedUrl.replace(/^\/+/, '') : pathWithoutLocale,
+      defaultLocale
+    );
+  }
+
   /**
    * ! Function not needed as of now
    */
@@ -186,5 +275,5 @@ class LanguageService {
   // }
 }
 
-// Export class for singleton access via getInstance() and static method access
+// Export class for static method access
 export { LanguageService };
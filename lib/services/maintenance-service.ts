@@ -0,0 +1,238 @@
+/**
+ * Maintenance mode of a site, from the `maintenance_mode` group of its site settings
+ */
+export interface MaintenanceMode {
+  enabled: boolean;
+  title?: string;
+  message?: string;
+  /** ISO 8601 date-time the maintenance is expected to end */
+  endsAt?: string;
+  /** IP addresses or IPv4 ranges (CIDR) that keep browsing the site */
+  allowedIps: Array<string>;
+}
+
+/**
+ * Fields of the `maintenance_mode` group of the site settings
+ */
+export interface MaintenanceModeSettings {
+  enabled?: boolean;
+  title?: string;
+  message?: string;
+  ends_at?: string;
+  allowed_ips?: Array<string>;
+}
+
+/**
+ * Query parameter and cookie letting a visitor through with MAINTENANCE_BYPASS_SECRET
+ */
+export const MAINTENANCE_BYPASS_PARAM = 'maintenance_bypass';
+export const MAINTENANCE_BYPASS_COOKIE = 'maintenance-bypass';
+
+/**
+ * Retry-After sent when the end of the maintenance is unknown or past, in seconds
+ */
+const DEFAULT_RETRY_AFTER = 60 * 60;
+
+const IPV4 = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/;
+
+/**
+ * Convert an IPv4 address to a 32-bit number
+ */
+function ipv4ToNumber(ip: string): number | undefined {
+  const parts = IPV4.exec(ip)?.slice(1).map(Number);
+  if (!parts || parts.some((part) => part > 255)) return undefined;
+
+  return ((parts[0] << 24) | (parts[1] << 16) | (parts[2] << 8) | parts[3]) >>> 0;
+}
+
+/**
+ * Compare two strings in constant time, so the comparison does not tell how much of a secret
+ * was guessed
+ */
+function isEqualInConstantTime(value: string, expected: string): boolean {
+  if (value.length !== expected.length) return false;
+
+  let difference = 0;
+  for (let i = 0; i < expected.length; i++) {
+    difference |= expected.charCodeAt(i) ^ value.charCodeAt(i);
+  }
+
+  return difference === 0;
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * MaintenanceService class for evaluating the maintenance mode of a site
+ * Provides stateless static utility methods, usable in middleware
+ */
+class MaintenanceService {
+  private constructor() { }
+
+  /**
+   * Checks if site settings can take sites down for maintenance (ENABLE_MAINTENANCE_MODE=true)
+   */
+  public static isEnabled(): boolean {
+    return process.env.ENABLE_MAINTENANCE_MODE === 'true';
+  }
+
+  /**
+   * Map the `maintenance_mode` group of the site settings
+   * @param settings - The group, if the site settings have one
+   * @returns The maintenance mode, disabled without settings
+   */
+  public static fromSettings(settings?: MaintenanceModeSettings | null): MaintenanceMode {
+    return {
+      enabled: !!settings?.enabled,
+      title: settings?.title || undefined,
+      message: settings?.message || undefined,
+      endsAt: settings?.ends_at || undefined,
+      allowedIps: (settings?.allowed_ips || []).map((ip) => ip.trim()).filter(Boolean),
+    };
+  }
+
+  /**
+   * Get the IP address of the client from the headers set by the proxy or CDN.
+   * Clients can send any X-Forwarded-For, and each proxy appends the address it received the
+   * request from: only the entries appended by the TRUSTED_PROXY_COUNT proxies in front of the
+   * app (default 1) can be trusted, so the client is the left-most of them. With
+   * CLIENT_IP_HEADER, the header the platform overwrites with the client IP (e.g.
+   * `cf-connecting-ip`, `x-real-ip`) is read instead.
+   * @param headers - The request headers
+   * @returns The client IP, or undefined when the headers cannot tell it
+   */
+  public static getClientIp(headers: Headers): string | undefined {
+    const clientIpHeader = process.env.CLIENT_IP_HEADER;
+    if (clientIpHeader) {
+      return headers.get(clientIpHeader)?.trim() || undefined;
+    }
+
+    const trustedProxies = Number(process.env.TRUSTED_PROXY_COUNT || 1);
+    const forwardedFor = (headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map((ip) => ip.trim())
+      .filter(Boolean);
+    if (!Number.isInteger(trustedProxies) || trustedProxies < 1 || forwardedFor.length < trustedProxies) {
+      return undefined;
+    }
+
+    return forwardedFor[forwardedFor.length - trustedProxies];
+  }
+
+  /**
+   * Checks if an IP address is allowed: listed, or in a listed IPv4 range
+   * @param ip - The IP address of the client
+   * @param allowedIps - The allowed IP addresses and ranges
+   */
+  public static isIpAllowed(ip: string | undefined, allowedIps: Array<string>): boolean {
+    if (!ip) return false;
+
+    return allowedIps.some((allowed) => {
+      const [range, bits] = allowed.split('/');
+      if (bits === undefined) return allowed === ip;
+
+      const prefix = Number(bits);
+      const rangeNumber = ipv4ToNumber(range);
+      const ipNumber = ipv4ToNumber(ip);
+      if (rangeNumber === undefined || ipNumber === undefined || !(prefix >= 0 && prefix <= 32)) {
+        return false;
+      }
+
+      const mask = prefix === 0 ? 0 : (~0 << (32 - prefix)) >>> 0;
+      return (rangeNumber & mask) === (ipNumber & mask);
+    });
+  }
+
+  /**
+   * Checks if a value is the bypass secret (MAINTENANCE_BYPASS_SECRET), in constant time
+   * @param value - The query parameter value
+   */
+  public static isBypassSecret(value?: string | null): boolean {
+    const secret = process.env.MAINTENANCE_BYPASS_SECRET;
+    return !!secret && !!value && isEqualInConstantTime(value, secret);
+  }
+
+  /**
+   * Get the value of the bypass cookie: an HMAC-SHA256 of the secret, so the cookie never holds
+   * the secret itself, and changing the secret revokes the cookies set with the previous one.
+   * Uses Web Crypto, available in the edge runtime.
+   * @returns The token, or undefined without MAINTENANCE_BYPASS_SECRET
+   */
+  public static async getBypassToken(): Promise<string | undefined> {
+    const secret = process.env.MAINTENANCE_BYPASS_SECRET;
+    if (!secret) return undefined;
+
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey(
+      'raw',
+      encoder.encode(secret),
+      { name: 'HMAC', hash: 'SHA-256' },
+      false,
+      ['sign']
+    );
+    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(MAINTENANCE_BYPASS_COOKIE));
+
+    return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+  }
+
+  /**
+   * Checks if a value is the bypass cookie token (see getBypassToken), in constant time
+   * @param value - The cookie value
+   */
+  public static async isBypassToken(value?: string | null): Promise<boolean> {
+    const token = await MaintenanceService.getBypassToken();
+    return !!token && !!value && isEqualInConstantTime(value, token);
+  }
+
+  /**
+   * Get the Retry-After of the maintenance page: the time left until its end, or one hour
+   * @param maintenance - The maintenance mode
+   * @param now - The time of the request (default now)
+   * @returns The delay in seconds
+   */
+  public static getRetryAfter(maintenance: MaintenanceMode, now: number = Date.now()): number {
+    const endsAt = maintenance.endsAt ? Date.parse(maintenance.endsAt) : NaN;
+
+    return endsAt > now ? Math.ceil((endsAt - now) / 1000) : DEFAULT_RETRY_AFTER;
+  }
+
+  /**
+   * Render the maintenance page. The page is self-contained: it does not depend on the CMS
+   * or the application being available.
+   * @param maintenance - The maintenance mode, with the title and message authored in the CMS
+   * @param locale - The language of the page
+   * @returns The HTML document
+   */
+  public static renderPage(maintenance: MaintenanceMode, locale: string): string {
+    const title = escapeHtml(maintenance.title || 'Down for maintenance');
+    const paragraphs = (maintenance.message || 'We will be back shortly.')
+      .split(/\n\s*\n/)
+      .map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+      .join('');
+
+    return `<!DOCTYPE html>
+<html lang="${escapeHtml(locale)}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="robots" content="noindex">
+<title>${title}</title>
+<style>body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;font-family:system-ui,sans-serif;color:#111827;background:#f9fafb}main{max-width:36rem;padding:2rem;text-align:center}h1{font-size:1.875rem;margin:0 0 1rem}p{line-height:1.6;color:#374151}</style>
+</head>
+<body><main><h1>${title}</h1>${paragraphs}</main></body>
+</html>`;
+  }
+}
+
+// Export class for static method access
+export { MaintenanceService };
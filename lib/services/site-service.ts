@@ -0,0 +1,158 @@
+import { SITES, SiteDefinition } from '../../constants/sites';
+
+/**
+ * Site details that are safe to expose to client components
+ */
+export type PublicSiteDefinition = Pick<
+  SiteDefinition,
+  'name' | 'defaultLocale' | 'supportedLocales' | 'baseUrl'
+>;
+
+/**
+ * SiteService class for resolving the site a request belongs to
+ * Provides stateless static utility methods
+ */
+class SiteService {
+  private constructor() { }
+
+  /**
+   * Get the default site (the first site definition)
+   */
+  public static getDefaultSite(): SiteDefinition {
+    return SITES[0];
+  }
+
+  /**
+   * Get a site by its name
+   * @param siteName - The site name
+   * @returns The site definition, or undefined if no site has this name
+   */
+  public static getSiteByName(siteName?: string | null): SiteDefinition | undefined {
+    if (!siteName) return undefined;
+    return SITES.find((site) => site.name === siteName);
+  }
+
+  /**
+   * Get the site serving a host name
+   * @param host - The request host, with or without port
+   * @returns The matching site definition, or the default site
+   */
+  public static getSiteByHost(host?: string | null): SiteDefinition {
+    const hostname = (host || '').split(':')[0].toLowerCase();
+
+    if (!hostname) return SiteService.getDefaultSite();
+
+    const site = SITES.find((candidate) =>
+      candidate.hosts.some((pattern) => {
+        const normalizedPattern = pattern.toLowerCase();
+
+        // Wildcard subdomains, e.g. "*.brand.com"
+        if (normalizedPattern.startsWith('*.')) {
+          return hostname.endsWith(normalizedPattern.slice(1));
+        }
+
+        return normalizedPattern === hostname;
+      })
+    );
+
+    return site || SiteService.getDefaultSite();
+  }
+
+  /**
+   * Get the host a request was sent to.
+   * X-Forwarded-Host is set by the proxy or CDN in front of the app, but a client reaching the
+   * app directly can send any value: it is only read when TRUSTED_PROXY_COUNT is set, from the
+   * entry of the first trusted proxy. Otherwise the Host header is used.
+   * @param headers - The request headers
+   * @returns The request host, or null when the headers have none
+   */
+  public static getRequestHost(headers: Headers): string | null {
+    const trustedProxies = Number(process.env.TRUSTED_PROXY_COUNT);
+    const forwardedHosts = (headers.get('x-forwarded-host') || '')
+      .split(',')
+      .map((host) => host.trim())
+      .filter(Boolean);
+
+    if (!Number.isInteger(trustedProxies) || trustedProxies < 1 || forwardedHosts.length === 0) {
+      return headers.get('host');
+    }
+
+    return forwardedHosts[Math.max(forwardedHosts.length - trustedProxies, 0)];
+  }
+
+  /**
+   * Get the site serving a request, from its host (see getRequestHost)
+   * @param headers - The request headers
+   * @returns The matching site definition, or the default site
+   */
+  public static getSiteByRequest(headers: Headers): SiteDefinition {
+    return SiteService.getSiteByHost(SiteService.getRequestHost(headers));
+  }
+
+  /**
+   * Check if a locale is available on a site
+   * @param site - The site definition
+   * @param locale - The locale code to check
+   */
+  public static isLocaleSupported(site: SiteDefinition, locale: string): boolean {
+    return site.supportedLocales.includes(locale as SiteDefinition['defaultLocale']);
+  }
+
+  /**
+   * Get the URL of a path on a site, with locale prefix for non-default locales
+   * @param site - The site definition
+   * @param locale - The locale code
+   * @param urlPath - The path without locale prefix (e.g. '/about-us')
+   * @returns The absolute URL
+   */
+  public static getAbsoluteUrl(site: SiteDefinition, locale: string, urlPath: string): string {
+    return locale === site.defaultLocale
+      ? `${site.baseUrl}${urlPath}`
+      : `${site.baseUrl}/${locale}${urlPath}`;
+  }
+
+  /**
+   * Get the URL of an API route of the app, called by the middleware and the edge function.
+   * Never built from the request host, which the client controls: INTERNAL_API_URL (e.g.
+   * `http://127.0.0.1:3000`) or the base URL of the site, with the site name as `site` parameter.
+   * @param site - The site definition
+   * @param apiPath - The path of the API route (e.g. '/api/redirect')
+   * @param params - Other query parameters
+   * @returns The absolute URL
+   */
+  public static getInternalApiUrl(
+    site: SiteDefinition,
+    apiPath: string,
+    params: Record<string, string> = {}
+  ): string {
+    const url = new URL(apiPath, process.env.INTERNAL_API_URL || site.baseUrl);
+    url.search = new URLSearchParams({ site: site.name, ...params }).toString();
+    return url.toString();
+  }
+
+  /**
+   * Get the site an API route answers for: the site named by the `site` parameter of the
+   * middleware and edge function calls (see getInternalApiUrl), or the site of the request host
+   * @param request - The request
+   */
+  public static getSiteByApiRequest(request: Request): SiteDefinition {
+    const siteName = new URL(request.url).searchParams.get('site');
+    return SiteService.getSiteByName(siteName) || SiteService.getSiteByRequest(request.headers);
+  }
+
+  /**
+   * Strip server-only stack configuration so the site can be passed to client components
+   * @param site - The site definition
+   */
+  public static toPublicSite(site: SiteDefinition): PublicSiteDefinition {
+    return {
+      name: site.name,
+      defaultLocale: site.defaultLocale,
+      supportedLocales: site.supportedLocales,
+      baseUrl: site.baseUrl,
+    };
+  }
+}
+
+// Export class for static method access
+export { SiteService };
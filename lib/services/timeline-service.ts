@@ -0,0 +1,95 @@
+/**
+ * Date or Contentstack release a timeline preview renders the site at.
+ * At least one of the two is set.
+ */
+export interface TimelinePreview {
+  /** ISO 8601 date-time */
+  timestamp?: string;
+  releaseId?: string;
+}
+
+/**
+ * Query parameters selecting a timeline preview, as sent by the Timeline of Contentstack
+ * Live Preview. Empty values end the timeline preview.
+ */
+export const TIMELINE_TIMESTAMP_PARAM = 'preview_timestamp';
+export const TIMELINE_RELEASE_PARAM = 'release_id';
+
+/**
+ * Cookie keeping the timeline preview while the editor navigates
+ */
+export const TIMELINE_PREVIEW_COOKIE = 'timeline-preview';
+
+/**
+ * Request header carrying the timeline preview resolved by the middleware
+ */
+export const TIMELINE_PREVIEW_HEADER = 'x-timeline-preview';
+
+const VALID_RELEASE_ID = /^[\w-]{1,64}$/;
+
+/**
+ * TimelineService class for reading and writing timeline previews
+ * Provides stateless static utility methods
+ */
+class TimelineService {
+  private constructor() { }
+
+  /**
+   * Checks if timeline previews are available on every request, as on preview deployments
+   * (NEXT_PUBLIC_CONTENTSTACK_PREVIEW=true). Other deployments only serve them to requests in
+   * draft mode.
+   */
+  public static isEnabled(): boolean {
+    return process.env.NEXT_PUBLIC_CONTENTSTACK_PREVIEW === 'true';
+  }
+
+  /**
+   * Parse a timeline preview from query parameters (or from the cookie and header values,
+   * which use the same format). Invalid dates and release IDs are ignored.
+   * @param params - The parameters, or their query string
+   * @returns The timeline preview, or null when neither a valid date nor a release is set
+   */
+  public static parse(params?: URLSearchParams | string | null): TimelinePreview | null {
+    const searchParams = params instanceof URLSearchParams ? params : new URLSearchParams(params || '');
+    const timestampValue = searchParams.get(TIMELINE_TIMESTAMP_PARAM);
+    const releaseValue = searchParams.get(TIMELINE_RELEASE_PARAM);
+
+    const date = timestampValue ? new Date(timestampValue) : undefined;
+    const timestamp = date && !isNaN(date.getTime()) ? date.toISOString() : undefined;
+    const releaseId = releaseValue && VALID_RELEASE_ID.test(releaseValue) ? releaseValue : undefined;
+
+    if (!timestamp && !releaseId) return null;
+
+    return { timestamp, releaseId };
+  }
+
+  /**
+   * Read the timeline preview selected by the query parameters of a URL
+   * @param searchParams - The URL query parameters
+   * @returns The selected timeline preview, null when the parameters end the timeline preview,
+   * or undefined when the URL has no timeline parameter
+   */
+  public static fromSearchParams(searchParams: URLSearchParams): TimelinePreview | null | undefined {
+    if (!searchParams.has(TIMELINE_TIMESTAMP_PARAM) && !searchParams.has(TIMELINE_RELEASE_PARAM)) {
+      return undefined;
+    }
+
+    return TimelineService.parse(searchParams);
+  }
+
+  /**
+   * Serialize a timeline preview for the cookie and request header
+   * @param timeline - The timeline preview
+   * @returns The timeline as a query string
+   */
+  public static serialize(timeline: TimelinePreview): string {
+    const searchParams = new URLSearchParams();
+    if (timeline.timestamp) searchParams.set(TIMELINE_TIMESTAMP_PARAM, timeline.timestamp);
+    if (timeline.releaseId) searchParams.set(TIMELINE_RELEASE_PARAM, timeline.releaseId);
+
+    return searchParams.toString();
+  }
+}
+
+// Export class for static method access
+export { TimelineService };
@@ -10,6 +10,21 @@ export type GetEntries = {
   locale?: string;
 };
 
+export type GetEntriesByTaxonomy = GetEntries & {
+  taxonomyUid: string;
+  termUids: string | Array<string>;
+  includeDescendants?: boolean;
+  levels?: number;
+};
+
+/**
+ * A term assigned to an entry, as returned in its `taxonomies` field
+ */
+export interface IEntryTaxonomy {
+  taxonomy_uid: string;
+  term_uid: string;
+}
+
 export type GetEntryByUid = {
   contentTypeUid: string;
   referencesToInclude?: string | Array<string>;
@@ -1,12 +1,35 @@
 // middleware.ts
-import { NextRequest, NextResponse } from 'next/server';
-import { DEFAULT_LOCALE, SUPPORTED_LOCALES, type SupportedLocale } from '@/constants/locales';
-import { LanguageService } from '@/lib/services/language-service';
+import { NextFetchEvent, NextRequest, NextResponse } from 'next/server';
+import { type SupportedLocale } from '@/constants/locales';
+import { assignExperiment, setExperimentCookie } from '@/lib/experiments/middleware-experiments';
+import {
+  createRequestId,
+  REQUEST_ID_HEADER,
+  runWithRequestContext,
+} from '@/lib/logger/request-context';
+import { checkMaintenance } from '@/lib/maintenance/middleware-maintenance';
+import { checkContentOutage, isOutageCheckEnabled } from '@/lib/outages/middleware-outages';
+import { getRedirectResponse, isRedirectsEnabled } from '@/lib/redirects/middleware-redirects';
+import { EXPERIMENT_HEADER, ExperimentService } from '@/lib/services/experiment-service';
+import { LanguageService, SUGGESTED_LOCALE_HEADER } from '@/lib/services/language-service';
+import { MaintenanceService } from '@/lib/services/maintenance-service';
+import { SiteService } from '@/lib/services/site-service';
+import {
+  TIMELINE_PREVIEW_COOKIE,
+  TIMELINE_PREVIEW_HEADER,
+  TimelineService,
+} from '@/lib/services/timeline-service';
 
 const PUBLIC_FILE = /\.(.*)$/;
 const LANGUAGE_PREFERENCE_COOKIE = 'language-preference';
+// Request IDs forwarded by a proxy or CDN are kept when they look safe to log
+const VALID_REQUEST_ID = /^[\w.:-]{8,128}$/;
+// Cookie set by Next.js draft mode (see /api/preview/enter). Pages verify its value.
+const DRAFT_MODE_COOKIE = '__prerender_bypass';
+// Crawlers index every locale through its own URL and never get a negotiated locale
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|facebookexternalhit|embedly|preview|lighthouse|headless/i;
 
-export function middleware(request: NextRequest) {
+export async function middleware(request: NextRequest, event: NextFetchEvent) {
   const { pathname } = request.nextUrl;
 
   // List of paths to skip - explicit checks for safety
@@ -22,23 +45,119 @@ export function middleware(request: NextRequest) {
     return NextResponse.next();
   }
 
+  // Correlate the logs of this request with an ID, reusing the one set upstream if any.
+  // The loggers of the middleware modules read it from the request context.
+  const incomingRequestId = request.headers.get(REQUEST_ID_HEADER);
+  const requestId =
+    incomingRequestId && VALID_REQUEST_ID.test(incomingRequestId)
+      ? incomingRequestId
+      : createRequestId();
+
+  return runWithRequestContext(requestId, () => handlePageRequest(request, event, requestId));
+}
+
+/**
+ * Resolves the site, locale, redirects, maintenance mode and experiment of a page request
+ * @param request - The request
+ * @param event - The fetch event, keeping the middleware alive for background refreshes
+ * @param requestId - The ID correlating the logs of the request
+ */
+async function handlePageRequest(request: NextRequest, event: NextFetchEvent, requestId: string) {
+  const { pathname } = request.nextUrl;
+
+  // Resolve the site from the request host. Server components resolve it the same way
+  // (see getCurrentSite).
+  const site = SiteService.getSiteByRequest(request.headers);
+  const requestHeaders = new Headers(request.headers);
+  requestHeaders.set(REQUEST_ID_HEADER, requestId);
+
+  // Maintenance mode of the site settings: a 503 page, except for allowed IPs and the bypass
+  // cookie, whose pages are never cached while the site is down
+  let maintenanceBypassed = false;
+  if (MaintenanceService.isEnabled()) {
+    const maintenance = await checkMaintenance(request, site, (promise) => event.waitUntil(promise));
+    if (maintenance.response) {
+      maintenance.response.headers.set('X-Site', site.name);
+      maintenance.response.headers.set('X-Request-Id', requestId);
+      return maintenance.response;
+    }
+    maintenanceBypassed = maintenance.bypassed;
+  }
+
+  // CMS redirect rules, where the edge function did not apply them, before the locale is
+  // resolved: `/es/old` and `/old` can redirect to different pages. 410 and 451 rules render
+  // the gone page.
+  if (isRedirectsEnabled()) {
+    const redirectResponse = await getRedirectResponse(
+      request,
+      site,
+      requestHeaders,
+      (promise) => event.waitUntil(promise)
+    );
+    if (redirectResponse) {
+      redirectResponse.headers.set('X-Site', site.name);
+      redirectResponse.headers.set('X-Request-Id', requestId);
+      return redirectResponse;
+    }
+  }
+
+  // Preview deployment, or editor in draft mode
+  const isDraftMode = request.cookies.has(DRAFT_MODE_COOKIE);
+  const isPreview = TimelineService.isEnabled() || isDraftMode;
+
+  // Timeline preview (preview requests only): the date or release chosen with the query
+  // parameters is kept in a cookie while the editor navigates. The header is never taken
+  // from the incoming request.
+  requestHeaders.delete(TIMELINE_PREVIEW_HEADER);
+  const timelineFromQuery = isPreview
+    ? TimelineService.fromSearchParams(request.nextUrl.searchParams)
+    : undefined;
+  const timeline = isPreview
+    ? timelineFromQuery === undefined
+      ? TimelineService.parse(request.cookies.get(TIMELINE_PREVIEW_COOKIE)?.value)
+      : timelineFromQuery
+    : null;
+  if (timeline) {
+    requestHeaders.set(TIMELINE_PREVIEW_HEADER, TimelineService.serialize(timeline));
+  }
+
   const segments = pathname.split('/');
   const firstSegment = segments[1];
+  // Path of the page, without locale prefix
+  const urlPath = SiteService.isLocaleSupported(site, firstSegment)
+    ? `/${segments.slice(2).join('/')}`
+    : pathname;
 
-  // Get stored language preference from cookie
+  // A/B experiments (not in previews): the variant of the page is kept in a cookie and passed
+  // on to the page, which renders its entry at the same URL. The header is never taken from
+  // the incoming request.
+  requestHeaders.delete(EXPERIMENT_HEADER);
+  const experiment =
+    ExperimentService.isEnabled() && !isPreview
+      ? await assignExperiment(request, site, urlPath, (promise) => event.waitUntil(promise))
+      : undefined;
+  if (experiment) {
+    requestHeaders.set(EXPERIMENT_HEADER, ExperimentService.serialize(experiment));
+  }
+
+  // Get stored language preference from cookie, ignoring locales this site does not serve
   const cookieHeader = request.headers.get('cookie') || '';
-  const storedPreference = LanguageService.getStoredLanguagePreference(cookieHeader);
+  const cookiePreference = LanguageService.getStoredLanguagePreference(cookieHeader);
+  const storedPreference =
+    cookiePreference && SiteService.isLocaleSupported(site, cookiePreference)
+      ? cookiePreference
+      : null;
 
   let response: NextResponse;
   let shouldUpdateCookie = false;
-  let localeToUse: SupportedLocale = DEFAULT_LOCALE;
+  let localeToUse: SupportedLocale = site.defaultLocale;
 
-  // If first segment is a supported locale
-  if (SUPPORTED_LOCALES.includes(firstSegment as SupportedLocale)) {
+  // If first segment is a locale supported by the site
+  if (SiteService.isLocaleSupported(site, firstSegment)) {
     localeToUse = firstSegment as SupportedLocale;
 
     // Redirect default locale with prefix to clean URL
-    if (localeToUse === DEFAULT_LOCALE) {
+    if (localeToUse === site.defaultLocale) {
       // Remove the /en-us/ prefix and redirect to clean URL
       const pathWithoutLocale = '/' + segments.slice(2).join('/');
       const url = request.nextUrl.clone();
@@ -48,12 +167,15 @@ export function middleware(request: NextRequest) {
     } else {
       // Non-default locales: allow through
       shouldUpdateCookie = true;
-      response = NextResponse.next();
+      response = NextResponse.next({ request: { headers: requestHeaders } });
     }
   } else {
     // For paths without locale prefix, check for stored preference
     if (storedPreference) {
-      const shouldShowInUrl = LanguageService.shouldShowLanguageInUrl(storedPreference);
+      const shouldShowInUrl = LanguageService.shouldShowLanguageInUrl(
+        storedPreference,
+        site.defaultLocale
+      );
 
       if (shouldShowInUrl) {
         // Redirect to URL with locale prefix for non-English languages
@@ -61,19 +183,61 @@ export function middleware(request: NextRequest) {
         url.pathname = `/${storedPreference}${pathname}`;
         response = NextResponse.redirect(url);
       } else {
-        // For English, rewrite internally but keep URL clean
+        // For the site's default locale, rewrite internally but keep URL clean
         const url = request.nextUrl.clone();
-        url.pathname = `/${DEFAULT_LOCALE}${pathname}`;
-        response = NextResponse.rewrite(url);
+        url.pathname = `/${site.defaultLocale}${pathname}`;
+        response = NextResponse.rewrite(url, { request: { headers: requestHeaders } });
       }
       localeToUse = storedPreference;
       shouldUpdateCookie = true;
     } else {
-      // No stored preference, use default (English)
-      const url = request.nextUrl.clone();
-      url.pathname = `/${DEFAULT_LOCALE}${pathname}`;
-      response = NextResponse.rewrite(url);
-      localeToUse = DEFAULT_LOCALE;
+      // No stored preference (first visit): negotiate the locale with the Accept-Language header
+      const negotiationMode = LanguageService.getNegotiationMode();
+      const isBot = BOT_USER_AGENT.test(request.headers.get('user-agent') || '');
+      const negotiatedLocale =
+        negotiationMode !== 'off' && !isBot
+          ? LanguageService.negotiateLocale(
+              request.headers.get('accept-language'),
+              site.supportedLocales
+            )
+          : null;
+      const otherLocale = negotiatedLocale !== site.defaultLocale ? negotiatedLocale : null;
+
+      if (otherLocale && negotiationMode === 'redirect') {
+        // Temporary redirect: the same URL serves other languages to other visitors
+        const url = request.nextUrl.clone();
+        url.pathname = `/${otherLocale}${pathname}`;
+        response = NextResponse.redirect(url, 302);
+        localeToUse = otherLocale;
+      } else {
+        // Use the site's default locale, suggesting the negotiated one if it differs
+        if (otherLocale) requestHeaders.set(SUGGESTED_LOCALE_HEADER, otherLocale);
+
+        const url = request.nextUrl.clone();
+        url.pathname = `/${site.defaultLocale}${pathname}`;
+        response = NextResponse.rewrite(url, { request: { headers: requestHeaders } });
+        localeToUse = site.defaultLocale;
+
+        if (otherLocale) response.headers.set(SUGGESTED_LOCALE_HEADER, otherLocale);
+      }
+
+      // Caches must key first-visit responses on the browser languages
+      if (negotiationMode !== 'off') {
+        response.headers.append('Vary', 'Accept-Language');
+      }
+    }
+  }
+
+  // Pages rendered by this request (not redirects) that cannot be rendered while Contentstack
+  // is failing get a 503 with Retry-After, rather than the 500 of the error boundary
+  if (isOutageCheckEnabled() && !isPreview && response.status === 200) {
+    const outageResponse = await checkContentOutage(site, localeToUse, urlPath, (promise) =>
+      event.waitUntil(promise)
+    );
+    if (outageResponse) {
+      outageResponse.headers.set('X-Site', site.name);
+      outageResponse.headers.set('X-Request-Id', requestId);
+      return outageResponse;
     }
   }
 
@@ -86,14 +250,35 @@ export function middleware(request: NextRequest) {
     });
   }
 
-  // Add cache-control headers for SSR pages
+  // Store or clear the timeline preview chosen with the query parameters
+  if (timelineFromQuery) {
+    response.cookies.set(TIMELINE_PREVIEW_COOKIE, TimelineService.serialize(timelineFromQuery), {
+      path: '/',
+      httpOnly: true,
+      sameSite: 'lax',
+    });
+  } else if (timelineFromQuery === null) {
+    response.cookies.delete(TIMELINE_PREVIEW_COOKIE);
+  }
+
+  // Keep the variant of the visitor for their next visits
+  if (experiment) {
+    setExperimentCookie(response, experiment);
+  }
+
+  // Add cache-control headers for SSR pages. Drafts, timeline previews, experiment variants and
+  // pages served during maintenance must never be cached.
   response.headers.set(
     'Cache-Control',
-    `public, max-age=${process.env.CACHE_MAX_AGE || 3600}, stale-while-revalidate=${process.env.STALE_WHILE_REVALIDATE || 86400}`
+    timeline || isDraftMode || experiment || maintenanceBypassed
+      ? 'private, no-store'
+      : `public, max-age=${process.env.CACHE_MAX_AGE || 3600}, stale-while-revalidate=${process.env.STALE_WHILE_REVALIDATE || 86400}`
   );
 
-  // Set the current locale as a response header for debugging/CDN rules
+  // Set the current locale and site as response headers for debugging/CDN rules
   response.headers.set('X-Locale', localeToUse);
+  response.headers.set('X-Site', site.name);
+  response.headers.set('X-Request-Id', requestId);
 
   return response;
 }
@@ -1,6 +1,10 @@
 'use client';
 import { IDictionaryItems } from '@/.generated';
 import { GlobalLabelsProvider } from '@/context/GlobalLabelContext';
+import { LocaleSuggestionProvider } from '@/context/LocaleSuggestionContext';
+import { SiteProvider } from '@/context/SiteContext';
+import type { PublicSiteDefinition } from '@/lib/services/site-service';
+import type { SupportedLocale } from '@/constants/locales';
 // IMPORTANT: Register CLIENT components for client-side bundle
 // This ensures ComponentMapper has client components available during hydration
 import '@/temp/registered-client-only-components';
@@ -12,9 +16,15 @@ export function Providers({
   children: React.ReactNode;
   data: {
     globalLabels: IDictionaryItems | object;
+    site: PublicSiteDefinition;
+    suggestedLocale?: SupportedLocale | null;
   };
 }) {
   return (
-    <GlobalLabelsProvider value={data}>{children}</GlobalLabelsProvider>
+    <SiteProvider value={data.site}>
+      <GlobalLabelsProvider value={{ globalLabels: data.globalLabels }}>
+        <LocaleSuggestionProvider value={data.suggestedLocale ?? null}>{children}</LocaleSuggestionProvider>
+      </GlobalLabelsProvider>
+    </SiteProvider>
   );
 }
@@ -1,37 +1,39 @@
 import dotenv from 'dotenv';
 import { execSync } from 'child_process';
 import fs from 'fs';
+import { createLogger } from '../lib/logger/logger';
 
 dotenv.config({ path: '.env' });
 
 const apiKey = process.env.CONTENTSTACK_API_KEY;
 const outputDir = './contentstack-schema';
 
+const logger = createLogger('export-content');
+
 if (!apiKey) {
-  console.error('❌ Error: CONTENTSTACK_API_KEY not found in .env');
-  console.error('Please add CONTENTSTACK_API_KEY to your .env file');
+  logger.error('CONTENTSTACK_API_KEY not found in .env. Please add it to your .env file');
   process.exit(1);
 }
 
 // Delete existing directory if it exists
 if (fs.existsSync(outputDir)) {
-  console.log(`🗑️  Removing existing directory: ${outputDir}`);
+  logger.info('Removing existing directory', { directory: outputDir });
   try {
     fs.rmSync(outputDir, { recursive: true, force: true });
-    console.log('✅ Directory removed');
+    logger.info('Directory removed', { directory: outputDir });
   } catch (error) {
-    console.error('❌ Failed to remove directory:', error);
+    logger.error('Failed to remove directory', { directory: outputDir, error });
     process.exit(1);
   }
 }
 
 const command = `csdx cm:stacks:export -k ${apiKey} -d ${outputDir}`;
 
-console.log('📦 Exporting Contentstack schema...');
+logger.info('Exporting Contentstack schema...', { directory: outputDir });
 try {
   execSync(command, { stdio: 'inherit' });
-  console.log('✅ Export complete!');
+  logger.info('Export complete');
 } catch (error) {
-  console.error('❌ Export failed');
+  logger.error('Export failed', { error });
   process.exit(1);
 }
\ No newline at end of file
@@ -0,0 +1,165 @@
+/**
+ * Fake Contentstack delivery server
+ *
+ * Answers delivery API entry requests from the exported stack (contentstack-schema) and can
+ * inject latency and failures, to exercise the timeout, retry and circuit breaker policy in
+ * lib/contentstack/resilience.ts without touching Contentstack.
+ *
+ * Usage:
+ *   npm run fake-delivery
+ *   CONTENTSTACK_DELIVERY_ENDPOINT=http://localhost:4010/v3 npm run next:dev
+ *
+ * Fault injection (environment variables, or at runtime with POST /__fake/config?<name>=<value>):
+ *   FAKE_DELIVERY_FAILURE_STATUS  status returned by failing requests (default 503)
+ *   FAKE_DELIVERY_FAILURE_RATE    share of requests that fail, 0 to 1 (default 0)
+ *   FAKE_DELIVERY_LATENCY_MS      delay added to every response (default 0)
+ *
+ * GET /__fake/stats returns the number of requests served and failed.
+ */
+
+import http from 'http';
+import { createLocalSource } from '../lib/contentstack/local-source';
+import type { EntriesQuery } from '../lib/contentstack/content-source';
+import { createLogger } from '../lib/logger/logger';
+
+const logger = createLogger('fake-delivery');
+
+const port = Number(process.env.FAKE_DELIVERY_PORT) || 4010;
+
+const faults = {
+  failureStatus: Number(process.env.FAKE_DELIVERY_FAILURE_STATUS) || 503,
+  failureRate: Number(process.env.FAKE_DELIVERY_FAILURE_RATE) || 0,
+  latencyMs: Number(process.env.FAKE_DELIVERY_LATENCY_MS) || 0,
+};
+
+const stats = { requests: 0, failures: 0 };
+
+const source = createLocalSource();
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Converts the delivery API `query` parameter back into EntriesQuery filters
+ */
+function parseWhere(query: string | null): EntriesQuery['where'] {
+  if (!query) return undefined;
+
+  const parsed = JSON.parse(query) as Record<string, any>;
+
+  return Object.fromEntries(
+    Object.entries(parsed).map(([fieldUid, value]) => [
+      fieldUid,
+      value && typeof value === 'object' && Array.isArray(value.$in) ? value.$in : String(value),
+    ])
+  );
+}
+
+/**
+ * Reads `only[BASE][]` and `only[BASE][<index>]` parameters
+ */
+function parseOnly(params: URLSearchParams): Array<string> | undefined {
+  const only = [...params.entries()]
+    .filter(([name]) => name.startsWith('only[BASE]'))
+    .map(([, value]) => value);
+
+  return only.length > 0 ? only : undefined;
+}
+
+async function handleEntries(url: URL, response: http.ServerResponse) {
+  const match = url.pathname.match(/^\/v3\/content_types\/([^/]+)\/entries(?:\/([^/]+))?\/?$/);
+
+  if (!match) {
+    sendJson(response, 404, { error_message: 'Not found', error_code: 404 });
+    return;
+  }
+
+  const [, contentTypeUid, entryUid] = match;
+  const params = url.searchParams;
+  const locale = params.get('locale') || 'en-us';
+  const includeFallback = params.get('include_fallback') === 'true';
+  const referencesToInclude = params.getAll('include[]');
+
+  if (entryUid) {
+    try {
+      const entry = await source.fetchEntry({
+        contentTypeUid,
+        entryUid,
+        locale,
+        includeFallback,
+        referencesToInclude,
+      });
+      sendJson(response, 200, { entry });
+    } catch {
+      sendJson(response, 404, {
+        error_message: "The requested entry doesn't exist.",
+        error_code: 141,
+      });
+    }
+    return;
+  }
+
+  const result = await source.findEntries({
+    contentTypeUid,
+    locale,
+    includeFallback,
+    referencesToInclude,
+    includeAllDepth: params.get('include_all') === 'true'
+      ? Number(params.get('include_all_depth')) || 1
+      : undefined,
+    where: parseWhere(params.get('query')),
+    only: parseOnly(params),
+    skip: Number(params.get('skip')) || undefined,
+    limit: Number(params.get('limit')) || undefined,
+    includeCount: params.get('include_count') === 'true',
+  });
+
+  sendJson(response, 200, result);
+}
+
+const server = http.createServer(async (request, response) => {
+  const url = new URL(request.url || '/', `http://localhost:${port}`);
+
+  // Runtime fault configuration
+  if (url.pathname === '/__fake/config' && request.method === 'POST') {
+    for (const key of Object.keys(faults) as Array<keyof typeof faults>) {
+      const value = url.searchParams.get(key);
+      if (value !== null) faults[key] = Number(value);
+    }
+    sendJson(response, 200, faults);
+    return;
+  }
+
+  if (url.pathname === '/__fake/stats') {
+    sendJson(response, 200, { ...stats, faults });
+    return;
+  }
+
+  stats.requests++;
+
+  if (faults.latencyMs) {
+    await new Promise((resolve) => setTimeout(resolve, faults.latencyMs));
+  }
+
+  if (Math.random() < faults.failureRate) {
+    stats.failures++;
+    sendJson(response, faults.failureStatus, {
+      error_message: `Injected failure (${faults.failureStatus})`,
+      error_code: faults.failureStatus,
+    });
+    return;
+  }
+
+  try {
+    await handleEntries(url, response);
+  } catch (error) {
+    logger.error('Fake delivery server error', { url: url.pathname, error });
+    sendJson(response, 500, { error_message: 'Fake delivery server error', error_code: 500 });
+  }
+});
+
+server.listen(port, () => {
+  logger.info(`Fake delivery server listening on http://localhost:${port}/v3`, { faults });
+});
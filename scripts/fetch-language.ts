@@ -20,6 +20,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { fetchLocales, testConnection } from '../lib/contentstack/management-stack';
+import { createLogger } from '../lib/logger/logger';
 import { Locale } from '@contentstack/management/types/stack/locale';
 
 /**
@@ -29,16 +30,7 @@ const CONFIG = {
     outputFile: path.join(process.cwd(), 'constants', 'locales.ts'),
 } as const;
 
-/**
- * Logger utility for consistent output formatting
- */
-const logger = {
-    info: (message: string) => console.log(`ℹ️  ${message}`),
-    success: (message: string) => console.log(`✅ ${message}`),
-    warn: (message: string) => console.warn(`⚠️  ${message}`),
-    error: (message: string) => console.error(`❌ ${message}`),
-    debug: (message: string) => console.log(`🔍 ${message}`),
-};
+const logger = createLogger('fetch-language');
 
 /**
  * Processes raw locale data from Contentstack into structured format
@@ -156,7 +148,7 @@ function writeOutputFile(content: string): void {
     // Write the generated file
     fs.writeFileSync(CONFIG.outputFile, content, 'utf-8');
 
-    logger.success(`Generated: ${CONFIG.outputFile}`);
+    logger.info(`Generated: ${CONFIG.outputFile}`);
 }
 
 /**
@@ -170,7 +162,7 @@ async function main(): Promise<void> {
         // Step 1: Test connection
         logger.info('Testing Contentstack Management API connection...');
         await testConnection();
-        logger.success('Connection successful');
+        logger.info('Connection successful');
 
         // Step 2: Fetch locales
         logger.info('Fetching locales from stack...');
@@ -180,7 +172,7 @@ async function main(): Promise<void> {
             throw new Error('No locales found in Contentstack stack');
         }
 
-        logger.success(`Found ${languages.length} locale${languages.length > 1 ? 's' : ''}`);
+        logger.info(`Found ${languages.length} locale${languages.length > 1 ? 's' : ''}`);
         languages.forEach((lang) => {
             logger.info(`  - ${lang.code} (${lang.name})`);
         });
@@ -197,7 +189,7 @@ async function main(): Promise<void> {
         writeOutputFile(fileContent);
 
         // Summary
-        logger.success('Language fetch complete!');
+        logger.info('Language fetch complete!');
         logger.info(`  Locales: ${processedData.locales.join(', ')}`);
         logger.info(`  Default: ${processedData.defaultLocale}`);
         logger.info(`  Output: ${CONFIG.outputFile}`);
@@ -230,6 +222,6 @@ main()
         process.exit(0);
     })
     .catch((error) => {
-        logger.error(`Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        logger.error('Unexpected error', { error });
         process.exit(1);
     });
\ No newline at end of file
@@ -0,0 +1,70 @@
+/**
+ * Taxonomy Fetcher Script
+ *
+ * Exports the taxonomies of each site's stack with their terms, so the delivery content
+ * source can resolve the term hierarchy without calling the management API at runtime.
+ *
+ * This script should be run during the build process, after taxonomies are changed.
+ *
+ * @usage
+ *
+ * tsx scripts/fetch-taxonomies.ts
+ *
+ * @output .contentstack-taxonomies/<site>/<taxonomy>.json (see lib/contentstack/taxonomy-export.ts)
+ *
+ * @requires CONTENTSTACK_MANAGEMENT_TOKEN (or the `managementToken` of the site's stack)
+ * @requires CONTENTSTACK_API_KEY (or the `apiKey` of the site's stack)
+ */
+
+import { SITES } from '../constants/sites';
+import { exportTaxonomies } from '../lib/contentstack/management-stack';
+import { getTaxonomyDirectory, writeExportedTaxonomies } from '../lib/contentstack/taxonomy-export';
+import { createLogger } from '../lib/logger/logger';
+
+const logger = createLogger('fetch-taxonomies');
+
+/**
+ * Main execution function
+ * Exports the taxonomies of every site
+ */
+async function main(): Promise<void> {
+    logger.info('Starting taxonomy fetch from Contentstack...');
+
+    try {
+        for (const site of SITES) {
+            const directory = getTaxonomyDirectory(site);
+            const taxonomies = await exportTaxonomies(site.stack);
+
+            writeExportedTaxonomies(directory, taxonomies);
+
+            logger.info(`Exported ${taxonomies.length} taxonom${taxonomies.length === 1 ? 'y' : 'ies'}`, {
+                site: site.name,
+                directory,
+            });
+        }
+
+        logger.info('Taxonomy fetch complete!');
+    } catch (error) {
+        logger.error('Taxonomy fetch failed');
+
+        if (error instanceof Error) {
+            logger.error(error.message);
+
+            if (error.message.includes('CONTENTSTACK_MANAGEMENT_TOKEN')) {
+                logger.info('Hint: Make sure your .env file contains CONTENTSTACK_MANAGEMENT_TOKEN');
+            }
+        }
+
+        process.exit(1);
+    }
+}
+
+// Execute the script
+main()
+    .then(() => {
+        process.exit(0);
+    })
+    .catch((error) => {
+        logger.error('Unexpected error', { error });
+        process.exit(1);
+    });
@@ -1,6 +1,9 @@
 import fs from 'fs';
 import path from 'path';
 import chokidar from 'chokidar';
+import { createLogger } from '../lib/logger/logger';
+
+const logger = createLogger('component-mapper');
 
 // ============================================================================
 // CONFIGURATION: Add your component directories here (scans recursively)
@@ -49,7 +52,7 @@ const isClientComponent = (filePath: string): boolean => {
     // Check if file is in exclude patterns (force as server component)
     if (CLIENT_DETECTION_CONFIG.excludePatterns.some(pattern => fileName.includes(pattern))) {
       if (CLIENT_DETECTION_CONFIG.verboseLogging) {
-        console.log(`   [SERVER] ${fileName} - Excluded by pattern`);
+        logger.debug('Server component', { file: fileName, reason: 'Excluded by pattern' });
       }
       return false;
     }
@@ -71,7 +74,7 @@ const isClientComponent = (filePath: string): boolean => {
     if (hasUseClientDirective) {
       reasons.push("'use client' directive");
       if (CLIENT_DETECTION_CONFIG.verboseLogging) {
-        console.log(`   [CLIENT] ${fileName} - ${reasons.join(', ')}`);
+        logger.debug('Client component', { file: fileName, reasons });
       }
       return true;
     }
@@ -104,7 +107,7 @@ const isClientComponent = (filePath: string): boolean => {
     if (foundHook) {
       reasons.push(`uses hook: ${foundHook.source.match(/\\b(\w+)\\s*\\\(/)?.[1]}`);
       if (CLIENT_DETECTION_CONFIG.verboseLogging) {
-        console.log(`   [CLIENT] ${fileName} - ${reasons.join(', ')}`);
+        logger.debug('Client component', { file: fileName, reasons });
       }
       return true;
     }
@@ -140,7 +143,7 @@ const isClientComponent = (filePath: string): boolean => {
     if (foundHandler) {
       reasons.push(`uses event: ${foundHandler.source.match(/\\b(on\w+)\\s*=/)?.[1]}`);
       if (CLIENT_DETECTION_CONFIG.verboseLogging) {
-        console.log(`   [CLIENT] ${fileName} - ${reasons.join(', ')}`);
+        logger.debug('Client component', { file: fileName, reasons });
       }
       return true;
     }
@@ -167,7 +170,7 @@ const isClientComponent = (filePath: string): boolean => {
     if (foundAPI) {
       reasons.push(`uses browser API: ${foundAPI.source.match(/\\b(\w+)\./)?.[1] || 'detected'}`);
       if (CLIENT_DETECTION_CONFIG.verboseLogging) {
-        console.log(`   [CLIENT] ${fileName} - ${reasons.join(', ')}`);
+        logger.debug('Client component', { file: fileName, reasons });
       }
       return true;
     }
@@ -175,11 +178,11 @@ const isClientComponent = (filePath: string): boolean => {
     // 5. Default to false (server component)
     // Server components are the default in Next.js App Router
     if (CLIENT_DETECTION_CONFIG.verboseLogging) {
-      console.log(`   [SERVER] ${fileName} - No client indicators found`);
+      logger.debug('Server component', { file: fileName, reason: 'No client indicators found' });
     }
     return false;
   } catch (error) {
-    console.error(`Error reading file ${filePath}:`, error);
+    logger.error('Error reading file', { file: filePath, error });
     // Default to server component on error (safer default)
     return false;
   }
@@ -277,16 +280,17 @@ export const generateRegisteredComponents = () => {
       'Client Only Components'
     );
 
-    console.log(`✅ Generated component registries:`);
-    console.log(`   📦 Components: ${componentMap.size} components`);
-    console.log(`   🎨 Client: ${clientOnlyComponentMap.size} components`);
+    logger.info('Generated component registries', {
+      components: componentMap.size,
+      clientOnlyComponents: clientOnlyComponentMap.size,
+    });
 
     return {
       components: Array.from(componentMap.keys()),
       clientOnlyComponents: Array.from(clientOnlyComponentMap.keys()),
     };
   } catch (error) {
-    console.error('Error reading registered components directories:', error);
+    logger.error('Error reading registered components directories', { error });
     return { components: [], clientOnlyComponents: [] };
   }
 };
@@ -392,7 +396,7 @@ const startWatchMode = () => {
     try {
       generateRegisteredComponents();
     } catch (error) {
-      console.error('❌ Error updating component mapper:', error);
+      logger.error('Error updating component mapper', { error });
     } finally {
       isGenerating = false;
     }
@@ -414,7 +418,7 @@ const startWatchMode = () => {
     })
     .on('ready', () => { })
     .on('error', (error) => {
-      console.error('❌ Watcher error:', error);
+      logger.error('Watcher error', { error });
     });
 
   // Graceful shutdown
@@ -1,5 +1,6 @@
 import { execSync } from 'child_process';
 import dotenv from 'dotenv';
+import { createLogger } from '../lib/logger/logger';
 
 dotenv.config({ path: '.env' });
 
@@ -7,21 +8,23 @@ const args = process.argv.slice(2);
 const apiKey = args[0] || process.env.CONTENTSTACK_API_KEY;
 const inputDir = './contentstack-schema';
 
+const logger = createLogger('import-content');
+
 if (!apiKey) {
-    console.error('❌ Error: Stack API key is required');
-    console.error('Usage: npm run import-content <api-key>');
-    console.error('Example: npm run import-content blt1234567890abcdef');
+    logger.error('Stack API key is required', {
+        usage: 'npm run import-content <api-key>',
+        example: 'npm run import-content blt1234567890abcdef',
+    });
     process.exit(1);
 }
 
 const command = `csdx cm:stacks:import -k ${apiKey} -d ${inputDir}`;
 
-console.log('📥 Importing Contentstack schema...');
-console.log(`Using directory: ${inputDir}`);
+logger.info('Importing Contentstack schema...', { directory: inputDir });
 try {
     execSync(command, { stdio: 'inherit' });
-    console.log('✅ Import complete!');
+    logger.info('Import complete');
 } catch (error) {
-    console.error('❌ Import failed');
+    logger.error('Import failed', { error });
     process.exit(1);
 }
\ No newline at end of file
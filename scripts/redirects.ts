@@ -0,0 +1,252 @@
+/**
+ * Redirects Script
+ *
+ * Manages the mappings of the redirect_mappings entry with the Contentstack Management API:
+ * CSV import and export, and validation of the rules before they are published (see
+ * lib/redirects/redirect-validation.ts). Loops and invalid rules block the import; chains,
+ * duplicate sources and destinations that 404 are reported.
+ *
+ * @usage
+ *
+ * npm run redirects -- export [--out redirects.csv]        write the mappings as CSV
+ * npm run redirects -- validate [redirects.csv]            validate the CSV file, or the entry
+ * npm run redirects -- import redirects.csv                replace the mappings with the CSV file
+ * npm run redirects -- flatten                             rewrite the chains of the entry into single hops
+ *
+ * Options:
+ * --flatten    (import) rewrite chains into single hops before saving
+ * --publish    (import, flatten) publish the entry to the environment of the site's stack
+ *              (defaults to NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT)
+ * --dry-run    (import, flatten) validate without saving
+ * --site name  site whose stack holds the mappings, and whose locales and pages the destinations
+ *              are checked against
+ *
+ * @requires CONTENTSTACK_MANAGEMENT_TOKEN (or the `managementToken` of the site's stack)
+ * @requires CONTENTSTACK_API_KEY (or the `apiKey` of the site's stack)
+ */
+
+import * as fs from 'fs';
+import { SITES, SiteDefinition } from '../constants/sites';
+import {
+  fetchAllEntries,
+  publishEntry,
+  updateEntryFields,
+} from '../lib/contentstack/management-stack';
+import { PAGE_TYPES } from '../lib/contentstack/page-types';
+import { createLogger } from '../lib/logger/logger';
+import { parseRedirectCsv, toRedirectCsv } from '../lib/redirects/redirect-csv';
+import {
+  isActiveMapping,
+  REDIRECT_MAPPINGS_CONTENT_TYPE,
+  RedirectMapping,
+  toRedirectRule,
+} from '../lib/redirects/redirect-mappings';
+import { RedirectIssue, validateRedirects } from '../lib/redirects/redirect-validation';
+import { SiteService } from '../lib/services/site-service';
+
+const logger = createLogger('redirects');
+
+const OPTIONS_WITH_VALUE = ['--site', '--out'];
+
+const args = process.argv.slice(2);
+const command = args[0];
+const flatten = args.includes('--flatten');
+const publish = args.includes('--publish');
+const dryRun = args.includes('--dry-run');
+// Arguments after the command that are no option or option value (the CSV file)
+const positionals = args
+  .slice(1)
+  .filter((arg, i, rest) => !arg.startsWith('--') && !OPTIONS_WITH_VALUE.includes(rest[i - 1]));
+
+/**
+ * Get the value of an option
+ */
+function getOption(option: string): string | undefined {
+  const index = args.indexOf(option);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * Load the redirect_mappings entry
+ */
+async function loadEntry(site: SiteDefinition) {
+  const [entry] = await fetchAllEntries(REDIRECT_MAPPINGS_CONTENT_TYPE, site.defaultLocale, site.stack);
+
+  if (!entry) {
+    throw new Error(`No ${REDIRECT_MAPPINGS_CONTENT_TYPE} entry found`);
+  }
+
+  return entry;
+}
+
+/**
+ * List the URLs of every page of the site, with locale prefix (default locale without)
+ */
+async function loadPageUrls(site: SiteDefinition): Promise<Set<string>> {
+  const pageUrls = new Set<string>();
+
+  // One query per content type and locale, one after the other to stay within the rate limits
+  for (const { contentTypeUid } of PAGE_TYPES) {
+    for (const locale of site.supportedLocales) {
+      const entries = await fetchAllEntries(contentTypeUid, locale, site.stack);
+
+      for (const { url } of entries) {
+        if (typeof url !== 'string' || !url) continue;
+
+        const path = locale === site.defaultLocale ? url : `/${locale}${url === '/' ? '' : url}`;
+        pageUrls.add(path.length > 1 ? path.replace(/\/+$/, '') : path);
+      }
+    }
+  }
+
+  return pageUrls;
+}
+
+/**
+ * Validate the active mappings and log the issues
+ * @returns The issues, by position in the active mappings
+ */
+function validate(mappings: RedirectMapping[], site: SiteDefinition, pageUrls: Set<string>): RedirectIssue[] {
+  const issues = validateRedirects(mappings.filter(isActiveMapping).map(toRedirectRule), { site, pageUrls });
+
+  for (const issue of issues) {
+    const context = { rule: issue.index + 1, type: issue.type, source: issue.source };
+    if (issue.severity === 'error') {
+      logger.error(issue.message, context);
+    } else {
+      logger.warn(issue.message, context);
+    }
+  }
+
+  const errors = issues.filter(({ severity }) => severity === 'error').length;
+  logger.info('Validated redirects', {
+    mappings: mappings.length,
+    errors,
+    warnings: issues.length - errors,
+  });
+
+  return issues;
+}
+
+/**
+ * Rewrite the chains of the active mappings into single hops
+ * @returns The number of rewritten mappings
+ */
+function flattenChains(mappings: RedirectMapping[], issues: RedirectIssue[]): number {
+  const activeMappings = mappings.filter(isActiveMapping);
+  let flattened = 0;
+
+  for (const issue of issues) {
+    if (issue.type !== 'chain' || !issue.finalDestination) continue;
+
+    activeMappings[issue.index].destination = issue.finalDestination;
+    flattened++;
+  }
+
+  logger.info('Flattened redirect chains', { flattened });
+  return flattened;
+}
+
+/**
+ * Validate the mappings, flatten their chains if asked, and save them to the entry
+ */
+async function save(mappings: RedirectMapping[], site: SiteDefinition, shouldFlatten: boolean) {
+  const pageUrls = await loadPageUrls(site);
+  let issues = validate(mappings, site, pageUrls);
+
+  if (shouldFlatten && flattenChains(mappings, issues) > 0) {
+    issues = validate(mappings, site, pageUrls);
+  }
+
+  if (issues.some(({ severity }) => severity === 'error')) {
+    throw new Error('Fix the errors above before saving the redirects');
+  }
+
+  if (dryRun) {
+    logger.info('Dry run: redirects not saved');
+    return;
+  }
+
+  const entry = await loadEntry(site);
+  await updateEntryFields(
+    REDIRECT_MAPPINGS_CONTENT_TYPE,
+    entry.uid,
+    { mappings },
+    site.defaultLocale,
+    site.stack
+  );
+  logger.info('Saved redirects', { entryUid: entry.uid, mappings: mappings.length });
+
+  if (publish) {
+    const environment = site.stack?.environment || process.env.NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT;
+    if (!environment) throw new Error('NEXT_PUBLIC_CONTENTSTACK_ENVIRONMENT is required to publish');
+
+    await publishEntry(
+      REDIRECT_MAPPINGS_CONTENT_TYPE,
+      entry.uid,
+      [environment],
+      [site.defaultLocale],
+      site.stack
+    );
+    logger.info('Published redirects', { entryUid: entry.uid, environment });
+  }
+}
+
+async function main() {
+  const siteName = getOption('--site');
+  const site = siteName ? SiteService.getSiteByName(siteName) : SiteService.getDefaultSite();
+
+  if (!site) {
+    logger.error(`Unknown site "${siteName}"`, { sites: SITES.map(({ name }) => name) });
+    process.exit(1);
+  }
+
+  switch (command) {
+    case 'export': {
+      const entry = await loadEntry(site);
+      const csv = toRedirectCsv(entry.mappings || []);
+      const out = getOption('--out');
+
+      if (out) {
+        fs.writeFileSync(out, csv, 'utf-8');
+        logger.info('Exported redirects', { file: out, mappings: entry.mappings?.length ?? 0 });
+      } else {
+        process.stdout.write(csv);
+      }
+      break;
+    }
+
+    case 'validate': {
+      const file = positionals[0];
+      const mappings = file
+        ? parseRedirectCsv(fs.readFileSync(file, 'utf-8'))
+        : ((await loadEntry(site)).mappings || []);
+      const issues = validate(mappings, site, await loadPageUrls(site));
+
+      if (issues.some(({ severity }) => severity === 'error')) process.exit(1);
+      break;
+    }
+
+    case 'import': {
+      const file = positionals[0];
+      if (!file) throw new Error('Missing CSV file: npm run redirects -- import redirects.csv');
+
+      await save(parseRedirectCsv(fs.readFileSync(file, 'utf-8')), site, flatten);
+      break;
+    }
+
+    case 'flatten': {
+      await save((await loadEntry(site)).mappings || [], site, true);
+      break;
+    }
+
+    default:
+      logger.error(`Unknown command "${command ?? ''}"`, { commands: ['export', 'validate', 'import', 'flatten'] });
+      process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  logger.error('Redirects command failed', { error });
+  process.exit(1);
+});
@@ -0,0 +1,51 @@
+/**
+ * Content Sync Script
+ *
+ * Mirrors the published entries and assets of the stack into the local sync store with the
+ * Contentstack Sync API. The first run performs an initial sync, later runs apply the delta
+ * since the stored sync token. Render from the store with CONTENTSTACK_CONTENT_SOURCE=sync.
+ *
+ * @usage
+ *
+ * npm run sync-content                    delta sync of every site
+ * npm run sync-content -- --site brand-b  delta sync of one site
+ * npm run sync-content -- --full          rebuild the store with an initial sync
+ *
+ * A running server keeps serving its cached pages until they are revalidated: trigger the sync
+ * through the server instead with `POST /api/sync` (see app/api/sync/route.ts).
+ *
+ * @requires CONTENTSTACK_API_KEY
+ * @requires CONTENTSTACK_DELIVERY_TOKEN
+ */
+
+import { SITES } from '../constants/sites';
+import { syncContent } from '../lib/contentstack/sync';
+import { SiteService } from '../lib/services/site-service';
+import { createLogger } from '../lib/logger/logger';
+
+const logger = createLogger('sync-content');
+
+const args = process.argv.slice(2);
+const full = args.includes('--full');
+const siteIndex = args.indexOf('--site');
+const siteName = siteIndex >= 0 ? args[siteIndex + 1] : undefined;
+
+async function main() {
+  const site = siteName ? SiteService.getSiteByName(siteName) : undefined;
+
+  if (siteName && !site) {
+    logger.error(`Unknown site "${siteName}"`, { sites: SITES.map(({ name }) => name) });
+    process.exit(1);
+  }
+
+  // Sites are synced one after the other to stay within the API rate limits
+  for (const siteToSync of site ? [site] : SITES) {
+    const { mode, changes, durationMs } = await syncContent(siteToSync, { full });
+    logger.info(`Synced site "${siteToSync.name}"`, { mode, changes: changes.length, durationMs });
+  }
+}
+
+main().catch((error) => {
+  logger.error('Sync failed', { error });
+  process.exit(1);
+});
@@ -1,6 +1,13 @@
 import { toPascalCase } from './string-utils';
 import { NotFound } from '../components/primitives/NotFound';
 
+/**
+ * A registered component. Components rendered from modular blocks can declare the GraphQL
+ * field selection of their block in a static `fragment` property, used to build the page
+ * queries when CONTENTSTACK_DELIVERY_API=graphql (see lib/contentstack/graphql-pages.ts)
+ */
+export type MappedComponent = React.ComponentType<any> & { fragment?: string };
+
 /**
  * Class responsible for registering and retrieving components
  */
@@ -63,6 +70,15 @@ export class ComponentMapper {
     return !!this.components[toPascalCase(name)];
   }
 
+  /**
+   * Get the GraphQL field selection a component declares for its block
+   * @param name The component name (will be converted to PascalCase)
+   * @returns The selection, or undefined if the component is not registered or declares none
+   */
+  getFragment(name: string): string | undefined {
+    return (this.components[toPascalCase(name)] as MappedComponent | undefined)?.fragment;
+  }
+
   /**
    * Get all registered components
    * @returns Record of all registered components
@@ -20,6 +20,23 @@ interface DataLayerItem {
 
 type ContentGroup = 'page' | 'form';
 
+/**
+ * Page details sent with page views
+ */
+export interface PageViewDetails {
+  content_type?: string;
+  /** Term paths (e.g. "Products > Shoes") of the page, by taxonomy UID */
+  taxonomies?: Record<string, Array<string>>;
+}
+
+/**
+ * Experiment variant a visitor saw, sent with experiment impressions
+ */
+export interface ExperimentImpression {
+  experimentId: string;
+  variant: string;
+}
+
 /**
  * GTMDataLayer class - Manages Google Tag Manager data layer operations
  */
@@ -84,10 +101,12 @@ class GTMDataLayer {
 
   /**
    * Track a page view event
+   * @param page - Optional details of the viewed page
    */
-  public trackPageView(): void {
+  public trackPageView(page?: PageViewDetails): void {
     const pageViewData = {
       event: 'page_view',
+      ...(page && { page }),
       ecommerce: {
         event_details: this.getEventDetails('page'),
       },
@@ -96,6 +115,21 @@ class GTMDataLayer {
     this.push(pageViewData);
   }
 
+  /**
+   * Track the impression of an A/B experiment variant
+   * @param experiment - The experiment and the variant rendered
+   */
+  public trackExperimentImpression(experiment: ExperimentImpression): void {
+    this.push({
+      event: 'experiment_impression',
+      experiment_id: experiment.experimentId,
+      variant_id: experiment.variant,
+      ecommerce: {
+        event_details: this.getEventDetails('page'),
+      },
+    });
+  }
+
   /**
    * Track a form submission event
    * @param eventType - The type of event to track